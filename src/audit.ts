@@ -0,0 +1,68 @@
+import { randomUUID } from "crypto";
+import { isDeepStrictEqual } from "util";
+import { AttributeChange, DynamoDBKey, TableDescriptor } from "./types";
+
+/**
+ * Holds the history entries of every audited table, see
+ * RepositoryOptions.historyTableName. Entries are only ever added: a
+ * Repository writes them in the same transaction as the change they record,
+ * conditioned on no entry existing under the same id.
+ */
+export const historyTable: TableDescriptor = {
+  tableName: "HistoryTable",
+  partitionKey: { name: "itemKey", type: "S" },
+  sortKey: { name: "entryId", type: "S" },
+};
+
+// Groups the entries of one item; keys list their attributes in descriptor
+// order. Tenant ids cannot contain "#", so tenants never share a group.
+export function historyKey(
+  tableName: string,
+  key: DynamoDBKey,
+  tenantId?: string
+): string {
+  const table = tenantId === undefined ? tableName : `${tableName}#${tenantId}`;
+  return `${table}#${JSON.stringify(key)}`;
+}
+
+// Time of the last entry id handed out, see historyEntryId.
+let lastEntryTime = 0;
+
+/**
+ * An id that sorts entries by the time of their writes. Writes within the
+ * same millisecond get increasing times, so entries a process records keep
+ * their order; the random suffix keeps ids of separate processes apart.
+ */
+export function historyEntryId(changedAt: string): string {
+  const time = Math.max(Date.parse(changedAt), lastEntryTime + 1);
+  lastEntryTime = time;
+  return `${new Date(time).toISOString()}-${randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Compares two versions of an item attribute by attribute.
+ * @param before The item before the change, null when it did not exist.
+ * @param after The item after the change, null when it was deleted.
+ * @returns The top-level attributes whose values differ.
+ */
+export function diffItems(
+  before: Record<string, any> | null,
+  after: Record<string, any> | null
+): Record<string, AttributeChange> {
+  const changes: Record<string, AttributeChange> = {};
+  const names = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+  for (const name of names) {
+    const old = before?.[name];
+    const value = after?.[name];
+    if (!isDeepStrictEqual(old, value)) {
+      changes[name] = {
+        ...(old !== undefined && { old }),
+        ...(value !== undefined && { new: value }),
+      };
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,197 @@
+import { MemoryDocumentClient } from "./memory-client";
+import { Repository } from "./respo";
+import { booksTable } from "./schemas";
+import { LruCacheStore, ReadCache, CacheStore } from "./cache";
+import { TableDescriptor } from "./types";
+
+// Keeps reviews in the books table, pointing at their book through parentId.
+const booksWithReviewsTable: TableDescriptor = {
+  ...booksTable,
+  indexes: [
+    ...(booksTable.indexes ?? []),
+    {
+      name: "RelatedItemsIndex",
+      kind: "global",
+      partitionKey: { name: "parentId", type: "S" },
+      projection: { type: "ALL" },
+    },
+  ],
+  relationship: { attribute: "parentId", indexName: "RelatedItemsIndex" },
+};
+
+type Item = Record<string, any>;
+
+const dune = {
+  title: "Dune",
+  author: "Frank Herbert",
+  isbn: "9780441013593",
+  publicationDate: "1965-08-01",
+  genre: "Science Fiction",
+  price: 9.99,
+};
+const review = { isbn: "review-1", parentId: dune.isbn, rating: 5 };
+const duneKey = { isbn: dune.isbn };
+
+describe("LruCacheStore", () => {
+  it("evicts the least recently used entry and expired ones", async () => {
+    let now = 0;
+    const store = new LruCacheStore(2, () => now);
+    await store.set("a", "1", "PX", 100);
+    await store.set("b", "2", "PX", 100);
+    await store.get("a");
+    await store.set("c", "3", "PX", 100);
+
+    expect(await store.get("b")).toBeNull();
+    expect(await store.get("a")).toBe("1");
+    now = 100;
+    expect(await store.get("c")).toBeNull();
+  });
+});
+
+describe("ReadCache", () => {
+  let client: MemoryDocumentClient;
+  let cache: ReadCache;
+  let books: Repository<Item>;
+  let send: jest.SpyInstance;
+
+  // The Get, Query and Scan requests that reached the table.
+  const reads = () =>
+    send.mock.calls.filter(([command]) =>
+      ["GetCommand", "QueryCommand", "ScanCommand"].includes(
+        command.constructor.name
+      )
+    ).length;
+
+  beforeEach(async () => {
+    client = new MemoryDocumentClient([booksWithReviewsTable]);
+    cache = new ReadCache();
+    books = new Repository<Item>(booksWithReviewsTable, client, { cache });
+    await books.putItem(dune);
+    await books.putItem(review);
+    send = jest.spyOn(client, "send");
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("serves repeated reads of an item and its related items", async () => {
+    await books.getBookWithRelatedItems(duneKey);
+    const result = await books.getBookWithRelatedItems(duneKey);
+
+    expect(result).toEqual({ book: dune, relatedItems: [review] });
+    expect(reads()).toBe(2);
+    expect(cache.stats()).toMatchObject({ hits: 2, misses: 2 });
+
+    // Consistent reads and reads of deleted items go to the table.
+    await books.getItem(duneKey, { consistentRead: true });
+    await books.getBookWithRelatedItems(duneKey, { includeDeleted: true });
+    expect(reads()).toBe(5);
+  });
+
+  it("caches misses for their own, shorter time", async () => {
+    jest.useFakeTimers({ now: 0 });
+    cache = new ReadCache(new LruCacheStore(), { missTtlMs: 5000 });
+    books = new Repository<Item>(booksWithReviewsTable, client, { cache });
+
+    expect(await books.getItem({ isbn: "missing" })).toBeNull();
+    expect(await books.getItem({ isbn: "missing" })).toBeNull();
+    expect(reads()).toBe(1);
+    expect(cache.stats()).toMatchObject({ hits: 1, negativeHits: 1 });
+
+    jest.setSystemTime(5000);
+    await books.getItem({ isbn: "missing" });
+    expect(reads()).toBe(2);
+  });
+
+  it("keeps each entity type for its own time", async () => {
+    jest.useFakeTimers({ now: 0 });
+    books = new Repository<Item>(booksWithReviewsTable, client, {
+      cache: new ReadCache(new LruCacheStore(), {
+        ttlMs: (item) => (item.parentId ? 1000 : 60000),
+      }),
+    });
+    await books.getItem(duneKey);
+    await books.getItem({ isbn: review.isbn });
+
+    jest.setSystemTime(1000);
+    await books.getItem(duneKey);
+    await books.getItem({ isbn: review.isbn });
+    expect(reads()).toBe(3);
+  });
+
+  it("coalesces concurrent reads of the same item", async () => {
+    const results = await Promise.all([
+      books.getItem(duneKey),
+      books.getItem(duneKey),
+      books.getItem(duneKey),
+    ]);
+
+    expect(results).toEqual([dune, dune, dune]);
+    expect(reads()).toBe(1);
+    expect(cache.stats()).toMatchObject({ misses: 1, coalesced: 2 });
+  });
+
+  it("does not cache a read that overlaps a write of the item", async () => {
+    const read = books.getItem(duneKey);
+    await books.updateItem(duneKey, { price: 5 });
+    await read;
+
+    expect(await books.getItem(duneKey)).toMatchObject({ price: 5 });
+  });
+
+  it("invalidates entries on every kind of write", async () => {
+    const warm = () => books.getBookWithRelatedItems(duneKey);
+
+    await warm();
+    await books.updateItem(duneKey, { price: 5 });
+    expect((await warm()).book).toMatchObject({ price: 5 });
+
+    // A review deleted by key alone drops its parent's related items.
+    await books.mutate([
+      { Delete: { TableName: "BooksTable", Key: { isbn: review.isbn } } },
+    ]);
+    expect((await warm()).relatedItems).toEqual([]);
+
+    await books.batchWrite([review]);
+    expect((await warm()).relatedItems).toEqual([review]);
+
+    await books.replacePrimaryKey(duneKey, { isbn: "moved" });
+    expect(await warm()).toEqual({ book: null, relatedItems: [] });
+    expect(await books.getBookWithRelatedItems({ isbn: "moved" })).toEqual({
+      book: { ...dune, price: 5, isbn: "moved" },
+      relatedItems: [{ ...review, parentId: "moved" }],
+    });
+
+    await books.deleteItem({ isbn: "moved" });
+    expect(await books.getItem({ isbn: "moved" })).toBeNull();
+    expect(cache.stats().invalidations).toBeGreaterThan(0);
+  });
+
+  it("keeps the entries of tenants apart", async () => {
+    const scoped = new Repository<Item>(booksWithReviewsTable, client, {
+      cache,
+      tenancy: {},
+    });
+    await scoped.forTenant("acme").putItem(dune);
+
+    expect(await scoped.forTenant("acme").getItem(duneKey)).toEqual(dune);
+    expect(await scoped.forTenant("globex").getItem(duneKey)).toBeNull();
+    expect(await books.getItem(duneKey)).toEqual(dune);
+    expect(cache.stats().hits).toBe(0);
+  });
+
+  it("falls back to the table while the store fails", async () => {
+    const failing: CacheStore = {
+      get: jest.fn().mockRejectedValue(new Error("Connection refused")),
+      set: jest.fn().mockRejectedValue(new Error("Connection refused")),
+      del: jest.fn().mockRejectedValue(new Error("Connection refused")),
+    };
+    cache = new ReadCache(failing);
+    books = new Repository<Item>(booksWithReviewsTable, client, { cache });
+
+    expect(await books.getItem(duneKey)).toEqual(dune);
+    await books.updateItem(duneKey, { price: 5 });
+    expect(cache.stats()).toMatchObject({ misses: 1, errors: 3 });
+  });
+});
@@ -0,0 +1,287 @@
+import type { Counter, MetricsRegistry } from "./observability";
+
+/**
+ * Where cache entries are kept: the subset of a Redis client the cache
+ * needs, with ioredis' signatures, so a Redis client can be passed as is.
+ * LruCacheStore satisfies it in process.
+ */
+export type CacheStore = {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: "PX", ttlMs: number): Promise<unknown>;
+  del(...keys: string[]): Promise<number>;
+};
+
+/**
+ * An in-memory CacheStore that evicts the least recently used entry once it
+ * holds `maxEntries`, and drops entries when their time to live is over.
+ */
+export class LruCacheStore {
+  // Maps keep insertion order, so the first entry is the least recently used.
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+
+  constructor(
+    private maxEntries = 10000,
+    private now: () => number = Date.now
+  ) {
+    if (maxEntries < 1) {
+      throw new Error("An LRU cache needs room for at least one entry.");
+    }
+  }
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= this.now()) {
+      return null;
+    }
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, _mode: "PX", ttlMs: number) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: this.now() + ttlMs });
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    return "OK";
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    return keys.filter((key) => this.entries.delete(key)).length;
+  }
+}
+
+type CachedItem = Record<string, any>;
+
+// A single item, null for a cached miss, or a list of items.
+export type CachedValue = CachedItem | CachedItem[] | null;
+
+export type ReadCacheOptions = {
+  // How long items stay cached, e.g. depending on their entity type; a list
+  // of items stays as long as its shortest-lived item. 60 seconds by default.
+  ttlMs?: number | ((item: CachedItem) => number);
+  missTtlMs?: number; // How long misses and empty lists stay cached, 5 seconds by default; 0 turns that off
+  keyPrefix?: string; // Keeps the entries apart from others in a shared store
+  metrics?: MetricsRegistry; // Records hits, misses, invalidations and errors as counters
+  table?: string; // Labels the counters, for caches that serve one table
+};
+
+// Counters of the reads and invalidations since the cache was created.
+export type CacheStats = {
+  hits: number;
+  misses: number;
+  negativeHits: number; // Hits on a cached miss, also counted as hits
+  coalesced: number; // Reads that waited for an identical read in flight
+  invalidations: number; // Entries dropped after writes
+  errors: number; // Failed store calls; reads fall back to the loader
+};
+
+// Suffix of the entry naming what to drop along with an entry, see read.
+const DEPENDENT_SUFFIX = "#dependent";
+
+/**
+ * A read-through cache for Repository, see RepositoryOptions.cache.
+ * Concurrent reads of the same entry share one load, and a load that
+ * overlaps a write of its entry returns its result without caching it.
+ * Entries are serialized as JSON, so any CacheStore can hold them. A
+ * failing store never fails a read or write: reads go to the loader
+ * instead, and the failure is counted.
+ */
+export class ReadCache {
+  private ttlMs: number | ((item: CachedItem) => number);
+  private missTtlMs: number;
+  private keyPrefix: string;
+  // Reads in flight by entry; invalidating an entry marks its read stale.
+  private loads = new Map<string, { value: Promise<any>; stale: boolean }>();
+  private counters: CacheStats = {
+    hits: 0,
+    misses: 0,
+    negativeHits: 0,
+    coalesced: 0,
+    invalidations: 0,
+    errors: 0,
+  };
+  private metrics: Partial<Record<keyof CacheStats, Counter>>;
+  private labels: Record<string, string>;
+
+  constructor(
+    private store: CacheStore = new LruCacheStore(),
+    {
+      ttlMs = 60000,
+      missTtlMs = 5000,
+      keyPrefix = "",
+      metrics,
+      table,
+    }: ReadCacheOptions = {}
+  ) {
+    this.ttlMs = ttlMs;
+    this.missTtlMs = missTtlMs;
+    this.keyPrefix = keyPrefix;
+    this.labels = table === undefined ? {} : { table };
+    this.metrics = metrics
+      ? {
+          hits: metrics.counter(
+            "cache_hits_total",
+            "Reads served from the read cache."
+          ),
+          misses: metrics.counter(
+            "cache_misses_total",
+            "Reads the read cache passed on to DynamoDB."
+          ),
+          invalidations: metrics.counter(
+            "cache_invalidations_total",
+            "Read cache entries dropped after writes."
+          ),
+          errors: metrics.counter(
+            "cache_errors_total",
+            "Failed calls to the store of the read cache."
+          ),
+        }
+      : {};
+  }
+
+  stats(): CacheStats {
+    return { ...this.counters };
+  }
+
+  /**
+   * Returns the cached value of an entry, loading and caching it on a miss.
+   * @param key Entry to read.
+   * @param load Reads the value from the table.
+   * @param dependencies Entries whose invalidation must drop this entry as
+   * well, e.g. the items of a cached list. An entry is the dependent of
+   * one entry at a time.
+   */
+  async read<V extends CachedValue>(
+    key: string,
+    load: () => Promise<V>,
+    dependencies: (value: V) => string[] = () => []
+  ): Promise<V> {
+    const pending = this.loads.get(key);
+    if (pending) {
+      this.count("coalesced");
+      return structuredClone(await pending.value);
+    }
+
+    const entry = { value: Promise.resolve<any>(null), stale: false };
+    entry.value = this.lookup(key, load, dependencies, entry);
+    this.loads.set(key, entry);
+    try {
+      return await entry.value;
+    } finally {
+      if (this.loads.get(key) === entry) {
+        this.loads.delete(key);
+      }
+    }
+  }
+
+  // Reads an entry from the store, or loads it and fills the store unless a
+  // write invalidated the entry meanwhile.
+  private async lookup<V extends CachedValue>(
+    key: string,
+    load: () => Promise<V>,
+    dependencies: (value: V) => string[],
+    entry: { stale: boolean }
+  ): Promise<V> {
+    const cached = await this.storeCall(() =>
+      this.store.get(this.keyPrefix + key)
+    );
+    if (cached) {
+      const { value } = JSON.parse(cached) as { value: V };
+      this.count("hits");
+      if (value === null) {
+        this.count("negativeHits");
+      }
+      return value;
+    }
+
+    this.count("misses");
+    const value = await load();
+    const ttlMs = this.ttlOf(value);
+    if (!entry.stale && ttlMs > 0) {
+      await this.storeCall(async () => {
+        await this.store.set(
+          this.keyPrefix + key,
+          JSON.stringify({ value }),
+          "PX",
+          ttlMs
+        );
+        for (const dependency of dependencies(value)) {
+          await this.store.set(
+            this.keyPrefix + dependency + DEPENDENT_SUFFIX,
+            key,
+            "PX",
+            ttlMs
+          );
+        }
+      });
+    }
+    return value;
+  }
+
+  /**
+   * Drops entries and their dependents, and keeps loads in flight for them
+   * from being cached.
+   */
+  async invalidate(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.markStale(key));
+    await this.storeCall(async () => {
+      const dependents: string[] = [];
+      for (const key of keys) {
+        const dependent = await this.store.get(
+          this.keyPrefix + key + DEPENDENT_SUFFIX
+        );
+        if (dependent !== null) {
+          this.markStale(dependent);
+          dependents.push(dependent);
+        }
+      }
+      this.count(
+        "invalidations",
+        await this.store.del(
+          ...[...keys, ...dependents].map((key) => this.keyPrefix + key)
+        )
+      );
+      await this.store.del(
+        ...keys.map((key) => this.keyPrefix + key + DEPENDENT_SUFFIX)
+      );
+    });
+  }
+
+  private count(stat: keyof CacheStats, value = 1) {
+    this.counters[stat] += value;
+    this.metrics[stat]?.inc(this.labels, value);
+  }
+
+  private markStale(key: string) {
+    const pending = this.loads.get(key);
+    if (pending) {
+      pending.stale = true;
+      this.loads.delete(key);
+    }
+  }
+
+  private ttlOf(value: CachedValue): number {
+    const items = value === null ? [] : Array.isArray(value) ? value : [value];
+    if (items.length === 0) {
+      return this.missTtlMs;
+    }
+    const { ttlMs } = this;
+    return typeof ttlMs === "number"
+      ? ttlMs
+      : Math.min(...items.map((item) => ttlMs(item)));
+  }
+
+  private async storeCall<R>(call: () => Promise<R>): Promise<R | null> {
+    try {
+      return await call();
+    } catch {
+      this.count("errors");
+      return null;
+    }
+  }
+}
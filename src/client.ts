@@ -0,0 +1,11 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBConfig } from "./config";
+
+// Connects to DynamoDB, or to DynamoDB Local when an endpoint is configured.
+export function createDynamoDBClient({
+  endpoint,
+  region,
+  credentials,
+}: DynamoDBConfig): DynamoDBClient {
+  return new DynamoDBClient({ endpoint, region, credentials });
+}
@@ -0,0 +1,68 @@
+import { loadConfig } from "./config";
+
+describe("loadConfig", () => {
+  const file = JSON.stringify({
+    tables: { books: "Books" },
+    profiles: {
+      production: { server: { port: 8080 }, logging: { redact: ["price"] } },
+      staging: { dynamodb: { region: "eu-west-1" } },
+    },
+  });
+  const readFile = (path: string) => {
+    expect(path).toBe("/etc/books.json");
+    return file;
+  };
+
+  it("starts from the development profile", () => {
+    const config = loadConfig({ env: {} });
+
+    expect(config).toMatchObject({
+      profile: "development",
+      server: { port: 3000 },
+      dynamodb: { endpoint: "http://localhost:8000", region: "localhost" },
+      tables: { books: "BooksTable", history: "HistoryTable" },
+      cache: { enabled: true },
+    });
+  });
+
+  it("layers the profile, the file and the environment", () => {
+    const config = loadConfig({
+      env: {
+        APP_ENV: "production",
+        NODE_ENV: "test",
+        CONFIG_FILE: "/etc/books.json",
+        AWS_REGION: "us-east-1",
+        LOG_LEVEL: "warn",
+        CACHE_ENABLED: "false",
+        PORT: "9090",
+      },
+      readFile,
+    });
+
+    expect(config).toMatchObject({
+      profile: "production",
+      server: { port: 9090 },
+      dynamodb: { region: "us-east-1" },
+      tables: { books: "Books", outbox: "OutboxTable" },
+      logging: { level: "warn", redact: ["price"] },
+      cache: { enabled: false },
+    });
+    expect(config.dynamodb.endpoint).toBeUndefined();
+    // Profiles only the file knows are fine.
+    expect(
+      loadConfig({
+        env: { APP_ENV: "staging", CONFIG_FILE: "/etc/books.json" },
+        readFile,
+      }).dynamodb
+    ).toEqual({ region: "eu-west-1" });
+  });
+
+  it("names every invalid setting and unknown profiles", () => {
+    expect(() =>
+      loadConfig({ env: { PORT: "http", DYNAMODB_ENDPOINT: "localhost" } })
+    ).toThrow(/server\.port: .*; dynamodb\.endpoint: Invalid url/);
+    expect(() => loadConfig({ env: { APP_ENV: "qa" } })).toThrow(
+      'Unknown configuration profile "qa".'
+    );
+  });
+});
@@ -0,0 +1,217 @@
+import { readFileSync } from "fs";
+import { z } from "zod";
+
+// Accepts booleans from config files and "true"/"false" from the environment.
+const FlagSchema = z.union([
+  z.boolean(),
+  z.enum(["true", "false"]).transform((flag) => flag === "true"),
+]);
+
+export const ConfigSchema = z
+  .object({
+    profile: z.string().min(1).default("development"),
+    server: z
+      .object({
+        port: z.coerce.number().int().min(0).max(65535).default(3000),
+        // How long requests in flight may take to finish on shutdown.
+        shutdownTimeoutMs: z.coerce.number().int().positive().default(10000),
+        bodyLimit: z.string().min(1).default("100kb"), // Largest JSON body accepted
+      })
+      .strict()
+      .default({}),
+    dynamodb: z
+      .object({
+        endpoint: z.string().url().optional(), // DynamoDB Local, e.g. http://localhost:8000
+        region: z.string().min(1).optional(), // The SDK's default unless given
+        // The SDK's default credential chain unless given.
+        credentials: z
+          .object({
+            accessKeyId: z.string().min(1),
+            secretAccessKey: z.string().min(1),
+          })
+          .strict()
+          .optional(),
+      })
+      .strict()
+      .default({}),
+    tables: z
+      .object({
+        books: z.string().min(3).default("BooksTable"),
+        reviews: z.string().min(3).default("ReviewsTable"),
+        authors: z.string().min(3).default("AuthorsTable"),
+        outbox: z.string().min(3).default("OutboxTable"),
+        history: z.string().min(3).default("HistoryTable"),
+      })
+      .strict()
+      .default({}),
+    logging: z
+      .object({
+        level: z.enum(["debug", "info", "warn", "error"]).default("info"),
+        redact: z.array(z.string().min(1)).default([]), // See JsonLoggerOptions.redact
+      })
+      .strict()
+      .default({}),
+    cache: z
+      .object({
+        enabled: FlagSchema.default(true),
+        maxEntries: z.coerce.number().int().positive().default(10000),
+        ttlMs: z.coerce.number().int().positive().default(60000),
+      })
+      .strict()
+      .default({}),
+    outbox: z
+      .object({
+        webhookUrl: z.string().url().optional(), // Events go to a file unless given
+      })
+      .strict()
+      .default({}),
+  })
+  .strict();
+
+export type Config = z.infer<typeof ConfigSchema>;
+export type ConfigInput = z.input<typeof ConfigSchema>;
+export type DynamoDBConfig = Config["dynamodb"];
+
+// The settings every deployment of a profile starts from.
+export const PROFILES: Record<string, ConfigInput> = {
+  development: {
+    dynamodb: {
+      endpoint: "http://localhost:8000",
+      region: "localhost",
+      credentials: {
+        accessKeyId: "fakeMyKeyId",
+        secretAccessKey: "fakeSecretAccessKey",
+      },
+    },
+    logging: { level: "debug" },
+  },
+  test: {
+    dynamodb: {
+      endpoint: "http://localhost:8000",
+      region: "localhost",
+      credentials: {
+        accessKeyId: "fakeMyKeyId",
+        secretAccessKey: "fakeSecretAccessKey",
+      },
+    },
+    logging: { level: "warn" },
+  },
+  production: {},
+};
+
+// The configuration with every default, e.g. for apps built in tests.
+export const DEFAULT_CONFIG: Config = ConfigSchema.parse({});
+
+// A config file holds settings for every profile plus overrides per profile.
+type ConfigFile = ConfigInput & { profiles?: Record<string, ConfigInput> };
+
+export type LoadConfigOptions = {
+  env?: Record<string, string | undefined>; // process.env by default
+  readFile?: (path: string) => string;
+};
+
+/**
+ * Loads the configuration of the profile named by APP_ENV, or NODE_ENV,
+ * "development" by default. Later sources override earlier ones: the
+ * defaults, the built-in profile, the JSON file named by CONFIG_FILE, the
+ * file's section for the profile, and the environment variables.
+ * @throws Error naming every invalid setting, or the unknown profile.
+ */
+export function loadConfig({
+  env = process.env,
+  readFile = (path) => readFileSync(path, "utf8"),
+}: LoadConfigOptions = {}): Config {
+  const profile = env.APP_ENV ?? env.NODE_ENV ?? "development";
+  const { profiles = {}, ...file }: ConfigFile = env.CONFIG_FILE
+    ? JSON.parse(readFile(env.CONFIG_FILE))
+    : {};
+  if (!(profile in PROFILES) && !(profile in profiles)) {
+    throw new Error(`Unknown configuration profile "${profile}".`);
+  }
+
+  const parsed = ConfigSchema.safeParse(
+    merge(
+      PROFILES[profile] ?? {},
+      file,
+      profiles[profile] ?? {},
+      fromEnv(env),
+      {
+        profile,
+      }
+    )
+  );
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(
+      (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+    );
+    throw new Error(`Invalid configuration: ${issues.join("; ")}.`);
+  }
+  return parsed.data;
+}
+
+// The settings the environment variables give, leaving out those not set.
+// Values stay strings for ConfigSchema to coerce.
+function fromEnv(
+  env: Record<string, string | undefined>
+): Record<string, Record<string, unknown>> {
+  const list = (value?: string) =>
+    value
+      ?.split(",")
+      .map((entry) => entry.trim())
+      .filter((entry) => entry.length > 0);
+  return {
+    server: {
+      port: env.PORT,
+      shutdownTimeoutMs: env.SHUTDOWN_TIMEOUT_MS,
+      bodyLimit: env.BODY_LIMIT,
+    },
+    dynamodb: {
+      endpoint: env.DYNAMODB_ENDPOINT,
+      region: env.AWS_REGION,
+      credentials:
+        env.AWS_ACCESS_KEY_ID && env.AWS_SECRET_ACCESS_KEY
+          ? {
+              accessKeyId: env.AWS_ACCESS_KEY_ID,
+              secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
+            }
+          : undefined,
+    },
+    tables: {
+      books: env.BOOKS_TABLE,
+      reviews: env.REVIEWS_TABLE,
+      authors: env.AUTHORS_TABLE,
+      outbox: env.OUTBOX_TABLE,
+      history: env.HISTORY_TABLE,
+    },
+    logging: {
+      level: env.LOG_LEVEL,
+      redact: list(env.LOG_REDACT),
+    },
+    cache: {
+      enabled: env.CACHE_ENABLED,
+      maxEntries: env.CACHE_MAX_ENTRIES,
+      ttlMs: env.CACHE_TTL_MS,
+    },
+    outbox: { webhookUrl: env.OUTBOX_WEBHOOK_URL },
+  };
+}
+
+// Merges settings object by object; undefined values leave earlier ones be.
+function merge(...sources: Record<string, any>[]): Record<string, any> {
+  const merged: Record<string, any> = {};
+  for (const source of sources) {
+    for (const [name, value] of Object.entries(source)) {
+      if (value === undefined) {
+        continue;
+      }
+      merged[name] = isPlainObject(value)
+        ? merge(isPlainObject(merged[name]) ? merged[name] : {}, value)
+        : value;
+    }
+  }
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,35 @@
+import { defineEntity } from "./entity";
+import { AuthorSchema, BookSchema, ReviewSchema } from "./schemas";
+import { TableDescriptor } from "./types";
+
+// Books, their reviews and authors share one table. A book and its reviews
+// live in the same partition, so one Query reads the whole collection.
+export const catalogTable: TableDescriptor = {
+  tableName: "CatalogTable",
+  partitionKey: { name: "PK", type: "S" },
+  sortKey: { name: "SK", type: "S" },
+};
+
+export const bookEntity = defineEntity({
+  name: "Book",
+  schema: BookSchema,
+  keys: { PK: "BOOK#{isbn}", SK: "BOOK#{isbn}" },
+});
+
+export const reviewEntity = defineEntity({
+  name: "Review",
+  schema: ReviewSchema,
+  keys: { PK: "BOOK#{isbn}", SK: "REVIEW#{reviewId}" },
+});
+
+export const authorEntity = defineEntity({
+  name: "Author",
+  schema: AuthorSchema,
+  keys: { PK: "AUTHOR#{authorId}", SK: "AUTHOR#{authorId}" },
+});
+
+export const catalogEntities = {
+  book: bookEntity,
+  review: reviewEntity,
+  author: authorEntity,
+};
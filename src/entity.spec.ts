@@ -0,0 +1,109 @@
+import { z } from "zod";
+import { MemoryDocumentClient } from "./memory-client";
+import { Repository } from "./respo";
+import { defineEntity, SingleTable } from "./entity";
+import { catalogEntities, catalogTable } from "./entities";
+
+const dune = {
+  title: "Dune",
+  author: "Frank Herbert",
+  isbn: "9780441013593",
+  publicationDate: "1965-08-01",
+  genre: "Science Fiction",
+  price: 9.99,
+};
+const review = {
+  reviewId: "r-1",
+  isbn: dune.isbn,
+  reviewer: "Paul",
+  rating: 5,
+  body: "Spice.",
+};
+
+describe("Entity", () => {
+  const edition = defineEntity({
+    name: "Edition",
+    schema: z.object({ isbn: z.string(), format: z.string() }),
+    keys: { PK: "BOOK#{isbn}", SK: "EDITION#{format}#{isbn}" },
+  });
+
+  it("composes keys from the fields of their templates", () => {
+    expect(edition.composeKeys({ isbn: "1", format: "paperback" })).toEqual({
+      PK: "BOOK#1",
+      SK: "EDITION#paperback#1",
+    });
+    expect(edition.composeKeys({ isbn: "1" }, ["PK"])).toEqual({
+      PK: "BOOK#1",
+    });
+    expect(() => edition.composeKeys({ isbn: "1" })).toThrow(
+      "missing field format"
+    );
+    expect(() => edition.composeKeys({ isbn: "1" }, ["GSI1PK"])).toThrow(
+      "no key template for GSI1PK"
+    );
+  });
+
+  it("parses keys back into the fields they were composed from", () => {
+    const fields = { isbn: "1#2", format: "50% #off" };
+    const keys = edition.composeKeys(fields);
+    expect(keys).toEqual({
+      PK: "BOOK#1%232",
+      SK: "EDITION#50%25 %23off#1%232",
+    });
+    expect(edition.parseKey("SK", keys.SK)).toEqual(fields);
+    expect(edition.fromItem(keys)).toEqual(fields);
+    expect(edition.parseKey("SK", "EDITION#paperback#1")).toEqual({
+      format: "paperback",
+      isbn: "1",
+    });
+    expect(edition.parseKey("SK", "REVIEW#1")).toBeNull();
+  });
+});
+
+describe("SingleTable", () => {
+  let client: MemoryDocumentClient;
+  let catalog: SingleTable<typeof catalogEntities>;
+
+  beforeEach(() => {
+    client = new MemoryDocumentClient([catalogTable]);
+    catalog = new SingleTable(
+      new Repository(catalogTable, client),
+      catalogEntities
+    );
+  });
+
+  it("reads a book and its reviews as one collection", async () => {
+    await catalog.put("book", dune);
+    await catalog.put("review", review);
+    await catalog.put("review", { ...review, reviewId: "r-2", rating: 3 });
+    await catalog.put("book", { ...dune, isbn: "9780441172719" });
+    await catalog.put("author", { authorId: "a-1", name: "Frank Herbert" });
+
+    const collection = await catalog.queryCollection("book", dune);
+    expect(collection).toEqual({
+      book: [dune],
+      review: [review, { ...review, reviewId: "r-2", rating: 3 }],
+      author: [],
+    });
+    expect(client.items("CatalogTable")).toContainEqual({
+      ...review,
+      PK: `BOOK#${dune.isbn}`,
+      SK: "REVIEW#r-1",
+      entityType: "Review",
+    });
+  });
+
+  it("ignores items of types it does not know", async () => {
+    await catalog.put("book", dune);
+    await new Repository(catalogTable, client).putItem({
+      PK: `BOOK#${dune.isbn}`,
+      SK: "NOTE#1",
+      entityType: "Note",
+    });
+
+    expect(await catalog.get("book", { isbn: dune.isbn })).toEqual(dune);
+    expect(
+      (await catalog.queryCollection("book", { isbn: dune.isbn })).book
+    ).toEqual([dune]);
+  });
+});
@@ -0,0 +1,273 @@
+import { z } from "zod";
+import { Repository } from "./respo";
+import { attribute } from "./util-condition";
+import { DynamoDBKey, WriteOptions } from "./types";
+
+// Maps key attribute names to templates such as `BOOK#{isbn}`.
+export type KeyTemplates = Record<string, string>;
+
+const FIELD = /\{(\w+)\}/g;
+
+// Percent-encodes a character as its UTF-8 bytes, as decodeURIComponent reads.
+function percentEncode(char: string): string {
+  return Array.from(
+    new TextEncoder().encode(char),
+    (byte) => `%${byte.toString(16).toUpperCase().padStart(2, "0")}`
+  ).join("");
+}
+
+/**
+ * Pairs a zod schema with the key templates an entity is stored under in a
+ * shared table. Templates reference fields of the schema in braces.
+ */
+export class Entity<
+  Name extends string = string,
+  Schema extends z.AnyZodObject = z.AnyZodObject
+> {
+  constructor(
+    readonly name: Name,
+    readonly schema: Schema,
+    readonly keys: KeyTemplates
+  ) {}
+
+  /**
+   * Composes the given key attributes (all templates by default) from entity fields.
+   * Field values escape "%" and the separators of the template, such as "#",
+   * so parseKey splits the key back into the same values.
+   */
+  composeKeys(
+    fields: Partial<z.infer<Schema>>,
+    attributes: string[] = Object.keys(this.keys)
+  ): Record<string, string> {
+    return Object.fromEntries(
+      attributes.map((name) => {
+        const template = this.template(name);
+        const value = template.replace(FIELD, (_, field: string) => {
+          const fieldValue = fields[field];
+          if (fieldValue === undefined || fieldValue === null) {
+            throw new Error(
+              `Cannot compose ${this.name} key ${name}: missing field ${field}.`
+            );
+          }
+          return this.escape(template, String(fieldValue));
+        });
+        return [name, value];
+      })
+    );
+  }
+
+  /**
+   * Extracts the fields encoded in a key value, or null when the value does
+   * not follow the attribute's template.
+   */
+  parseKey(name: string, value: string): Record<string, string> | null {
+    const template = this.template(name);
+    const fields: string[] = [];
+    const pattern = template
+      .split(FIELD)
+      .map((part, index) => {
+        // split() with a capture group alternates literals and field names.
+        if (index % 2 === 1) {
+          fields.push(part);
+          return "(.+?)";
+        }
+        return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      })
+      .join("");
+
+    const match = new RegExp(`^${pattern}$`).exec(value);
+    if (!match) {
+      return null;
+    }
+    try {
+      return Object.fromEntries(
+        fields.map((field, index) => [
+          field,
+          decodeURIComponent(match[index + 1]),
+        ])
+      );
+    } catch {
+      // Not escaped by composeKeys.
+      return null;
+    }
+  }
+
+  /**
+   * Validates entity data and converts it into a stored item with its keys.
+   */
+  toItem(data: z.infer<Schema>): Record<string, any> {
+    const parsed = this.schema.parse(data);
+    return { ...parsed, ...this.composeKeys(parsed) };
+  }
+
+  /**
+   * Converts a stored item back into validated entity data. Fields that only
+   * live in the keys are recovered from them.
+   */
+  fromItem(item: Record<string, any>): z.infer<Schema> {
+    const data: Record<string, any> = {};
+    for (const [name, value] of Object.entries(item)) {
+      if (name in this.keys) {
+        Object.assign(data, this.parseKey(name, String(value)));
+      }
+    }
+    for (const [name, value] of Object.entries(item)) {
+      if (!(name in this.keys)) {
+        data[name] = value;
+      }
+    }
+    return this.schema.parse(data);
+  }
+
+  // Escapes "%" and the characters separating the fields of a template.
+  private escape(template: string, value: string): string {
+    const separators = new Set(
+      template.replace(FIELD, "").replace(/\w/g, "") + "%"
+    );
+    return Array.from(value, (char) =>
+      separators.has(char) ? percentEncode(char) : char
+    ).join("");
+  }
+
+  private template(name: string): string {
+    const template = this.keys[name];
+    if (template === undefined) {
+      throw new Error(`Entity ${this.name} has no key template for ${name}.`);
+    }
+    return template;
+  }
+}
+
+export function defineEntity<
+  Name extends string,
+  Schema extends z.AnyZodObject
+>(definition: { name: Name; schema: Schema; keys: KeyTemplates }) {
+  return new Entity(definition.name, definition.schema, definition.keys);
+}
+
+export type EntityData<E> = E extends Entity<any, infer Schema>
+  ? z.infer<Schema>
+  : never;
+
+export type Collection<Entities extends Record<string, Entity>> = {
+  [K in keyof Entities]: EntityData<Entities[K]>[];
+};
+
+export type SingleTableOptions = {
+  typeAttribute?: string; // Attribute holding the entity-type discriminator
+};
+
+/**
+ * Stores several entity types in one table through a Repository, writing an
+ * entity-type discriminator and validating every item read back.
+ */
+export class SingleTable<Entities extends Record<string, Entity>> {
+  private typeAttribute: string;
+
+  constructor(
+    private repository: Repository<Record<string, any>>,
+    private entities: Entities,
+    { typeAttribute = "entityType" }: SingleTableOptions = {}
+  ) {
+    this.typeAttribute = typeAttribute;
+  }
+
+  async put<K extends keyof Entities>(
+    type: K,
+    data: EntityData<Entities[K]>,
+    options: WriteOptions = {}
+  ): Promise<EntityData<Entities[K]>> {
+    const entity = this.entities[type];
+    const item = await this.repository.putItem(
+      { ...entity.toItem(data), [this.typeAttribute]: entity.name },
+      options
+    );
+    return this.fromItem(entity, item);
+  }
+
+  /**
+   * Reads one entity by the fields its primary key is composed from.
+   * @returns The validated entity, or null when no entity of this type exists.
+   */
+  async get<K extends keyof Entities>(
+    type: K,
+    fields: Partial<EntityData<Entities[K]>>
+  ): Promise<EntityData<Entities[K]> | null> {
+    const entity = this.entities[type];
+    const item = await this.repository.getItem(this.primaryKey(entity, fields));
+    if (!item || item[this.typeAttribute] !== entity.name) {
+      return null;
+    }
+    return this.fromItem(entity, item);
+  }
+
+  async delete<K extends keyof Entities>(
+    type: K,
+    fields: Partial<EntityData<Entities[K]>>,
+    options: WriteOptions = {}
+  ): Promise<EntityData<Entities[K]> | null> {
+    const entity = this.entities[type];
+    const item = await this.repository.deleteItem(
+      this.primaryKey(entity, fields),
+      {
+        ...options,
+        condition: attribute(this.typeAttribute)
+          .eq(entity.name)
+          .and(...(options.condition ? [options.condition] : [])),
+      }
+    );
+    return item ? this.fromItem(entity, item) : null;
+  }
+
+  /**
+   * Reads every item sharing the partition key of the given entity, e.g. a
+   * book together with its reviews, grouped and validated by entity type.
+   * Items of types not registered with this table are ignored.
+   */
+  async queryCollection<K extends keyof Entities>(
+    type: K,
+    fields: Partial<EntityData<Entities[K]>>
+  ): Promise<Collection<Entities>> {
+    const entity = this.entities[type];
+    const partitionKey = this.repository.table.partitionKey.name;
+    const [, value] = Object.entries(
+      entity.composeKeys(fields, [partitionKey])
+    )[0];
+
+    const collection = Object.fromEntries(
+      Object.keys(this.entities).map((name) => [name, []])
+    ) as unknown as Collection<Entities>;
+
+    for await (const item of this.repository.iterateQuery({
+      keyCondition: attribute(partitionKey).eq(value),
+    })) {
+      const name = (Object.keys(this.entities) as (keyof Entities)[]).find(
+        (candidate) =>
+          this.entities[candidate].name === item[this.typeAttribute]
+      );
+      if (name !== undefined) {
+        collection[name].push(
+          this.fromItem<Entities[keyof Entities]>(this.entities[name], item)
+        );
+      }
+    }
+
+    return collection;
+  }
+
+  private primaryKey(entity: Entity, fields: Record<string, any>): DynamoDBKey {
+    const { partitionKey, sortKey } = this.repository.table;
+    const names = sortKey
+      ? [partitionKey.name, sortKey.name]
+      : [partitionKey.name];
+    return entity.composeKeys(fields, names);
+  }
+
+  private fromItem<E extends Entity>(
+    entity: E,
+    item: Record<string, any>
+  ): EntityData<E> {
+    const { [this.typeAttribute]: _type, ...rest } = item;
+    return entity.fromItem(rest) as EntityData<E>;
+  }
+}
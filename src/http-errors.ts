@@ -0,0 +1,240 @@
+import {
+  ErrorRequestHandler,
+  NextFunction,
+  Request,
+  RequestHandler,
+  Response,
+} from "express";
+import { ZodError } from "zod";
+import { Logger, defaultLogger } from "./observability";
+import {
+  DatabaseOperationError,
+  ItemNotFoundError,
+  ConditionalCheckFailedError,
+  ConcurrentModificationError,
+  TransactionCanceledError,
+  TransactionConflictError,
+  ThrottledError,
+  CircuitOpenError,
+  ValidationFailedError,
+  ValidationIssue,
+  InvalidCursorError,
+  TenantRequiredError,
+  FieldPermissionError,
+  MethodNotAllowedError,
+} from "./types";
+
+// An RFC 9457 problem details body, extended with field-level issues.
+export type ProblemDetails = {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  issues?: ValidationIssue[];
+};
+
+type ProblemType = {
+  type: string;
+  title: string;
+  status: number;
+};
+
+// Checked in order, so subclasses come before the classes they extend.
+const PROBLEM_TYPES: [new (...args: any[]) => Error, ProblemType][] = [
+  [
+    ValidationFailedError,
+    {
+      type: "/problems/validation-failed",
+      title: "Validation failed",
+      status: 400,
+    },
+  ],
+  [
+    InvalidCursorError,
+    { type: "/problems/invalid-cursor", title: "Invalid cursor", status: 400 },
+  ],
+  [
+    TenantRequiredError,
+    {
+      type: "/problems/tenant-required",
+      title: "Tenant required",
+      status: 400,
+    },
+  ],
+  [
+    FieldPermissionError,
+    {
+      type: "/problems/forbidden-fields",
+      title: "Forbidden fields",
+      status: 403,
+    },
+  ],
+  [
+    ItemNotFoundError,
+    { type: "/problems/not-found", title: "Not found", status: 404 },
+  ],
+  [
+    MethodNotAllowedError,
+    {
+      type: "/problems/method-not-allowed",
+      title: "Method not allowed",
+      status: 405,
+    },
+  ],
+  [
+    ConcurrentModificationError,
+    {
+      type: "/problems/concurrent-modification",
+      title: "Concurrent modification",
+      status: 409,
+    },
+  ],
+  [
+    ConditionalCheckFailedError,
+    {
+      type: "/problems/condition-failed",
+      title: "Condition failed",
+      status: 409,
+    },
+  ],
+  [
+    TransactionCanceledError,
+    {
+      type: "/problems/transaction-canceled",
+      title: "Transaction canceled",
+      status: 409,
+    },
+  ],
+  [
+    TransactionConflictError,
+    {
+      type: "/problems/transaction-conflict",
+      title: "Transaction conflict",
+      status: 409,
+    },
+  ],
+  [
+    ThrottledError,
+    { type: "/problems/throttled", title: "Service busy", status: 503 },
+  ],
+  [
+    CircuitOpenError,
+    {
+      type: "/problems/service-unavailable",
+      title: "Service unavailable",
+      status: 503,
+    },
+  ],
+];
+
+const INTERNAL_ERROR: ProblemType = {
+  type: "/problems/internal-error",
+  title: "Internal server error",
+  status: 500,
+};
+
+/**
+ * Wraps an async route handler so a rejected promise reaches the error
+ * middleware instead of leaving the request hanging.
+ */
+export function asyncHandler(
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
+
+// Converts zod issues into the issues of a ValidationFailedError.
+export function validationFailed(
+  error: ZodError,
+  message = "The request is invalid."
+): ValidationFailedError {
+  return new ValidationFailedError(message, {
+    cause: error,
+    issues: error.issues.map((issue) => ({
+      path: issue.path,
+      message: issue.message,
+      code: issue.code,
+    })),
+  });
+}
+
+/**
+ * Maps errors to problem details responses. Messages of our own error
+ * classes are shown to clients; anything else is logged, through the logger
+ * of the request when there is one, and answered with a generic 500, so
+ * service and library internals do not leak.
+ */
+export const errorHandler: ErrorRequestHandler = (error, req, res, next) => {
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  const problem = toProblem(
+    error instanceof ZodError ? validationFailed(error) : error,
+    req.originalUrl
+  );
+  if (problem.status >= 500) {
+    const logger: Logger = res.locals.logger ?? defaultLogger;
+    logger.error("Request failed.", {
+      method: req.method,
+      url: req.originalUrl,
+      error,
+    });
+  }
+  if (error instanceof ThrottledError) {
+    res.set("Retry-After", "1");
+  }
+  if (error instanceof CircuitOpenError) {
+    res.set(
+      "Retry-After",
+      String(Math.max(1, Math.ceil(error.retryAfterMs / 1000)))
+    );
+  }
+  res.status(problem.status).type("application/problem+json").json(problem);
+};
+
+function toProblem(error: unknown, instance: string): ProblemDetails {
+  const match = PROBLEM_TYPES.find(
+    ([errorClass]) => error instanceof errorClass
+  );
+  if (match) {
+    return {
+      ...match[1],
+      detail: (error as Error).message,
+      instance,
+      ...(error instanceof ValidationFailedError && error.issues.length > 0
+        ? { issues: error.issues }
+        : {}),
+    };
+  }
+
+  // Errors raised by body-parser, e.g. malformed JSON or an oversized body.
+  const status = (error as { status?: number; expose?: boolean })?.status;
+  if ((error as { expose?: boolean })?.expose && status && status < 500) {
+    return {
+      type:
+        status === 400
+          ? "/problems/validation-failed"
+          : "/problems/bad-request",
+      title: status === 400 ? "Validation failed" : "Bad request",
+      status,
+      detail:
+        (error as { type?: string }).type === "entity.parse.failed"
+          ? "The request body is not valid JSON."
+          : (error as Error).message,
+      instance,
+    };
+  }
+
+  return {
+    ...INTERNAL_ERROR,
+    detail:
+      error instanceof DatabaseOperationError
+        ? "The database operation failed."
+        : "An unexpected error occurred.",
+    instance,
+  };
+}
@@ -0,0 +1,659 @@
+import request from "supertest";
+import {
+  createApp,
+  booksTable,
+  BookItem,
+  ReviewItem,
+  AuthorItem,
+} from "./index";
+import { reviewsTable, authorsTable } from "./schemas";
+import { MemoryDocumentClient } from "./memory-client";
+import { Repository } from "./respo";
+import { outboxTable } from "./outbox";
+import { historyTable } from "./audit";
+import { JsonLogger, MetricsRegistry } from "./observability";
+
+const dune = {
+  title: "Dune",
+  author: "Frank Herbert",
+  isbn: "9780441013593",
+  publicationDate: "1965-08-01",
+  genre: "Science Fiction",
+  price: 9.99,
+};
+
+describe("books API", () => {
+  let client: MemoryDocumentClient;
+  let app: ReturnType<typeof createApp>;
+  let logs: Record<string, any>[];
+  let logger: JsonLogger;
+
+  beforeEach(() => {
+    logs = [];
+    logger = new JsonLogger({ write: (line) => logs.push(JSON.parse(line)) });
+    client = new MemoryDocumentClient([
+      booksTable,
+      reviewsTable,
+      outboxTable,
+      historyTable,
+    ]);
+    const reviews = new Repository<ReviewItem>(reviewsTable, client, {
+      versionAttribute: "version",
+      softDelete: {},
+      historyTableName: historyTable.tableName,
+    });
+    app = createApp({
+      repositories: {
+        books: new Repository<BookItem>(booksTable, client, {
+          versionAttribute: "version",
+          outboxTableName: outboxTable.tableName,
+          softDelete: {},
+          historyTableName: historyTable.tableName,
+          retry: { maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 1 },
+          relatedItems: reviews,
+        }),
+        reviews,
+      },
+      logger,
+    });
+  });
+
+  const review = {
+    reviewId: "r-1",
+    isbn: dune.isbn,
+    reviewer: "Paul",
+    rating: 5,
+    body: "Spice.",
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("creates a book once", async () => {
+    await request(app).post("/books").send(dune).expect(201);
+    await request(app).post("/books").send(dune).expect(409);
+    await request(app)
+      .post("/books")
+      .send({ ...dune, price: "free" })
+      .expect(400);
+    expect(client.items("OutboxTable")).toEqual([
+      expect.objectContaining({
+        type: "BookCreated",
+        payload: dune,
+        status: "pending",
+      }),
+    ]);
+  });
+
+  it("reads a book with its version as ETag", async () => {
+    await request(app).put(`/books/${dune.isbn}`).send(dune).expect(200);
+    const response = await request(app).get(`/books/${dune.isbn}`).expect(200);
+    expect(response.body).toEqual({ ...dune, version: 1 });
+    expect(response.headers.etag).toBe('"1"');
+    await request(app).get("/books/missing").expect(404);
+  });
+
+  it("lists books page by page", async () => {
+    for (const isbn of ["1", "2", "3"]) {
+      await request(app)
+        .put(`/books/${isbn}`)
+        .send({ ...dune, isbn });
+    }
+    const first = await request(app).get("/books?limit=2").expect(200);
+    expect(first.body.items).toHaveLength(2);
+
+    const second = await request(app)
+      .get("/books")
+      .query({ limit: 2, cursor: first.body.cursor })
+      .expect(200);
+    expect(second.body).toEqual({ items: [expect.any(Object)], cursor: null });
+
+    await request(app).get("/books?cursor=nonsense").expect(400);
+  });
+
+  it("honours If-Match on updates and deletes", async () => {
+    await request(app).put(`/books/${dune.isbn}`).send(dune);
+
+    const patched = await request(app)
+      .patch(`/books/${dune.isbn}`)
+      .set("If-Match", '"1"')
+      .send({ price: 12.5 })
+      .expect(200);
+    expect(patched.body).toMatchObject({ price: 12.5, version: 2 });
+    expect(patched.headers.etag).toBe('"2"');
+
+    await request(app)
+      .patch(`/books/${dune.isbn}`)
+      .set("If-Match", '"1"')
+      .send({ price: 1 })
+      .expect(409);
+    await request(app)
+      .delete(`/books/${dune.isbn}`)
+      .set("If-Match", '"1"')
+      .expect(409);
+    await request(app)
+      .delete(`/books/${dune.isbn}`)
+      .set("If-Match", '"2"')
+      .expect(204);
+    await request(app).delete(`/books/${dune.isbn}`).expect(404);
+  });
+
+  it("soft deletes, restores and hard deletes books", async () => {
+    await request(app).put(`/books/${dune.isbn}`).send(dune);
+    await request(app).post("/reviews").send(review).expect(201);
+
+    await request(app)
+      .delete(`/books/${dune.isbn}`)
+      .query({ cascade: true })
+      .expect(204);
+    await request(app).get(`/books/${dune.isbn}`).expect(404);
+    const listed = await request(app).get("/books").expect(200);
+    expect(listed.body.items).toEqual([]);
+    expect(client.items("BooksTable")).toEqual([
+      expect.objectContaining({
+        isbn: dune.isbn,
+        expiresAt: expect.any(Number),
+      }),
+    ]);
+    expect(client.items("ReviewsTable")).toEqual([
+      expect.objectContaining({
+        reviewId: "r-1",
+        deletedAt: expect.any(String),
+        expiresAt: expect.any(Number),
+      }),
+    ]);
+    await request(app).get("/reviews/r-1").expect(404);
+
+    const restored = await request(app)
+      .post(`/books/${dune.isbn}/restore`)
+      .query({ cascade: true })
+      .expect(200);
+    expect(restored.body).toEqual({ ...dune, version: 3 });
+    expect(restored.headers.etag).toBe('"3"');
+    await request(app).post(`/books/${dune.isbn}/restore`).expect(404);
+    const restoredReview = await request(app).get("/reviews/r-1").expect(200);
+    expect(restoredReview.body).toEqual({ ...review, version: 1 });
+
+    await request(app)
+      .delete(`/books/${dune.isbn}`)
+      .query({ hard: true })
+      .expect(204);
+    expect(client.items("BooksTable")).toEqual([]);
+    expect(client.items("ReviewsTable")).toEqual([{ ...review, version: 1 }]);
+    await request(app).delete("/books/x?hard=yes").expect(400);
+  });
+
+  it("keeps a history of every change, with diffs and reverts", async () => {
+    await request(app).post("/books").send(dune).expect(201);
+    const patched = await request(app)
+      .patch(`/books/${dune.isbn}`)
+      .set("X-Actor", "pricing-team")
+      .set("X-Correlation-Id", "request-7")
+      .send({ price: 14.99 })
+      .expect(200);
+    expect(patched.headers["x-correlation-id"]).toBe("request-7");
+
+    const history = await request(app)
+      .get(`/books/${dune.isbn}/history`)
+      .expect(200);
+    expect(history.body.items).toEqual([
+      expect.objectContaining({ operation: "mutate", actor: "anonymous" }),
+      expect.objectContaining({
+        operation: "update",
+        actor: "pricing-team",
+        correlationId: "request-7",
+        version: 2,
+        changes: {
+          price: { old: 9.99, new: 14.99 },
+          version: { old: 1, new: 2 },
+        },
+      }),
+    ]);
+    const [created, repriced] = history.body.items;
+
+    const diff = await request(app)
+      .get(`/books/${dune.isbn}/history/${created.entryId}/diff`)
+      .expect(200);
+    expect(diff.body.changes).toEqual({
+      price: { old: 9.99, new: 14.99 },
+      version: { old: 1, new: 2 },
+    });
+    await request(app)
+      .get(`/books/${dune.isbn}/history/${created.entryId}/diff`)
+      .query({ against: "missing" })
+      .expect(404);
+
+    await request(app)
+      .post(`/books/${dune.isbn}/history/${created.entryId}/revert`)
+      .set("If-Match", '"1"')
+      .expect(409);
+    const reverted = await request(app)
+      .post(`/books/${dune.isbn}/history/${created.entryId}/revert`)
+      .set("If-Match", `"${repriced.version}"`)
+      .expect(200);
+    expect(reverted.body).toEqual({ ...dune, version: 3 });
+    await request(app)
+      .post(`/books/${dune.isbn}/history/missing/revert`)
+      .expect(404);
+  });
+
+  it("scopes books to the tenant of the request", async () => {
+    app = createApp({
+      repositories: {
+        books: new Repository<BookItem>(booksTable, client, { tenancy: {} }),
+      },
+      logger,
+    });
+    await request(app)
+      .put(`/books/${dune.isbn}`)
+      .set("X-Tenant-Id", "acme")
+      .send(dune)
+      .expect(200);
+
+    await request(app)
+      .get(`/books/${dune.isbn}`)
+      .set("X-Tenant-Id", "acme")
+      .expect(200);
+    await request(app)
+      .get(`/books/${dune.isbn}`)
+      .set("X-Tenant-Id", "globex")
+      .expect(404);
+    const listed = await request(app)
+      .get("/books")
+      .set("X-Tenant-Id", "globex")
+      .expect(200);
+    expect(listed.body.items).toEqual([]);
+
+    const refused = await request(app).get("/books").expect(400);
+    expect(refused.body.type).toBe("/problems/tenant-required");
+    await request(app)
+      .get("/books")
+      .set("X-Tenant-Id", "acme#globex")
+      .expect(400);
+  });
+
+  it("rejects patches to the key and malformed If-Match headers", async () => {
+    await request(app).put(`/books/${dune.isbn}`).send(dune);
+    await request(app)
+      .patch(`/books/${dune.isbn}`)
+      .send({ isbn: "other" })
+      .expect(400);
+    await request(app)
+      .patch(`/books/${dune.isbn}`)
+      .set("If-Match", "version-1")
+      .send({ price: 1 })
+      .expect(400);
+  });
+
+  it("writes books in batches", async () => {
+    const response = await request(app)
+      .post("/books:batch")
+      .send({ put: [dune, { ...dune, isbn: "2" }], delete: ["3"] })
+      .expect(207);
+    expect(response.body.results.map((result: any) => result.status)).toEqual([
+      "written",
+      "written",
+      "not_found",
+    ]);
+    expect(client.items("BooksTable")).toHaveLength(2);
+    await request(app).post("/books:batch").send({}).expect(400);
+  });
+
+  it("soft deletes the books a batch deletes", async () => {
+    await request(app).put(`/books/${dune.isbn}`).send(dune).expect(200);
+    await request(app)
+      .post("/books:batch")
+      .send({ delete: [dune.isbn] })
+      .expect(200);
+
+    await request(app).get(`/books/${dune.isbn}`).expect(404);
+    expect(client.items("BooksTable")).toEqual([
+      expect.objectContaining({
+        isbn: dune.isbn,
+        deletedAt: expect.any(String),
+      }),
+    ]);
+    await request(app).post(`/books/${dune.isbn}/restore`).expect(200);
+  });
+
+  it("records batch writes in the history", async () => {
+    await request(app).put(`/books/${dune.isbn}`).send(dune).expect(200);
+    await request(app)
+      .post("/books:batch")
+      .set("X-Actor", "importer")
+      .send({ put: [{ ...dune, price: 4.99 }] })
+      .expect(200);
+
+    const history = await request(app)
+      .get(`/books/${dune.isbn}/history`)
+      .expect(200);
+    expect(history.body.items).toEqual([
+      expect.objectContaining({ operation: "put" }),
+      expect.objectContaining({
+        operation: "batchWrite",
+        actor: "importer",
+        changes: { price: { old: 9.99, new: 4.99 } },
+      }),
+    ]);
+  });
+
+  it("moves a book and its reviews to a new ISBN", async () => {
+    await request(app).put(`/books/${dune.isbn}`).send(dune);
+    await request(app).post("/reviews").send(review).expect(201);
+
+    const response = await request(app)
+      .post(`/books/${dune.isbn}/replace-key`)
+      .send({ newBookId: "9780441172719", otherAttributes: { price: 11 } })
+      .expect(200);
+    expect(response.body.newItem).toMatchObject({
+      isbn: "9780441172719",
+      price: 11,
+      // Reviews follow the move, after which the migration marker is removed.
+      version: 3,
+    });
+    expect(response.body.relatedItems).toEqual([
+      { ...review, isbn: "9780441172719", version: 1 },
+    ]);
+    expect(client.items("BooksTable")).toEqual([
+      expect.objectContaining({ isbn: "9780441172719" }),
+    ]);
+    expect(client.items("OutboxTable")).toEqual([
+      expect.objectContaining({
+        type: "BookKeyReplaced",
+        payload: { oldIsbn: dune.isbn, newIsbn: "9780441172719" },
+      }),
+    ]);
+
+    await request(app)
+      .post(`/books/${dune.isbn}/replace-key`)
+      .send({ newBookId: "x" })
+      .expect(404);
+  });
+
+  describe("search", () => {
+    const books = [
+      { ...dune, isbn: "1", price: 9.99, title: "Dune" },
+      { ...dune, isbn: "2", price: 12.5, title: "Dune Messiah" },
+      { ...dune, isbn: "3", price: 7, title: "Emma", genre: "Romance" },
+      {
+        ...dune,
+        isbn: "4",
+        price: 8,
+        author: "Ursula K. Le Guin",
+        title: "The Dispossessed",
+        publicationDate: "1974-05-01",
+      },
+    ];
+
+    beforeEach(() =>
+      request(app).post("/books:batch").send({ put: books }).expect(200)
+    );
+
+    it("queries the author index for an author and date range", async () => {
+      const response = await request(app)
+        .get("/books/search")
+        .query({ author: "Frank Herbert", publishedFrom: "1960-01-01" })
+        .expect(200);
+      expect(response.body).toMatchObject({
+        indexName: "AuthorIndex",
+        operation: "query",
+        scannedCount: 3,
+        count: 3,
+        cursor: null,
+      });
+    });
+
+    it("queries the genre index sorted by price", async () => {
+      const response = await request(app)
+        .get("/books/search")
+        .query({ genre: "Science Fiction", maxPrice: 10, sort: "-price" })
+        .expect(200);
+      expect(response.body.indexName).toBe("GenreIndex");
+      expect(response.body.items.map((book: BookItem) => book.isbn)).toEqual([
+        "1",
+        "4",
+      ]);
+    });
+
+    it("falls back to a filtered scan", async () => {
+      const response = await request(app)
+        .get("/books/search")
+        .query({ genre: "Romance,Science Fiction", titlePrefix: "Dune" })
+        .expect(200);
+      expect(response.body).toMatchObject({
+        indexName: null,
+        operation: "scan",
+        scannedCount: 4,
+        count: 2,
+      });
+    });
+
+    it("rejects invalid filters", async () => {
+      await request(app)
+        .get("/books/search")
+        .query({ publishedFrom: "1965" })
+        .expect(400);
+      await request(app).get("/books/search?sort=isbn").expect(400);
+    });
+  });
+
+  describe("errors", () => {
+    it("answers validation failures with field-level issues", async () => {
+      const response = await request(app)
+        .put(`/books/${dune.isbn}`)
+        .send({ ...dune, price: "free" })
+        .expect(400)
+        .expect("Content-Type", /application\/problem\+json/);
+      expect(response.body).toEqual({
+        type: "/problems/validation-failed",
+        title: "Validation failed",
+        status: 400,
+        detail: "The request is invalid.",
+        instance: `/books/${dune.isbn}`,
+        issues: [
+          {
+            path: ["price"],
+            message: "Expected number, received string",
+            code: "invalid_type",
+          },
+        ],
+      });
+    });
+
+    it("answers malformed JSON with a validation problem", async () => {
+      const response = await request(app)
+        .post("/books")
+        .set("Content-Type", "application/json")
+        .send("{")
+        .expect(400);
+      expect(response.body.detail).toBe("The request body is not valid JSON.");
+    });
+
+    it("answers missing books with a not found problem", async () => {
+      const response = await request(app).get("/books/missing").expect(404);
+      expect(response.body).toMatchObject({
+        type: "/problems/not-found",
+        detail: "Book not found.",
+      });
+    });
+
+    it("asks clients to retry when DynamoDB keeps throttling", async () => {
+      jest.spyOn(client, "send").mockRejectedValue(
+        Object.assign(new Error("Rate exceeded"), {
+          name: "ProvisionedThroughputExceededException",
+        })
+      );
+      const response = await request(app).get("/books/1").expect(503);
+      expect(response.headers["retry-after"]).toBe("1");
+      expect(response.body.type).toBe("/problems/throttled");
+    });
+
+    it("does not leak unexpected errors", async () => {
+      jest
+        .spyOn(client, "send")
+        .mockRejectedValueOnce(new Error("socket hang up at 10.0.0.1"));
+      const response = await request(app).get("/books/1").expect(500);
+      expect(response.body).toEqual({
+        type: "/problems/internal-error",
+        title: "Internal server error",
+        status: 500,
+        detail: "The database operation failed.",
+        instance: "/books/1",
+      });
+      expect(logs).toContainEqual(
+        expect.objectContaining({
+          level: "error",
+          correlationId: response.headers["x-correlation-id"],
+          error: expect.objectContaining({ name: "DatabaseOperationError" }),
+        })
+      );
+    });
+  });
+
+  it("logs, measures and traces requests by correlation id", async () => {
+    const metrics = new MetricsRegistry();
+    const spans: { name: string; attributes: Record<string, unknown> }[] = [];
+    const tracer = {
+      startSpan(name: string, options: any) {
+        const span = { name, attributes: { ...options.attributes } };
+        spans.push(span);
+        return {
+          setAttribute: (key: string, value: unknown) =>
+            (span.attributes[key] = value),
+          setStatus: () => {},
+          recordException: () => {},
+          end: () => {},
+        };
+      },
+    };
+    app = createApp({
+      repositories: {
+        books: new Repository<BookItem>(booksTable, client, {
+          observability: { logger, metrics, tracer },
+        }),
+      },
+      logger,
+      metrics,
+    });
+
+    await request(app)
+      .put(`/books/${dune.isbn}`)
+      .set("X-Correlation-Id", "request-1")
+      .send(dune)
+      .expect(200);
+    await request(app).get("/books/missing").expect(404);
+
+    expect(logs).toContainEqual(
+      expect.objectContaining({
+        level: "info",
+        correlationId: "request-1",
+        method: "PUT",
+        route: "/books/:id",
+        status: 200,
+      })
+    );
+    expect(spans).toContainEqual({
+      name: "DynamoDB.PutItem",
+      attributes: expect.objectContaining({
+        "rpc.method": "PutItem",
+        "aws.dynamodb.table_names": ["BooksTable"],
+        "app.correlation_id": "request-1",
+      }),
+    });
+    const response = await request(app).get("/metrics").expect(200);
+    expect(response.headers["content-type"]).toMatch(/^text\/plain/);
+    expect(response.text).toContain(
+      'http_requests_total{method="GET",route="/books/:id",status="404"} 1'
+    );
+    expect(response.text).toContain(
+      'dynamodb_requests_total{table="BooksTable",operation="GetItem",outcome="success"} 1'
+    );
+  });
+});
+
+describe("reviews and authors API", () => {
+  let client: MemoryDocumentClient;
+  let app: ReturnType<typeof createApp>;
+
+  beforeEach(() => {
+    client = new MemoryDocumentClient([booksTable, reviewsTable, authorsTable]);
+    app = createApp({
+      repositories: {
+        books: new Repository<BookItem>(booksTable, client, {
+          versionAttribute: "version",
+        }),
+        reviews: new Repository<ReviewItem>(reviewsTable, client, {
+          versionAttribute: "version",
+        }),
+        authors: new Repository<AuthorItem>(authorsTable, client, {
+          versionAttribute: "version",
+        }),
+      },
+      logger: new JsonLogger({ write: () => undefined }),
+    });
+  });
+
+  const review = (reviewId: string, rating: number) => ({
+    reviewId,
+    isbn: dune.isbn,
+    reviewer: "Paul",
+    rating,
+    body: "Spice.",
+  });
+
+  it("reviews only books that exist and lists the reviews of a book", async () => {
+    const refused = await request(app)
+      .post("/reviews")
+      .send(review("r-1", 5))
+      .expect(400);
+    expect(refused.body.issues).toEqual([
+      { path: ["isbn"], message: "No such book." },
+    ]);
+
+    await request(app).put(`/books/${dune.isbn}`).send(dune).expect(200);
+    await request(app).post("/reviews").send(review("r-1", 3)).expect(201);
+    await request(app).post("/reviews").send(review("r-2", 5)).expect(201);
+    await request(app)
+      .post("/reviews")
+      .send({ ...review("r-3", 4), isbn: "other" })
+      .expect(400);
+    await request(app)
+      .put("/reviews/r-3")
+      .send({ ...review("r-3", 4), isbn: "other" })
+      .expect(400);
+    await request(app)
+      .patch("/reviews/r-1")
+      .send({ isbn: "other" })
+      .expect(400);
+    // The batch route could not run the check for every review.
+    const batch = await request(app)
+      .post("/reviews:batch")
+      .send({ put: [{ ...review("r-3", 4), isbn: "other" }] })
+      .expect(405);
+    expect(batch.body.type).toBe("/problems/method-not-allowed");
+    expect(client.items("ReviewsTable")).toHaveLength(2);
+
+    const response = await request(app)
+      .get("/reviews/search")
+      .query({ isbn: dune.isbn, sort: "-rating" })
+      .expect(200);
+    expect(response.body.items.map((item: any) => item.reviewId)).toEqual([
+      "r-2",
+      "r-1",
+    ]);
+    await request(app).get("/reviews/search").expect(400);
+  });
+
+  it("serves authors", async () => {
+    const herbert = { authorId: "a-1", name: "Frank Herbert" };
+    await request(app).post("/authors").send(herbert).expect(201);
+    const response = await request(app).get("/authors/a-1").expect(200);
+    expect(response.body).toEqual({ ...herbert, version: 1 });
+    await request(app)
+      .post("/authors:batch")
+      .send({ delete: ["a-1"] })
+      .expect(200);
+    await request(app).get("/authors/a-1").expect(404);
+  });
+});
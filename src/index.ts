@@ -1,409 +1,314 @@
+import { ValidationFailedError, SearchFilter } from "./types";
+import { Repository } from "./respo";
 import {
-  DynamoDBDocumentClient,
-  TransactWriteCommand,
-  ScanCommand,
-  QueryCommand,
-  GetCommand,
-  TransactWriteCommandInput,
-} from "@aws-sdk/lib-dynamodb";
-
-import { DynamoDBKey, ReplaceKeyConfig, DatabaseOperationError } from "./types"; // Placeholder for actual type imports.
-
-import express from "express";
+  BookSchema,
+  Book,
+  booksTable,
+  ReviewSchema,
+  Review,
+  AuthorSchema,
+  Author,
+} from "./schemas";
+import { asyncHandler, errorHandler } from "./http-errors";
+import {
+  createResourceRouter,
+  forRequest,
+  setETag,
+  PageQuerySchema,
+  RequestContext,
+} from "./resource-router";
+import { Config, DEFAULT_CONFIG } from "./config";
+import {
+  Logger,
+  MetricsRegistry,
+  METRICS_CONTENT_TYPE,
+  defaultLogger,
+} from "./observability";
+
+import express, { Request, Response } from "express";
+import { randomUUID } from "crypto";
 import { json } from "body-parser";
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { z } from "zod";
 
-export const BookSchema = z.object({
-  title: z.string(),
-  author: z.string(),
-  isbn: z.string(),
-  publicationDate: z
-    .string()
-    .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format, expected YYYY-MM-DD"),
-  genre: z.string(),
-  price: z.number().positive(),
-});
-
-export type Book = z.infer<typeof BookSchema>;
-
-// Example usage
-const myBook = BookSchema.parse({
-  title: "The Great Gatsby",
-  author: "F. Scott Fitzgerald",
-  isbn: "9780743273565",
-  publicationDate: "1925-04-10",
-  genre: "Tragedy",
-  price: 10.99,
+export { BookSchema, booksTable };
+export type { Book };
+
+export type BookItem = Book & { version?: number };
+export type ReviewItem = Review & { version?: number };
+export type AuthorItem = Author & { version?: number };
+
+const SearchBooksQuerySchema = z.object({
+  author: z.string().min(1).optional(),
+  // Either repeated (?genre=a&genre=b) or comma-separated (?genre=a,b).
+  genre: z
+    .union([z.string(), z.array(z.string())])
+    .transform((genre) =>
+      (Array.isArray(genre) ? genre : genre.split(","))
+        .map((name) => name.trim())
+        .filter((name) => name.length > 0)
+    )
+    .pipe(z.array(z.string()).max(100))
+    .optional(),
+  minPrice: z.coerce.number().nonnegative().optional(),
+  maxPrice: z.coerce.number().nonnegative().optional(),
+  publishedFrom: BookSchema.shape.publicationDate.optional(),
+  publishedTo: BookSchema.shape.publicationDate.optional(),
+  titlePrefix: z.string().min(1).optional(),
+  // A leading minus sorts in descending order.
+  sort: z
+    .enum([
+      "title",
+      "-title",
+      "price",
+      "-price",
+      "publicationDate",
+      "-publicationDate",
+    ])
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  cursor: z.string().optional(),
 });
 
-export class AttributeRegistry {
-  attributeI = 0;
-  valueI = 0;
-
-  namesMap: Map<string, string> = new Map();
-  valuesMap: Map<any, string> = new Map();
-
-  key(key: string) {
-    if (!this.namesMap.has(key)) {
-      const name = `#attr${this.attributeI}`;
-      this.namesMap.set(key, name);
-      this.attributeI += 1;
+// Turns the search query into filters; ranges open on one side use gte or lte.
+function searchFilters(
+  query: z.infer<typeof SearchBooksQuerySchema>
+): SearchFilter[] {
+  const filters: SearchFilter[] = [];
+  const range = (name: string, low?: unknown, high?: unknown) => {
+    if (low !== undefined && high !== undefined) {
+      filters.push({ attribute: name, op: "between", low, high });
+    } else if (low !== undefined) {
+      filters.push({ attribute: name, op: "gte", value: low });
+    } else if (high !== undefined) {
+      filters.push({ attribute: name, op: "lte", value: high });
     }
+  };
 
-    return this.namesMap.get(key);
+  if (query.author) {
+    filters.push({ attribute: "author", op: "eq", value: query.author });
   }
-
-  value(value: any) {
-    if (!this.valuesMap.has(value)) {
-      const name = `:value${this.valueI}`;
-      this.valuesMap.set(value, name);
-      this.valueI += 1;
-    }
-    return this.valuesMap.get(value);
+  if (query.genre?.length === 1) {
+    filters.push({ attribute: "genre", op: "eq", value: query.genre[0] });
+  } else if (query.genre && query.genre.length > 1) {
+    filters.push({ attribute: "genre", op: "in", values: query.genre });
   }
-
-  private mapToObject(thing: Map<any, string>) {
-    const entries = thing.entries();
-    const arr = Array.from(entries);
-    const obj = Object.fromEntries(arr.map(([key, value]) => [value, key]));
-    return obj;
-  }
-
-  get() {
-    return {
-      ExpressionAttributeNames: this.mapToObject(this.namesMap),
-      ExpressionAttributeValues: this.mapToObject(this.valuesMap),
-    };
+  range("price", query.minPrice, query.maxPrice);
+  range("publicationDate", query.publishedFrom, query.publishedTo);
+  if (query.titlePrefix) {
+    filters.push({
+      attribute: "title",
+      op: "beginsWith",
+      prefix: query.titlePrefix,
+    });
   }
+  return filters;
 }
 
-export function getDDBUpdateExpression<T>(item: T) {
-  const registry = new AttributeRegistry();
-
-  const UpdateExpression = `set ${Object.entries(item as any)
-    .map(([key, value]) => {
-      return `${registry.key(key)} = ${registry.value(value)}`;
-    })
-    .join(", ")}`;
+// Lists the reviews of a book, e.g. ?isbn=x&sort=-rating.
+const SearchReviewsQuerySchema = PageQuerySchema.extend({
+  isbn: z.string().min(1),
+  sort: z.enum(["rating", "-rating"]).optional(),
+});
 
-  return {
-    ...registry.get(),
-    UpdateExpression,
-  };
+function reviewFilters(
+  query: z.infer<typeof SearchReviewsQuerySchema>
+): SearchFilter[] {
+  return [{ attribute: "isbn", op: "eq", value: query.isbn }];
 }
 
-class Repository<T extends Record<string, any>> {
-  private tableName: string;
-  private db: DynamoDBDocumentClient;
-
-  constructor(tableName: string, dbClient: DynamoDBDocumentClient) {
-    this.tableName = tableName;
-    this.db = dbClient;
-  }
-
-  /**
-   * Generic method to perform transactional mutations on DynamoDB.
-   * @param operations Array of operations (Put, Update, Delete) to be performed in the transaction.
-   * @returns Promise<void>
-   */
-  async mutate(
-    operations: TransactWriteCommandInput["TransactItems"]
-  ): Promise<void> {
-    try {
-      // Ensure there are operations to perform
-      if (operations?.length === 0) {
-        throw new Error("No operations provided for transaction.");
-      }
-
-      const commandInput: TransactWriteCommandInput = {
-        TransactItems: operations?.map((op) => ({
-          ...op,
-          // Specify the table name for each operation if not already specified
-          // This assumes operations provided don't already specify TableName
-          Put: op.Put ? { ...op.Put, TableName: this.tableName } : undefined,
-          Update: op.Update
-            ? { ...op.Update, TableName: this.tableName }
-            : undefined,
-          Delete: op.Delete
-            ? { ...op.Delete, TableName: this.tableName }
-            : undefined,
-        })),
-      };
-
-      await this.db.send(new TransactWriteCommand(commandInput));
-    } catch (error) {
-      this.handleDynamoDBError(error, "mutate", {});
-      throw error; // Rethrow after logging/handling
-    }
-  }
-
-  // In your Repository class
-
-  async getBookWithRelatedItems(
-    partitionKey: string
-  ): Promise<{ book: T | null; relatedItems: T[] }> {
-    try {
-      // Fetch the book item
-      const book = await this.db.send(
-        new GetCommand({
-          TableName: this.tableName,
-          Key: { partitionKey },
-        })
-      );
-
-      // Fetch related items, assuming 'relatedPartitionKey' is the GSI for related items
-      const relatedItemsResult = await this.db.send(
-        new QueryCommand({
-          TableName: this.tableName,
-          IndexName: "RelatedItemsIndex", // The name of the GSI
-          KeyConditionExpression: "relatedPartitionKey = :partitionKey",
-          ExpressionAttributeValues: {
-            ":partitionKey": partitionKey,
-          },
-        })
-      );
-
-      return {
-        // @ts-ignore
-        book: book.Item || null,
-        relatedItems: relatedItemsResult.Items as T[],
-      };
-    } catch (error) {
-      console.error("Failed to fetch book and related items:", error);
-      throw new DatabaseOperationError(
-        `Error fetching book and related items`,
-        // @ts-ignore
-        error
-      );
-    }
-  }
-
-  // Function to replace an item's primary key and optionally query for related items.
-  async replacePrimaryKey(
-    oldPrimaryKey: DynamoDBKey,
-    newPrimaryKey: DynamoDBKey,
-    otherAttributes: Omit<T, "partitionKey" | "sortKey">,
-    config: ReplaceKeyConfig
-  ): Promise<{ newItem: T; relatedItems?: T[] | null }> {
-    const transactItems = await this.prepareCascadeUpdateParams(
-      oldPrimaryKey,
-      newPrimaryKey,
-      config
-    );
+const ReplaceKeySchema = z.object({
+  newBookId: z.string().min(1, "New book ID is required."),
+  otherAttributes: BookSchema.omit({ isbn: true }).partial().optional(),
+});
 
-    // Begin a transaction to atomically replace the primary key and optionally update related items.
-    try {
-      await this.db.send(
-        new TransactWriteCommand({ TransactItems: transactItems })
-      );
-    } catch (error) {
-      this.handleDynamoDBError(error, "replacePrimaryKey", {
-        oldPrimaryKey,
-        newPrimaryKey,
+// The repositories the API serves; reviews and authors only when given.
+export type Repositories = {
+  books: Repository<BookItem>;
+  reviews?: Repository<ReviewItem>;
+  authors?: Repository<AuthorItem>;
+};
+
+export type AppOptions = {
+  repositories: Repositories;
+  config?: Config; // DEFAULT_CONFIG unless given
+  // Where the tenant of a request comes from, the X-Tenant-Id header by
+  // default; an authenticating deployment reads its auth context instead.
+  tenantOf?: (req: Request) => string | undefined;
+  logger?: Logger; // Logs every request, defaultLogger unless given
+  metrics?: MetricsRegistry; // Records request metrics and serves them at /metrics
+  ready?: () => boolean | Promise<boolean>; // Answers /ready, always ready unless given
+};
+
+/**
+ * Builds the HTTP API on top of the repositories without listening, so
+ * tests can serve it from an in-memory client; see src/server.ts for the
+ * server.
+ */
+export function createApp({
+  repositories,
+  config = DEFAULT_CONFIG,
+  tenantOf = (req) => req.get("X-Tenant-Id"),
+  logger = defaultLogger,
+  metrics,
+  ready = () => true,
+}: AppOptions) {
+  const app = express();
+  const requests = metrics?.counter(
+    "http_requests_total",
+    "HTTP requests by method, route and status."
+  );
+  const duration = metrics?.histogram(
+    "http_request_duration_seconds",
+    "Latency of HTTP requests by method and route."
+  );
+
+  // Probes come first, so they are neither logged nor measured.
+  app.get("/health", (req, res) => {
+    res.status(200).json({ status: "ok" });
+  });
+  app.get(
+    "/ready",
+    asyncHandler(async (req, res) => {
+      const isReady = await ready();
+      res
+        .status(isReady ? 200 : 503)
+        .json({ status: isReady ? "ready" : "unavailable" });
+    })
+  );
+
+  app.use(json({ limit: config.server.bodyLimit }));
+
+  // Scopes each request to its tenant, if any; a repository scoped to
+  // tenants refuses requests without one. Tags the writes with who made them
+  // and a correlation id, which clients may pass in to trace a request
+  // across services. Each request is logged and measured once answered,
+  // labelled by the route it matched, so the metrics stay few.
+  app.use((req, res, next) => {
+    const correlationId = req.get("X-Correlation-Id") ?? randomUUID();
+    res.set("X-Correlation-Id", correlationId);
+    const tenantId = tenantOf(req);
+    res.locals.logger = logger.child({ correlationId, tenantId });
+    const startedAt = performance.now();
+    res.on("finish", () => {
+      const seconds = (performance.now() - startedAt) / 1000;
+      const route = req.route ? `${req.baseUrl}${req.route.path}` : "unmatched";
+      requests?.inc({
+        method: req.method,
+        route,
+        status: String(res.statusCode),
       });
-    }
-
-    // Optionally query for related items if specified in the configuration.
-    let relatedItems: T[] | null = null;
-    if (config.queryRelatedItems) {
-      relatedItems = await this.queryRelatedItems(
-        oldPrimaryKey.partitionKey,
-        true,
-        config.tableName
-      );
-    }
-
-    // Return the new item and any found related items.
-    // const newItem = { ...otherAttributes, ...newPrimaryKey };
-
-    const newItem: T = { ...otherAttributes, ...newPrimaryKey } as unknown as T;
+      duration?.observe({ method: req.method, route }, seconds);
+      res.locals.logger.info("Request handled.", {
+        method: req.method,
+        route,
+        status: res.statusCode,
+        durationMs: Math.round(seconds * 1000),
+      });
+    });
+    const context: RequestContext = {
+      tenantId,
+      actor: req.get("X-Actor") ?? "anonymous",
+      correlationId,
+    };
+    res.locals.context = context;
+    next();
+  });
 
-    return { newItem, relatedItems };
+  if (metrics) {
+    app.get("/metrics", (req, res) => {
+      res.status(200).type(METRICS_CONTENT_TYPE).send(metrics.render());
+    });
   }
 
-  private async prepareCascadeUpdateParams(
-    oldPrimaryKey: DynamoDBKey,
-    newPrimaryKey: DynamoDBKey,
-    config: ReplaceKeyConfig
-  ): Promise<any[]> {
-    console.log("Preparing transaction items...");
-    // Logic to add transaction items based on oldPrimaryKey and newPrimaryKey
-    const transactionItems: any = []; // Example initialization, populate this based on your logic
-
-    // Example logging to inspect the constructed transaction items
-    console.log("Transaction Items:", transactionItems);
-    // Assume related items are identified by a 'parentId' attribute that matches the 'partitionKey' of the main item.
-    const relatedItems = await this.queryRelatedItems(
-      oldPrimaryKey.partitionKey,
-      false
-    ); // Using 'false' to indicate a full table scan.
-
-    // Use getDDBUpdateExpression to prepare update expressions for each related item.
-    return relatedItems.map((item) => {
-      // Prepare the new values for the related item's 'parentId' attribute to link to the new primary key.
-      const updateItem = {
-        parentId: newPrimaryKey.partitionKey, // Adjust 'parentId' to your actual attribute name if different.
-      };
-
-      // Generate the update expression using getDDBUpdateExpression.
-      const {
-        UpdateExpression,
-        ExpressionAttributeNames,
-        ExpressionAttributeValues,
-      } = getDDBUpdateExpression(updateItem);
-
-      return {
-        Update: {
-          TableName: config.tableName, // Or the related items' table name if they reside in a different table.
-          Key: {
-            partitionKey: item.partitionKey,
-            sortKey: item.sortKey ?? undefined,
-          }, // Ensure to handle cases where sortKey might not exist.
-          UpdateExpression,
-          ExpressionAttributeNames,
-          ExpressionAttributeValues,
+  app.use(
+    createResourceRouter({
+      path: "/books",
+      name: "Book",
+      schema: BookSchema,
+      repository: repositories.books,
+      keyFrom: (isbn) => ({ isbn }),
+      search: { query: SearchBooksQuerySchema, filters: searchFilters },
+      softDelete: true,
+      history: true,
+      events: true,
+    })
+  );
+
+  if (repositories.reviews) {
+    const reviews = repositories.reviews;
+    // Reviews may only be written for books that exist.
+    const assertBookExists = async (isbn: string, res: Response) => {
+      const book = await forRequest(repositories.books, res).getItem({ isbn });
+      if (!book) {
+        throw new ValidationFailedError("Reviewed book not found.", {
+          issues: [{ path: ["isbn"], message: "No such book." }],
+        });
+      }
+    };
+    app.use(
+      createResourceRouter({
+        path: "/reviews",
+        name: "Review",
+        schema: ReviewSchema,
+        repository: reviews,
+        keyFrom: (reviewId) => ({ reviewId }),
+        search: { query: SearchReviewsQuerySchema, filters: reviewFilters },
+        hooks: {
+          beforeCreate: async (review, { res }) => {
+            await assertBookExists(review.isbn, res);
+            return review;
+          },
+          beforeUpdate: async (changes, { res }) => {
+            if (changes.isbn !== undefined) {
+              await assertBookExists(changes.isbn, res);
+            }
+            return changes;
+          },
         },
-      };
-    });
+      })
+    );
   }
 
-  // Function to query related items based on the partition key, supporting both GSI queries and full table scans.
-  async queryRelatedItems(
-    partitionKey: string,
-    useGSI: boolean = true,
-    gsiName?: string
-  ): Promise<T[]> {
-    if (useGSI && gsiName) {
-      return this.queryGSI(partitionKey, gsiName);
-    } else {
-      return this.scanTable(partitionKey);
-    }
+  if (repositories.authors) {
+    app.use(
+      createResourceRouter({
+        path: "/authors",
+        name: "Author",
+        schema: AuthorSchema,
+        repository: repositories.authors,
+        keyFrom: (authorId) => ({ authorId }),
+      })
+    );
   }
-
-  private async queryGSI(partitionKey: string, gsiName: string): Promise<T[]> {
-    try {
-      const params = {
-        TableName: this.tableName,
-        IndexName: gsiName,
-        KeyConditionExpression: "#pk = :pkValue",
-        ExpressionAttributeNames: {
-          "#pk": "partitionKeyAttribute", // Replace 'partitionKeyAttribute' with the actual partition key attribute used in the GSI
-        },
-        ExpressionAttributeValues: {
-          ":pkValue": partitionKey,
-        },
-      };
-
-      const result = await this.db.send(new QueryCommand(params));
-      return result.Items as T[];
-    } catch (error) {
-      console.error(
-        `Error querying GSI (${gsiName}) with partition key (${partitionKey}):`,
-        error
+  // Endpoint to update a book's primary key
+  app.post(
+    "/books/:oldBookId/replace-key",
+    asyncHandler(async (req, res) => {
+      const { oldBookId } = req.params;
+      const body = ReplaceKeySchema.parse(req.body);
+      const { newItem, relatedItems } = await forRequest(
+        repositories.books,
+        res
+      ).replacePrimaryKey(
+        { isbn: oldBookId },
+        { isbn: body.newBookId },
+        body.otherAttributes,
+        {
+          queryRelatedItems: true,
+          events: [
+            {
+              type: "BookKeyReplaced",
+              payload: { oldIsbn: oldBookId, newIsbn: body.newBookId },
+            },
+          ],
+        }
       );
-      throw error;
-    }
-  }
-
-  private async scanTable(partitionKey: string): Promise<T[]> {
-    try {
-      const params = {
-        TableName: this.tableName,
-        FilterExpression: "#pk = :pkValue",
-        ExpressionAttributeNames: {
-          "#pk": "partitionKey", // Adjust this to the actual partition key attribute name in your table
-        },
-        ExpressionAttributeValues: {
-          ":pkValue": partitionKey,
-        },
-      };
+      setETag(res, newItem, "version");
+      res.status(200).json({ newItem, relatedItems });
+    })
+  );
 
-      const result = await this.db.send(new ScanCommand(params));
-      return result.Items as T[];
-    } catch (error) {
-      console.error(
-        "Error scanning table for partition key:",
-        partitionKey,
-        error
-      );
-      throw error;
-    }
-  }
+  app.use(errorHandler);
 
-  // Adjusted handleDynamoDBError to include optional action and metadata parameters
-  private handleDynamoDBError(
-    error: any,
-    action: string = "unknown action",
-    metadata: Record<string, any> = {}
-  ): void {
-    console.error(`Error during ${action}:`, error, metadata);
-    throw new DatabaseOperationError(`Error during ${action}`, error);
-  }
+  return app;
 }
-
-// Initialize DynamoDB Client
-const dbClient = new DynamoDBClient({
-  endpoint: "http://localhost:8000",
-  region: "localhost",
-  credentials: {
-    accessKeyId: "fakeMyKeyId",
-    secretAccessKey: "fakeSecretAccessKey",
-  },
-});
-
-const docClient = DynamoDBDocumentClient.from(dbClient);
-const bookRepository = new Repository<Book>("BooksTable", docClient);
-
-const app = express();
-const port = 3000;
-
-app.use(json());
-
-app.post("/books", async (req, res) => {
-  try {
-    const book = BookSchema.parse(req.body);
-
-    // Prepare the Put operation for DynamoDB
-    const putOperation = {
-      Put: {
-        TableName: "BooksTable", // Ensure this is accessible
-        Item: book,
-      },
-    };
-
-    // Execute the transaction with the mutate method
-    await bookRepository.mutate([putOperation]);
-
-    res.status(201).json(book);
-  } catch (error) {
-    // @ts-ignore
-    res.status(400).json({ error: error.message });
-  }
-});
-
-// Endpoint to update a book's primary key
-app.patch("/books/:oldBookId", async (req, res) => {
-  const { oldBookId } = req.params;
-  const { newBookId } = req.body;
-  if (!newBookId) {
-    return res.status(400).json({ error: "New book ID is required." });
-  }
-  try {
-    // Assuming your repository's replacePrimaryKey method is correctly implemented
-    const result = await bookRepository.replacePrimaryKey(
-      { partitionKey: oldBookId },
-      { partitionKey: newBookId },
-      req.body.otherAttributes,
-      { queryRelatedItems: true, tableName: "BookReviewsTable" } // Example config
-    );
-    res.status(200).json(result);
-  } catch (error) {
-    // @ts-ignore
-    res.status(500).json({ error: error.message });
-  }
-});
-
-app.listen(port, () => {
-  console.log(`Server running at http://localhost:${port}`);
-});
@@ -0,0 +1,463 @@
+import {
+  GetCommand,
+  PutCommand,
+  UpdateCommand,
+  DeleteCommand,
+  QueryCommand,
+  ScanCommand,
+  TransactWriteCommand,
+  BatchGetCommand,
+  BatchWriteCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import { MemoryDocumentClient } from "./memory-client";
+import { attribute, size, or, not, buildExpressions } from "./util-condition";
+import { update, getDDBUpdateExpression } from "./util-expression";
+import { AttributeRegistry } from "./util-registry";
+import { TableDescriptor } from "./types";
+
+const table: TableDescriptor = {
+  tableName: "Things",
+  partitionKey: { name: "pk", type: "S" },
+  sortKey: { name: "sk", type: "N" },
+  indexes: [
+    {
+      name: "ByOwner",
+      kind: "global",
+      partitionKey: { name: "owner", type: "S" },
+      sortKey: { name: "createdAt", type: "S" },
+      projection: { type: "KEYS_ONLY" },
+    },
+  ],
+};
+
+describe("MemoryDocumentClient", () => {
+  let client: MemoryDocumentClient;
+
+  beforeEach(() => {
+    client = new MemoryDocumentClient([table]);
+  });
+
+  function put(item: Record<string, any>) {
+    return client.send(new PutCommand({ TableName: "Things", Item: item }));
+  }
+
+  async function get(pk: string, sk: number) {
+    const { Item } = await client.send(
+      new GetCommand({ TableName: "Things", Key: { pk, sk } })
+    );
+    return Item;
+  }
+
+  describe("conditions", () => {
+    beforeEach(() =>
+      put({
+        pk: "a",
+        sk: 1,
+        title: "Dune",
+        tags: new Set(["scifi", "classic"]),
+        metadata: { pages: 412, editions: ["first", "second"] },
+      })
+    );
+
+    it.each([
+      ["eq", attribute("title").eq("Dune"), true],
+      ["ne", attribute("title").ne("Dune"), false],
+      ["between", attribute("metadata.pages").between(400, 500), true],
+      ["in", attribute("title").in(["Emma", "Dune"]), true],
+      [
+        "exists on a list element",
+        attribute("metadata.editions[1]").exists(),
+        true,
+      ],
+      ["notExists", attribute("subtitle").notExists(), true],
+      ["type", attribute("tags").type("SS"), true],
+      ["beginsWith", attribute("title").beginsWith("Du"), true],
+      ["contains on a set", attribute("tags").contains("classic"), true],
+      ["contains on a string", attribute("title").contains("un"), true],
+      ["size", size("metadata.editions").gt(2), false],
+      ["or", or(attribute("title").eq("Emma"), attribute("sk").eq(1)), true],
+      ["not", not(attribute("title").eq("Dune")), false],
+      ["comparison across types", attribute("title").lt(5), false],
+    ])("evaluates %s", async (_, condition, expected) => {
+      const write = client.send(
+        new UpdateCommand({
+          TableName: "Things",
+          Key: { pk: "a", sk: 1 },
+          UpdateExpression: "SET checked = :checked",
+          ...mergeValues(buildExpressions({ condition }), { ":checked": true }),
+        })
+      );
+      if (expected) {
+        await expect(write).resolves.toBeDefined();
+      } else {
+        await expect(write).rejects.toMatchObject({
+          name: "ConditionalCheckFailedException",
+        });
+      }
+    });
+
+    it("returns the marshalled old item when asked to", async () => {
+      const error = await client
+        .send(
+          new PutCommand({
+            TableName: "Things",
+            Item: { pk: "a", sk: 1 },
+            ConditionExpression: "attribute_not_exists(pk)",
+            ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+          })
+        )
+        .catch((error) => error);
+      expect(unmarshall(error.Item)).toMatchObject({ title: "Dune" });
+    });
+  });
+
+  describe("updates", () => {
+    beforeEach(() =>
+      put({ pk: "a", sk: 1, count: 1, list: [1], tags: new Set(["x", "y"]) })
+    );
+
+    it("applies the clauses rendered by the update builder", async () => {
+      const registry = new AttributeRegistry();
+      const expression = update()
+        .set("title", "Dune")
+        .setIfNotExists("createdAt", "2024")
+        .appendToList("list", [2])
+        .prependToList("history", ["created"])
+        .add("count", 2)
+        .delete("tags", new Set(["x"]))
+        .render(registry);
+      await client.send(
+        new UpdateCommand({
+          TableName: "Things",
+          Key: { pk: "a", sk: 1 },
+          UpdateExpression: expression,
+          ...registry.get(),
+        })
+      );
+      expect(await get("a", 1)).toEqual({
+        pk: "a",
+        sk: 1,
+        title: "Dune",
+        createdAt: "2024",
+        count: 3,
+        list: [1, 2],
+        history: ["created"],
+        tags: new Set(["y"]),
+      });
+    });
+
+    it("evaluates every clause against the item before the update", async () => {
+      await client.send(
+        new UpdateCommand({
+          TableName: "Things",
+          Key: { pk: "a", sk: 1 },
+          UpdateExpression: "SET previous = #count, #count = #count + :one",
+          ExpressionAttributeNames: { "#count": "count" },
+          ExpressionAttributeValues: { ":one": 1 },
+        })
+      );
+      expect(await get("a", 1)).toMatchObject({ previous: 1, count: 2 });
+    });
+
+    it("accepts getDDBUpdateExpression output and returns the new item", async () => {
+      const { Attributes } = await client.send(
+        new UpdateCommand({
+          TableName: "Things",
+          Key: { pk: "a", sk: 1 },
+          ...getDDBUpdateExpression({ title: "Emma", count: 5 }),
+          ReturnValues: "ALL_NEW",
+        })
+      );
+      expect(Attributes).toMatchObject({ title: "Emma", count: 5, list: [1] });
+    });
+
+    it("creates the item when no item has the key", async () => {
+      await client.send(
+        new UpdateCommand({
+          TableName: "Things",
+          Key: { pk: "b", sk: 2 },
+          UpdateExpression: "SET title = :title",
+          ExpressionAttributeValues: { ":title": "New" },
+        })
+      );
+      expect(await get("b", 2)).toEqual({ pk: "b", sk: 2, title: "New" });
+    });
+
+    it.each([
+      ["a key attribute", "SET pk = :v", { ":v": "b" }, undefined],
+      ["overlapping paths", "SET a = :v REMOVE a", { ":v": 1 }, undefined],
+      ["an unused value", "REMOVE a", { ":v": 1 }, undefined],
+      ["an undefined name", "REMOVE #missing", undefined, undefined],
+      ["an unescaped reserved word", "REMOVE name", undefined, undefined],
+      ["an empty name map", "REMOVE a", undefined, {}],
+    ])("rejects updating %s", async (_, expression, values, names) => {
+      await expect(
+        client.send(
+          new UpdateCommand({
+            TableName: "Things",
+            Key: { pk: "a", sk: 1 },
+            UpdateExpression: expression,
+            ExpressionAttributeValues: values,
+            ExpressionAttributeNames: names,
+          })
+        )
+      ).rejects.toMatchObject({ name: "ValidationException" });
+    });
+  });
+
+  it("rejects keys that do not match the key schema", async () => {
+    await expect(
+      client.send(new GetCommand({ TableName: "Things", Key: { pk: "a" } }))
+    ).rejects.toMatchObject({ name: "ValidationException" });
+    await expect(put({ pk: "a", sk: "1" })).rejects.toMatchObject({
+      name: "ValidationException",
+    });
+    await expect(
+      client.send(new GetCommand({ TableName: "Other", Key: { pk: "a" } }))
+    ).rejects.toMatchObject({ name: "ResourceNotFoundException" });
+  });
+
+  it("deletes items and returns the old item", async () => {
+    await put({ pk: "a", sk: 1, title: "Dune" });
+    const { Attributes } = await client.send(
+      new DeleteCommand({
+        TableName: "Things",
+        Key: { pk: "a", sk: 1 },
+        ReturnValues: "ALL_OLD",
+      })
+    );
+    expect(Attributes).toEqual({ pk: "a", sk: 1, title: "Dune" });
+    expect(client.items("Things")).toEqual([]);
+  });
+
+  describe("reads", () => {
+    beforeEach(async () => {
+      for (const sk of [3, 1, 2]) {
+        await put({ pk: "a", sk, owner: "ann", createdAt: `2024-0${sk}` });
+      }
+      await put({ pk: "b", sk: 1, owner: "bob", createdAt: "2024-01" });
+      await put({ pk: "c", sk: 1 });
+    });
+
+    it("queries a partition in sort key order", async () => {
+      const { Items } = await client.send(
+        new QueryCommand({
+          TableName: "Things",
+          KeyConditionExpression: "pk = :pk AND sk >= :from",
+          ExpressionAttributeValues: { ":pk": "a", ":from": 2 },
+          ScanIndexForward: false,
+        })
+      );
+      expect(Items?.map((item: any) => item.sk)).toEqual([3, 2]);
+    });
+
+    it("pages through a query with Limit and ExclusiveStartKey", async () => {
+      const input = {
+        TableName: "Things",
+        KeyConditionExpression: "pk = :pk",
+        ExpressionAttributeValues: { ":pk": "a" },
+        Limit: 2,
+      };
+      const first = await client.send(new QueryCommand(input));
+      expect(first.Items?.map((item: any) => item.sk)).toEqual([1, 2]);
+      expect(first.LastEvaluatedKey).toEqual({ pk: "a", sk: 2 });
+
+      const second = await client.send(
+        new QueryCommand({
+          ...input,
+          ExclusiveStartKey: first.LastEvaluatedKey,
+        })
+      );
+      expect(second.Items?.map((item: any) => item.sk)).toEqual([3]);
+      expect(second.LastEvaluatedKey).toBeUndefined();
+    });
+
+    it("applies filters after Limit", async () => {
+      const { Items, Count, ScannedCount } = await client.send(
+        new ScanCommand({
+          TableName: "Things",
+          FilterExpression: "sk = :one",
+          ExpressionAttributeValues: { ":one": 1 },
+          Limit: 3,
+        })
+      );
+      expect(Items?.map((item: any) => item.pk)).toEqual(["a"]);
+      expect({ Count, ScannedCount }).toEqual({ Count: 1, ScannedCount: 3 });
+    });
+
+    it("queries a sparse index and projects its keys only", async () => {
+      const { Items, LastEvaluatedKey } = await client.send(
+        new QueryCommand({
+          TableName: "Things",
+          IndexName: "ByOwner",
+          KeyConditionExpression: "#owner = :owner",
+          ExpressionAttributeNames: { "#owner": "owner" },
+          ExpressionAttributeValues: { ":owner": "ann" },
+          Limit: 1,
+        })
+      );
+      expect(Items).toEqual([
+        { pk: "a", sk: 1, owner: "ann", createdAt: "2024-01" },
+      ]);
+      expect(LastEvaluatedKey).toEqual({
+        pk: "a",
+        sk: 1,
+        owner: "ann",
+        createdAt: "2024-01",
+      });
+
+      const { Items: all } = await client.send(
+        new ScanCommand({ TableName: "Things", IndexName: "ByOwner" })
+      );
+      expect(all).toHaveLength(4);
+    });
+
+    it("returns only projected attributes", async () => {
+      const { Item } = await client.send(
+        new GetCommand({
+          TableName: "Things",
+          Key: { pk: "a", sk: 1 },
+          ProjectionExpression: "#owner, sk",
+          ExpressionAttributeNames: { "#owner": "owner" },
+        })
+      );
+      expect(Item).toEqual({ owner: "ann", sk: 1 });
+    });
+  });
+
+  describe("transactions", () => {
+    beforeEach(() => put({ pk: "a", sk: 1, count: 1 }));
+
+    it("applies every write or none of them", async () => {
+      const error = await client
+        .send(
+          new TransactWriteCommand({
+            TransactItems: [
+              { Put: { TableName: "Things", Item: { pk: "b", sk: 1 } } },
+              {
+                Delete: {
+                  TableName: "Things",
+                  Key: { pk: "a", sk: 1 },
+                  ConditionExpression: "#count = :two",
+                  ExpressionAttributeNames: { "#count": "count" },
+                  ExpressionAttributeValues: { ":two": 2 },
+                  ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+                },
+              },
+            ],
+          })
+        )
+        .catch((error) => error);
+
+      expect(error.name).toBe("TransactionCanceledException");
+      expect(
+        error.CancellationReasons.map((reason: any) => reason.Code)
+      ).toEqual(["None", "ConditionalCheckFailed"]);
+      expect(unmarshall(error.CancellationReasons[1].Item)).toEqual({
+        pk: "a",
+        sk: 1,
+        count: 1,
+      });
+      expect(client.items("Things")).toEqual([{ pk: "a", sk: 1, count: 1 }]);
+    });
+
+    it("rejects two operations on one item", async () => {
+      await expect(
+        client.send(
+          new TransactWriteCommand({
+            TransactItems: [
+              { Put: { TableName: "Things", Item: { pk: "a", sk: 1 } } },
+              { Delete: { TableName: "Things", Key: { pk: "a", sk: 1 } } },
+            ],
+          })
+        )
+      ).rejects.toMatchObject({ name: "ValidationException" });
+    });
+
+    it("applies a client request token only once", async () => {
+      const command = new TransactWriteCommand({
+        ClientRequestToken: "token",
+        TransactItems: [
+          {
+            Update: {
+              TableName: "Things",
+              Key: { pk: "a", sk: 1 },
+              UpdateExpression: "ADD #count :one",
+              ExpressionAttributeNames: { "#count": "count" },
+              ExpressionAttributeValues: { ":one": 1 },
+            },
+          },
+        ],
+      });
+      await client.send(command);
+      await client.send(command);
+      expect(await get("a", 1)).toMatchObject({ count: 2 });
+    });
+  });
+
+  describe("batches", () => {
+    it("writes and reads items, leaving some unprocessed on request", async () => {
+      client.leaveUnprocessed(1);
+      const { UnprocessedItems } = await client.send(
+        new BatchWriteCommand({
+          RequestItems: {
+            Things: [
+              { PutRequest: { Item: { pk: "a", sk: 1 } } },
+              { PutRequest: { Item: { pk: "b", sk: 1 } } },
+            ],
+          },
+        })
+      );
+      expect(UnprocessedItems).toEqual({
+        Things: [{ PutRequest: { Item: { pk: "b", sk: 1 } } }],
+      });
+
+      const { Responses, UnprocessedKeys } = await client.send(
+        new BatchGetCommand({
+          RequestItems: {
+            Things: {
+              Keys: [
+                { pk: "a", sk: 1 },
+                { pk: "b", sk: 1 },
+              ],
+            },
+          },
+        })
+      );
+      expect(Responses).toEqual({ Things: [{ pk: "a", sk: 1 }] });
+      expect(UnprocessedKeys).toEqual({});
+    });
+
+    it("rejects duplicate keys", async () => {
+      await expect(
+        client.send(
+          new BatchGetCommand({
+            RequestItems: {
+              Things: {
+                Keys: [
+                  { pk: "a", sk: 1 },
+                  { pk: "a", sk: 1 },
+                ],
+              },
+            },
+          })
+        )
+      ).rejects.toMatchObject({ name: "ValidationException" });
+    });
+  });
+});
+
+// Adds a placeholder value to compiled expressions.
+function mergeValues(
+  expressions: ReturnType<typeof buildExpressions>,
+  values: Record<string, unknown>
+) {
+  return {
+    ...expressions,
+    ExpressionAttributeValues: {
+      ...expressions.ExpressionAttributeValues,
+      ...values,
+    },
+  };
+}
@@ -0,0 +1,806 @@
+import {
+  GetCommand,
+  PutCommand,
+  UpdateCommand,
+  DeleteCommand,
+  QueryCommand,
+  ScanCommand,
+  TransactWriteCommand,
+  BatchGetCommand,
+  BatchWriteCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { marshall } from "@aws-sdk/util-dynamodb";
+import {
+  Item,
+  DocumentPath,
+  ExpressionContext,
+  parseCondition,
+  parseUpdate,
+  parseProjection,
+  project,
+  compareValues,
+  cloneValue,
+} from "./memory-expression";
+import {
+  TableDescriptor,
+  KeyAttribute,
+  IndexDescriptor,
+  StreamRecord,
+} from "./types";
+
+const MAX_TRANSACTION_ITEMS = 100;
+const MAX_BATCH_GET_KEYS = 100;
+const MAX_BATCH_WRITE_ITEMS = 25;
+
+/**
+ * An error shaped like the service exceptions of the AWS SDK: callers tell
+ * them apart by `name` and read extra fields such as `CancellationReasons`.
+ */
+export class MemoryDynamoDBError extends Error {
+  [field: string]: any;
+
+  constructor(name: string, message: string, fields: Record<string, any> = {}) {
+    super(message);
+    this.name = name;
+    Object.assign(this, fields);
+  }
+}
+
+type Table = {
+  descriptor: TableDescriptor;
+  items: Map<string, Item>;
+  stream: StreamRecord[]; // Only written when the descriptor declares a stream
+};
+
+// The key schema items are read through: the table itself or one of its indexes.
+type KeySchema = {
+  partitionKey: KeyAttribute;
+  sortKey?: KeyAttribute;
+  index?: IndexDescriptor;
+};
+
+// The outcome of checking one write before it is applied.
+type PreparedWrite = {
+  table: Table;
+  id: string;
+  existing?: Item;
+  passed: boolean;
+  result?: Item; // Undefined when the write deletes the item
+  returnOldOnFailure: boolean;
+};
+
+/**
+ * An in-process stand-in for `DynamoDBDocumentClient`, for tests. It keeps
+ * items in memory and implements the commands Repository sends, including
+ * condition, update, key condition, filter and projection expressions,
+ * secondary indexes, pagination and transactions. Tables that declare a
+ * stream record every change, as DynamoDB Streams would.
+ */
+export class MemoryDocumentClient {
+  private tables = new Map<string, Table>();
+  private transactionTokens = new Map<string, string>();
+  private pendingUnprocessed = 0;
+  private sequenceNumber = 0;
+
+  constructor(tables: TableDescriptor[] = []) {
+    tables.forEach((table) => this.createTable(table));
+  }
+
+  createTable(descriptor: TableDescriptor) {
+    if (this.tables.has(descriptor.tableName)) {
+      throw new MemoryDynamoDBError(
+        "ResourceInUseException",
+        `Table already exists: ${descriptor.tableName}`
+      );
+    }
+    this.tables.set(descriptor.tableName, {
+      descriptor,
+      items: new Map(),
+      stream: [],
+    });
+  }
+
+  /**
+   * Returns the stream records of a table, oldest first, optionally only
+   * those after a sequence number.
+   */
+  streamRecords(
+    tableName: string,
+    afterSequenceNumber?: string
+  ): StreamRecord[] {
+    return this.table(tableName)
+      .stream.filter(
+        (record) =>
+          afterSequenceNumber === undefined ||
+          record.dynamodb.SequenceNumber > afterSequenceNumber
+      )
+      .map(cloneValue);
+  }
+
+  /**
+   * Returns a copy of every item stored in a table, in key order.
+   */
+  items(tableName: string): Item[] {
+    const table = this.table(tableName);
+    return this.sorted(
+      table,
+      [...table.items.values()],
+      this.tableSchema(table)
+    ).map(cloneValue);
+  }
+
+  /**
+   * Makes the next batch request leave this many of its items unprocessed,
+   * as DynamoDB does when it is throttled.
+   */
+  leaveUnprocessed(count: number) {
+    this.pendingUnprocessed = count;
+  }
+
+  async send(command: any): Promise<any> {
+    const input = command.input;
+    if (command instanceof GetCommand) return this.get(input);
+    if (command instanceof PutCommand) return this.put(input);
+    if (command instanceof UpdateCommand) return this.update(input);
+    if (command instanceof DeleteCommand) return this.delete(input);
+    if (command instanceof QueryCommand) return this.read(input, true);
+    if (command instanceof ScanCommand) return this.read(input, false);
+    if (command instanceof TransactWriteCommand)
+      return this.transactWrite(input);
+    if (command instanceof BatchGetCommand) return this.batchGet(input);
+    if (command instanceof BatchWriteCommand) return this.batchWrite(input);
+    throw validation(`Unsupported command: ${command?.constructor?.name}`);
+  }
+
+  private get(input: any) {
+    const table = this.table(input.TableName);
+    const context = expressionContext(input);
+    const projection =
+      input.ProjectionExpression &&
+      parseProjection(input.ProjectionExpression, context);
+    context.assertAllUsed();
+
+    const item = table.items.get(this.keyId(table, input.Key));
+    return { Item: item && this.present(item, projection) };
+  }
+
+  private put(input: any) {
+    const write = this.preparePut(input);
+    this.assertPassed(write);
+    this.apply(write);
+    return returnValues(input.ReturnValues, write.existing, write.result);
+  }
+
+  private update(input: any) {
+    const write = this.prepareUpdate(input);
+    this.assertPassed(write);
+    this.apply(write);
+    return returnValues(input.ReturnValues, write.existing, write.result);
+  }
+
+  private delete(input: any) {
+    const write = this.prepareDelete(input);
+    this.assertPassed(write);
+    this.apply(write);
+    return returnValues(input.ReturnValues, write.existing, undefined);
+  }
+
+  private preparePut(input: any): PreparedWrite {
+    const table = this.table(input.TableName);
+    this.assertItem(table, input.Item);
+    const id = this.keyId(table, this.tableKey(table, input.Item));
+    const existing = table.items.get(id);
+    return {
+      table,
+      id,
+      existing,
+      passed: this.checkCondition(input, existing),
+      result: cloneValue(input.Item),
+      returnOldOnFailure:
+        input.ReturnValuesOnConditionCheckFailure === "ALL_OLD",
+    };
+  }
+
+  private prepareUpdate(input: any): PreparedWrite {
+    const table = this.table(input.TableName);
+    const id = this.keyId(table, input.Key);
+    const context = expressionContext(input);
+    const updateExpression = parseUpdate(input.UpdateExpression ?? "", context);
+    const condition =
+      input.ConditionExpression &&
+      parseCondition(input.ConditionExpression, context);
+    context.assertAllUsed();
+
+    const keyNames = this.keyAttributes(this.tableSchema(table)).map(
+      (attribute) => attribute.name
+    );
+    const keyPath = updateExpression.paths.find((path) =>
+      keyNames.includes(path[0] as string)
+    );
+    if (keyPath) {
+      throw validation(
+        `One or more parameter values were invalid: Cannot update attribute ${keyPath[0]}. This attribute is part of the key`
+      );
+    }
+
+    const existing = table.items.get(id);
+    const passed = condition ? condition(existing ?? {}) : true;
+    const result = passed
+      ? updateExpression.apply(existing ?? cloneValue(input.Key))
+      : undefined;
+    if (result) {
+      this.assertItem(table, result);
+    }
+    return {
+      table,
+      id,
+      existing,
+      passed,
+      result,
+      returnOldOnFailure:
+        input.ReturnValuesOnConditionCheckFailure === "ALL_OLD",
+    };
+  }
+
+  private prepareDelete(input: any): PreparedWrite {
+    const table = this.table(input.TableName);
+    const id = this.keyId(table, input.Key);
+    const existing = table.items.get(id);
+    return {
+      table,
+      id,
+      existing,
+      passed: this.checkCondition(input, existing),
+      returnOldOnFailure:
+        input.ReturnValuesOnConditionCheckFailure === "ALL_OLD",
+    };
+  }
+
+  private prepareConditionCheck(input: any): PreparedWrite {
+    const table = this.table(input.TableName);
+    const id = this.keyId(table, input.Key);
+    const existing = table.items.get(id);
+    if (!input.ConditionExpression) {
+      throw validation("ConditionCheck requires a ConditionExpression");
+    }
+    return {
+      table,
+      id,
+      existing,
+      passed: this.checkCondition(input, existing),
+      result: existing,
+      returnOldOnFailure:
+        input.ReturnValuesOnConditionCheckFailure === "ALL_OLD",
+    };
+  }
+
+  private checkCondition(input: any, existing: Item | undefined): boolean {
+    const context = expressionContext(input);
+    const condition =
+      input.ConditionExpression &&
+      parseCondition(input.ConditionExpression, context);
+    context.assertAllUsed();
+    return condition ? condition(existing ?? {}) : true;
+  }
+
+  private assertPassed(write: PreparedWrite) {
+    if (!write.passed) {
+      throw new MemoryDynamoDBError(
+        "ConditionalCheckFailedException",
+        "The conditional request failed",
+        // Like the real document client, the old item is left marshalled.
+        write.returnOldOnFailure && write.existing
+          ? { Item: marshall(write.existing) }
+          : {}
+      );
+    }
+  }
+
+  private apply(write: PreparedWrite) {
+    this.store(write.table, write.id, write.result);
+  }
+
+  private store(table: Table, id: string, item: Item | undefined) {
+    const existing = table.items.get(id);
+    if (item) {
+      table.items.set(id, cloneValue(item));
+    } else {
+      table.items.delete(id);
+    }
+    this.recordChange(table, existing, item);
+  }
+
+  // Appends a stream record with the images the stream view type asks for.
+  private recordChange(
+    table: Table,
+    before: Item | undefined,
+    after: Item | undefined
+  ) {
+    const viewType = table.descriptor.stream;
+    const image = after ?? before;
+    // Unchanged items and deletes of missing items are not recorded.
+    if (
+      !viewType ||
+      !image ||
+      JSON.stringify(marshallImage(before)) ===
+        JSON.stringify(marshallImage(after))
+    ) {
+      return;
+    }
+
+    this.sequenceNumber += 1;
+    const SequenceNumber = String(this.sequenceNumber).padStart(21, "0");
+    table.stream.push({
+      eventID: SequenceNumber,
+      eventName: !before ? "INSERT" : !after ? "REMOVE" : "MODIFY",
+      eventSource: "aws:dynamodb",
+      dynamodb: {
+        Keys: marshallImage(this.tableKey(table, image))!,
+        NewImage:
+          viewType === "NEW_IMAGE" || viewType === "NEW_AND_OLD_IMAGES"
+            ? marshallImage(after)
+            : undefined,
+        OldImage:
+          viewType === "OLD_IMAGE" || viewType === "NEW_AND_OLD_IMAGES"
+            ? marshallImage(before)
+            : undefined,
+        SequenceNumber,
+        StreamViewType: viewType,
+        ApproximateCreationDateTime: Math.floor(Date.now() / 1000),
+      },
+    });
+  }
+
+  private transactWrite(input: any) {
+    const operations: any[] = input.TransactItems ?? [];
+    if (operations.length === 0 || operations.length > MAX_TRANSACTION_ITEMS) {
+      throw validation(
+        `Member must have length less than or equal to ${MAX_TRANSACTION_ITEMS} and greater than or equal to 1`
+      );
+    }
+
+    const token = input.ClientRequestToken;
+    const fingerprint = JSON.stringify(operations);
+    if (token !== undefined && this.transactionTokens.has(token)) {
+      if (this.transactionTokens.get(token) !== fingerprint) {
+        throw new MemoryDynamoDBError(
+          "IdempotentParameterMismatchException",
+          "The request uses the same client token as a previous, but non-identical request."
+        );
+      }
+      return {};
+    }
+
+    const writes = operations.map((operation) => {
+      const types = Object.keys(operation);
+      if (types.length !== 1) {
+        throw validation(
+          "TransactItems can only contain one of Check, Put, Update or Delete"
+        );
+      }
+      switch (types[0]) {
+        case "Put":
+          return this.preparePut(operation.Put);
+        case "Update":
+          return this.prepareUpdate(operation.Update);
+        case "Delete":
+          return this.prepareDelete(operation.Delete);
+        case "ConditionCheck":
+          return this.prepareConditionCheck(operation.ConditionCheck);
+        default:
+          throw validation(`Unsupported transaction operation: ${types[0]}`);
+      }
+    });
+
+    const targets = writes.map(
+      (write) => `${write.table.descriptor.tableName}/${write.id}`
+    );
+    if (new Set(targets).size !== targets.length) {
+      throw validation(
+        "Transaction request cannot include multiple operations on one item"
+      );
+    }
+
+    if (writes.some((write) => !write.passed)) {
+      const reasons = writes.map((write) =>
+        write.passed
+          ? { Code: "None" }
+          : {
+              Code: "ConditionalCheckFailed",
+              Message: "The conditional request failed",
+              ...(write.returnOldOnFailure && write.existing
+                ? { Item: marshall(write.existing) }
+                : {}),
+            }
+      );
+      throw new MemoryDynamoDBError(
+        "TransactionCanceledException",
+        `Transaction cancelled, please refer cancellation reasons for specific reasons [${reasons
+          .map((reason) => reason.Code)
+          .join(", ")}]`,
+        { CancellationReasons: reasons }
+      );
+    }
+
+    operations.forEach((operation, index) => {
+      if (!operation.ConditionCheck) {
+        this.apply(writes[index]);
+      }
+    });
+    if (token !== undefined) {
+      this.transactionTokens.set(token, fingerprint);
+    }
+    return {};
+  }
+
+  private batchGet(input: any) {
+    const requests = Object.entries<any>(input.RequestItems ?? {});
+    const total = requests.reduce(
+      (count, [, request]) => count + (request.Keys?.length ?? 0),
+      0
+    );
+    if (total === 0 || total > MAX_BATCH_GET_KEYS) {
+      throw validation(
+        `Too many items requested for the BatchGetItem call; at most ${MAX_BATCH_GET_KEYS} keys are allowed`
+      );
+    }
+
+    let unprocessed = this.takeUnprocessed(total);
+    const Responses: Record<string, Item[]> = {};
+    const UnprocessedKeys: Record<string, any> = {};
+    for (const [tableName, request] of requests) {
+      const table = this.table(tableName);
+      const context = expressionContext(request);
+      const projection =
+        request.ProjectionExpression &&
+        parseProjection(request.ProjectionExpression, context);
+      context.assertAllUsed();
+
+      const ids = request.Keys.map((key: Item) => this.keyId(table, key));
+      if (new Set(ids).size !== ids.length) {
+        throw validation("Provided list of item keys contains duplicates");
+      }
+
+      const skipped = Math.min(unprocessed, ids.length);
+      unprocessed -= skipped;
+      const processed = ids.length - skipped;
+      Responses[tableName] = ids
+        .slice(0, processed)
+        .map((id: string) => table.items.get(id))
+        .filter((item: Item | undefined) => item !== undefined)
+        .map((item: Item) => this.present(item, projection));
+      if (skipped > 0) {
+        UnprocessedKeys[tableName] = {
+          ...request,
+          Keys: request.Keys.slice(processed),
+        };
+      }
+    }
+    return { Responses, UnprocessedKeys };
+  }
+
+  private batchWrite(input: any) {
+    const requests = Object.entries<any[]>(input.RequestItems ?? {});
+    const total = requests.reduce(
+      (count, [, writes]) => count + writes.length,
+      0
+    );
+    if (total === 0 || total > MAX_BATCH_WRITE_ITEMS) {
+      throw validation(
+        `Too many items requested for the BatchWriteItem call; at most ${MAX_BATCH_WRITE_ITEMS} items are allowed`
+      );
+    }
+
+    let unprocessed = this.takeUnprocessed(total);
+    const UnprocessedItems: Record<string, any[]> = {};
+    for (const [tableName, writes] of requests) {
+      const table = this.table(tableName);
+      const ids = writes.map((write) => {
+        if (write.PutRequest) {
+          this.assertItem(table, write.PutRequest.Item);
+          return this.keyId(table, this.tableKey(table, write.PutRequest.Item));
+        }
+        return this.keyId(table, write.DeleteRequest?.Key);
+      });
+      if (new Set(ids).size !== ids.length) {
+        throw validation("Provided list of item keys contains duplicates");
+      }
+
+      const skipped = Math.min(unprocessed, writes.length);
+      unprocessed -= skipped;
+      const processed = writes.length - skipped;
+      writes.slice(0, processed).forEach((write, index) => {
+        this.store(table, ids[index], write.PutRequest?.Item);
+      });
+      if (skipped > 0) {
+        UnprocessedItems[tableName] = writes.slice(processed);
+      }
+    }
+    return { UnprocessedItems };
+  }
+
+  private takeUnprocessed(total: number): number {
+    const count = Math.min(this.pendingUnprocessed, total);
+    this.pendingUnprocessed = 0;
+    return count;
+  }
+
+  private read(input: any, isQuery: boolean) {
+    const table = this.table(input.TableName);
+    const schema = input.IndexName
+      ? this.indexSchema(table, input.IndexName)
+      : this.tableSchema(table);
+
+    const context = expressionContext(input);
+    if (isQuery && !input.KeyConditionExpression) {
+      throw validation(
+        "Either the KeyConditions or KeyConditionExpression parameter must be specified in the request."
+      );
+    }
+    const keyCondition =
+      isQuery && parseCondition(input.KeyConditionExpression, context);
+    const filter =
+      input.FilterExpression && parseCondition(input.FilterExpression, context);
+    const projection =
+      input.ProjectionExpression &&
+      parseProjection(input.ProjectionExpression, context);
+    context.assertAllUsed();
+
+    // Items without the index key attributes are not in the index.
+    let candidates = [...table.items.values()].filter((item) =>
+      this.keyAttributes(schema).every(
+        (attribute) => item[attribute.name] !== undefined
+      )
+    );
+    if (keyCondition) {
+      candidates = candidates.filter(keyCondition);
+    }
+    candidates = this.sorted(table, candidates, schema);
+    if (input.ScanIndexForward === false) {
+      candidates.reverse();
+    }
+
+    if (input.ExclusiveStartKey) {
+      const start = this.position(table, schema, input.ExclusiveStartKey);
+      const direction = input.ScanIndexForward === false ? -1 : 1;
+      candidates = candidates.filter(
+        (item) =>
+          direction *
+            this.compareTuples(this.position(table, schema, item), start) >
+          0
+      );
+    }
+
+    const evaluated =
+      input.Limit !== undefined ? candidates.slice(0, input.Limit) : candidates;
+    const matching = filter ? evaluated.filter(filter) : evaluated;
+    const last = evaluated[evaluated.length - 1];
+    return {
+      Items: matching.map((item) =>
+        this.present(this.projectIndex(table, schema, item), projection)
+      ),
+      Count: matching.length,
+      ScannedCount: evaluated.length,
+      LastEvaluatedKey:
+        evaluated.length < candidates.length && last
+          ? this.lastEvaluatedKey(table, schema, last)
+          : undefined,
+    };
+  }
+
+  private sorted(table: Table, items: Item[], schema: KeySchema): Item[] {
+    return [...items].sort((a, b) =>
+      this.compareTuples(
+        this.position(table, schema, a),
+        this.position(table, schema, b)
+      )
+    );
+  }
+
+  // Where an item sits in a table or index: its index key, then its table key.
+  private position(table: Table, schema: KeySchema, item: Item): any[] {
+    return [
+      ...this.keyAttributes(schema),
+      ...this.keyAttributes(this.tableSchema(table)),
+    ].map((attribute) => item[attribute.name]);
+  }
+
+  private compareTuples(a: any[], b: any[]): number {
+    for (let i = 0; i < a.length; i += 1) {
+      const order = compareValues(a[i], b[i]);
+      if (order !== 0) {
+        return order;
+      }
+    }
+    return 0;
+  }
+
+  private lastEvaluatedKey(table: Table, schema: KeySchema, item: Item): Item {
+    const key: Item = {};
+    [
+      ...this.keyAttributes(schema),
+      ...this.keyAttributes(this.tableSchema(table)),
+    ].forEach((attribute) => {
+      key[attribute.name] = cloneValue(item[attribute.name]);
+    });
+    return key;
+  }
+
+  // Limits an item to the attributes an index projects.
+  private projectIndex(table: Table, schema: KeySchema, item: Item): Item {
+    const projection = schema.index?.projection;
+    if (!projection || projection.type === "ALL") {
+      return item;
+    }
+    const attributes = [
+      ...this.keyAttributes(schema),
+      ...this.keyAttributes(this.tableSchema(table)),
+    ].map((attribute) => attribute.name);
+    if (projection.type === "INCLUDE") {
+      attributes.push(...projection.attributes);
+    }
+    return project(
+      item,
+      attributes.map((name) => [name])
+    );
+  }
+
+  private present(item: Item, projection?: DocumentPath[]): Item {
+    return projection ? project(item, projection) : cloneValue(item);
+  }
+
+  private table(tableName: string): Table {
+    const table = this.tables.get(tableName);
+    if (!table) {
+      throw new MemoryDynamoDBError(
+        "ResourceNotFoundException",
+        `Requested resource not found: Table: ${tableName} not found`
+      );
+    }
+    return table;
+  }
+
+  private tableSchema(table: Table): KeySchema {
+    return {
+      partitionKey: table.descriptor.partitionKey,
+      sortKey: table.descriptor.sortKey,
+    };
+  }
+
+  private indexSchema(table: Table, indexName: string): KeySchema {
+    const index = table.descriptor.indexes?.find(
+      (candidate) => candidate.name === indexName
+    );
+    if (!index) {
+      throw validation(
+        `The table does not have the specified index: ${indexName}`
+      );
+    }
+    return { partitionKey: index.partitionKey, sortKey: index.sortKey, index };
+  }
+
+  private keyAttributes(schema: KeySchema): KeyAttribute[] {
+    return schema.sortKey
+      ? [schema.partitionKey, schema.sortKey]
+      : [schema.partitionKey];
+  }
+
+  private tableKey(table: Table, item: Item): Item {
+    return Object.fromEntries(
+      this.keyAttributes(this.tableSchema(table)).map((attribute) => [
+        attribute.name,
+        item[attribute.name],
+      ])
+    );
+  }
+
+  // Identifies an item by its primary key, which must match the key schema exactly.
+  private keyId(table: Table, key: Item | undefined): string {
+    const attributes = this.keyAttributes(this.tableSchema(table));
+    if (
+      !key ||
+      Object.keys(key).length !== attributes.length ||
+      attributes.some((attribute) => !hasType(key[attribute.name], attribute))
+    ) {
+      throw validation("The provided key element does not match the schema");
+    }
+    return JSON.stringify(
+      attributes.map((attribute) => {
+        const value = key[attribute.name];
+        return value instanceof Uint8Array
+          ? Buffer.from(value).toString("base64")
+          : value;
+      })
+    );
+  }
+
+  private assertItem(table: Table, item: Item | undefined) {
+    if (!item) {
+      throw validation(
+        "One or more parameter values were invalid: Item is missing"
+      );
+    }
+    for (const attribute of this.keyAttributes(this.tableSchema(table))) {
+      if (!hasType(item[attribute.name], attribute)) {
+        throw validation(
+          `One or more parameter values were invalid: Missing the key ${attribute.name} in the item`
+        );
+      }
+    }
+    for (const index of table.descriptor.indexes ?? []) {
+      for (const attribute of this.keyAttributes(index)) {
+        const value = item[attribute.name];
+        if (value !== undefined && !hasType(value, attribute)) {
+          throw validation(
+            `One or more parameter values were invalid: Type mismatch for Index Key ${attribute.name} Expected: ${attribute.type} IndexName: ${index.name}`
+          );
+        }
+      }
+    }
+  }
+}
+
+function hasType(value: any, attribute: KeyAttribute): boolean {
+  switch (attribute.type) {
+    case "S":
+      return typeof value === "string" && value.length > 0;
+    case "N":
+      return typeof value === "number";
+    default:
+      return value instanceof Uint8Array && value.length > 0;
+  }
+}
+
+function marshallImage(item: Item | undefined) {
+  return item && marshall(item, { removeUndefinedValues: true });
+}
+
+function expressionContext(input: any): ExpressionContext {
+  const names = input.ExpressionAttributeNames;
+  const values = input.ExpressionAttributeValues;
+  if (names && Object.keys(names).length === 0) {
+    throw validation("ExpressionAttributeNames must not be empty");
+  }
+  if (values && Object.keys(values).length === 0) {
+    throw validation("ExpressionAttributeValues must not be empty");
+  }
+  return new ExpressionContext(names, values);
+}
+
+function returnValues(
+  returnValues: string | undefined,
+  before: Item | undefined,
+  after: Item | undefined
+) {
+  switch (returnValues ?? "NONE") {
+    case "NONE":
+      return {};
+    case "ALL_OLD":
+      return { Attributes: before && cloneValue(before) };
+    case "ALL_NEW":
+      return { Attributes: after && cloneValue(after) };
+    case "UPDATED_OLD":
+    case "UPDATED_NEW": {
+      const source = returnValues === "UPDATED_OLD" ? before : after;
+      const other = returnValues === "UPDATED_OLD" ? after : before;
+      if (!source) {
+        return {};
+      }
+      const changed = Object.keys(source).filter(
+        (name) => JSON.stringify(source[name]) !== JSON.stringify(other?.[name])
+      );
+      return {
+        Attributes: project(
+          source,
+          changed.map((name) => [name])
+        ),
+      };
+    }
+    default:
+      throw validation(`Invalid ReturnValues: ${returnValues}`);
+  }
+}
+
+function validation(message: string) {
+  return new MemoryDynamoDBError("ValidationException", message);
+}
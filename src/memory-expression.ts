@@ -0,0 +1,886 @@
+/**
+ * Parses and evaluates DynamoDB expressions against plain JavaScript items,
+ * for the in-memory document client and for the history entries of
+ * Repository.mutate. Covers the grammar of condition, key condition, filter,
+ * update and projection expressions.
+ */
+
+export type Item = Record<string, any>;
+
+// A document path such as `metadata.tags[2]` as ["metadata", "tags", 2].
+export type DocumentPath = (string | number)[];
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ValidationException";
+  }
+}
+
+/**
+ * Placeholders of one request. Every placeholder used by any of its
+ * expressions is recorded, so unused ones can be rejected like DynamoDB does.
+ */
+export class ExpressionContext {
+  usedNames = new Set<string>();
+  usedValues = new Set<string>();
+
+  constructor(
+    private names: Record<string, string> = {},
+    private values: Record<string, any> = {}
+  ) {}
+
+  name(placeholder: string): string {
+    if (!(placeholder in this.names)) {
+      throw new ExpressionError(
+        `An expression attribute name used in the document path is not defined; attribute name: ${placeholder}`
+      );
+    }
+    this.usedNames.add(placeholder);
+    return this.names[placeholder];
+  }
+
+  value(placeholder: string): any {
+    if (!(placeholder in this.values)) {
+      throw new ExpressionError(
+        `An expression attribute value used in expression is not defined; attribute value: ${placeholder}`
+      );
+    }
+    this.usedValues.add(placeholder);
+    return this.values[placeholder];
+  }
+
+  assertAllUsed() {
+    const unusedNames = Object.keys(this.names).filter(
+      (name) => !this.usedNames.has(name)
+    );
+    if (unusedNames.length > 0) {
+      throw new ExpressionError(
+        `Value provided in ExpressionAttributeNames unused in expressions: keys: {${unusedNames.join(
+          ", "
+        )}}`
+      );
+    }
+    const unusedValues = Object.keys(this.values).filter(
+      (value) => !this.usedValues.has(value)
+    );
+    if (unusedValues.length > 0) {
+      throw new ExpressionError(
+        `Value provided in ExpressionAttributeValues unused in expressions: keys: {${unusedValues.join(
+          ", "
+        )}}`
+      );
+    }
+  }
+}
+
+type Token = {
+  type: "word" | "name" | "value" | "number" | "symbol";
+  text: string;
+};
+
+const TOKEN_PATTERNS: { type: Token["type"]; pattern: RegExp }[] = [
+  { type: "name", pattern: /^#[A-Za-z0-9_]+/ },
+  { type: "value", pattern: /^:[A-Za-z0-9_]+/ },
+  { type: "number", pattern: /^[0-9]+/ },
+  { type: "word", pattern: /^[A-Za-z_][A-Za-z0-9_]*/ },
+];
+
+const SYMBOLS = [
+  "<>",
+  "<=",
+  ">=",
+  "=",
+  "<",
+  ">",
+  "(",
+  ")",
+  "[",
+  "]",
+  ",",
+  ".",
+  "+",
+  "-",
+];
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const rest = expression.slice(i);
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      i += space[0].length;
+      continue;
+    }
+    const word = TOKEN_PATTERNS.map(({ type, pattern }) => ({
+      type,
+      match: pattern.exec(rest),
+    })).find(({ match }) => match);
+    if (word?.match) {
+      tokens.push({ type: word.type, text: word.match[0] });
+      i += word.match[0].length;
+      continue;
+    }
+    const symbol = SYMBOLS.find((candidate) => rest.startsWith(candidate));
+    if (!symbol) {
+      throw new ExpressionError(
+        `Invalid expression: unexpected character "${rest[0]}" in "${expression}"`
+      );
+    }
+    tokens.push({ type: "symbol", text: symbol });
+    i += symbol.length;
+  }
+  return tokens;
+}
+
+type Operand = (item: Item) => any;
+type Predicate = (item: Item) => boolean;
+
+class Parser {
+  private tokens: Token[];
+  private position = 0;
+
+  constructor(private expression: string, private context: ExpressionContext) {
+    this.tokens = tokenize(expression);
+  }
+
+  done(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  expectEnd() {
+    if (!this.done()) {
+      this.fail(`unexpected token "${this.peek()?.text}"`);
+    }
+  }
+
+  // condition := or
+  condition(): Predicate {
+    return this.or();
+  }
+
+  private or(): Predicate {
+    let left = this.and();
+    while (this.acceptWord("OR")) {
+      const a = left;
+      const b = this.and();
+      left = (item) => a(item) || b(item);
+    }
+    return left;
+  }
+
+  private and(): Predicate {
+    let left = this.not();
+    while (this.acceptWord("AND")) {
+      const a = left;
+      const b = this.not();
+      left = (item) => a(item) && b(item);
+    }
+    return left;
+  }
+
+  private not(): Predicate {
+    if (this.acceptWord("NOT")) {
+      const inner = this.not();
+      return (item) => !inner(item);
+    }
+    return this.primary();
+  }
+
+  private primary(): Predicate {
+    if (this.acceptSymbol("(")) {
+      const inner = this.condition();
+      this.expectSymbol(")");
+      return inner;
+    }
+
+    const token = this.peek();
+    const fn = token?.type === "word" ? token.text : "";
+    const next = this.tokens[this.position + 1];
+    if (fn !== "size" && next?.text === "(" && token?.type === "word") {
+      return this.function();
+    }
+
+    const left = this.operand();
+    if (this.acceptWord("BETWEEN")) {
+      const low = this.operand();
+      this.expectWord("AND");
+      const high = this.operand();
+      return (item) => {
+        const value = left(item);
+        return (
+          compareValues(value, low(item)) >= 0 &&
+          compareValues(value, high(item)) <= 0 &&
+          comparable(value, low(item)) &&
+          comparable(value, high(item))
+        );
+      };
+    }
+    if (this.acceptWord("IN")) {
+      this.expectSymbol("(");
+      const candidates = [this.operand()];
+      while (this.acceptSymbol(",")) {
+        candidates.push(this.operand());
+      }
+      this.expectSymbol(")");
+      return (item) => {
+        const value = left(item);
+        return candidates.some((candidate) =>
+          valuesEqual(value, candidate(item))
+        );
+      };
+    }
+
+    const operator = this.next();
+    if (!["=", "<>", "<", "<=", ">", ">="].includes(operator?.text ?? "")) {
+      this.fail(`expected a comparator, got "${operator?.text}"`);
+    }
+    const right = this.operand();
+    return (item) => compare(operator.text, left(item), right(item));
+  }
+
+  private function(): Predicate {
+    const fn = this.next().text;
+    this.expectSymbol("(");
+    const path = this.path();
+    const args: Operand[] = [];
+    while (this.acceptSymbol(",")) {
+      args.push(this.operand());
+    }
+    this.expectSymbol(")");
+
+    const get = (item: Item) => getPath(item, path);
+    switch (fn) {
+      case "attribute_exists":
+        return (item) => get(item) !== undefined;
+      case "attribute_not_exists":
+        return (item) => get(item) === undefined;
+      case "attribute_type":
+        return (item) => {
+          const value = get(item);
+          return value !== undefined && attributeType(value) === args[0](item);
+        };
+      case "begins_with":
+        return (item) => {
+          const value = get(item);
+          const prefix = args[0](item);
+          return (
+            typeof value === "string" &&
+            typeof prefix === "string" &&
+            value.startsWith(prefix)
+          );
+        };
+      case "contains":
+        return (item) => {
+          const value = get(item);
+          const needle = args[0](item);
+          if (typeof value === "string") {
+            return typeof needle === "string" && value.includes(needle);
+          }
+          if (value instanceof Set) {
+            return value.has(needle);
+          }
+          if (Array.isArray(value)) {
+            return value.some((element) => valuesEqual(element, needle));
+          }
+          return false;
+        };
+      default:
+        return this.fail(`invalid function name "${fn}"`);
+    }
+  }
+
+  // operand := path | :value | size(path)
+  operand(): Operand {
+    const token = this.peek();
+    if (token?.type === "value") {
+      this.next();
+      const value = this.context.value(token.text);
+      return () => value;
+    }
+    if (token?.type === "word" && token.text === "size") {
+      this.next();
+      this.expectSymbol("(");
+      const path = this.path();
+      this.expectSymbol(")");
+      return (item) => sizeOf(getPath(item, path));
+    }
+    const path = this.path();
+    return (item) => getPath(item, path);
+  }
+
+  // path := element ("." element | "[" number "]")*
+  path(): DocumentPath {
+    const path: DocumentPath = [this.element()];
+    for (;;) {
+      if (this.acceptSymbol(".")) {
+        path.push(this.element());
+      } else if (this.acceptSymbol("[")) {
+        const index = this.next();
+        if (index?.type !== "number") {
+          this.fail("expected a list index");
+        }
+        path.push(Number(index.text));
+        this.expectSymbol("]");
+      } else {
+        return path;
+      }
+    }
+  }
+
+  private element(): string {
+    const token = this.next();
+    if (token?.type === "name") {
+      return this.context.name(token.text);
+    }
+    if (token?.type === "word") {
+      if (RESERVED.has(token.text.toUpperCase())) {
+        this.fail(
+          `attribute name is a reserved keyword; reserved keyword: ${token.text}`
+        );
+      }
+      return token.text;
+    }
+    return this.fail(`expected an attribute name, got "${token?.text}"`);
+  }
+
+  // update := clause+, evaluated against the item as it was before the update
+  update(): { paths: DocumentPath[]; apply: (item: Item) => Item } {
+    const actions: ((original: Item, updated: Item) => void)[] = [];
+    const paths: DocumentPath[] = [];
+    const seen = new Set<string>();
+
+    while (!this.done()) {
+      const clause = this.next();
+      const keyword = clause?.type === "word" ? clause.text.toUpperCase() : "";
+      if (seen.has(keyword)) {
+        this.fail(
+          `the "${keyword}" section can only be used once in an update expression`
+        );
+      }
+      seen.add(keyword);
+
+      do {
+        const path = this.path();
+        paths.push(path);
+        switch (keyword) {
+          case "SET": {
+            this.expectSymbol("=");
+            const value = this.setValue();
+            actions.push((original, updated) =>
+              setPath(updated, path, value(original))
+            );
+            break;
+          }
+          case "REMOVE":
+            actions.push((_, updated) => removePath(updated, path));
+            break;
+          case "ADD": {
+            const operand = this.operand();
+            actions.push((original, updated) =>
+              setPath(
+                updated,
+                path,
+                addValues(getPath(original, path), operand(original))
+              )
+            );
+            break;
+          }
+          case "DELETE": {
+            const operand = this.operand();
+            actions.push((original, updated) => {
+              const remaining = deleteValues(
+                getPath(original, path),
+                operand(original)
+              );
+              if (remaining === undefined) {
+                removePath(updated, path);
+              } else {
+                setPath(updated, path, remaining);
+              }
+            });
+            break;
+          }
+          default:
+            this.fail(`unexpected update clause "${clause?.text}"`);
+        }
+      } while (this.acceptSymbol(","));
+    }
+
+    if (actions.length === 0) {
+      this.fail("an update expression needs at least one clause");
+    }
+    assertNoOverlap(paths);
+
+    return {
+      paths,
+      apply: (item) => {
+        const updated = cloneValue(item);
+        actions.forEach((action) => action(item, updated));
+        return updated;
+      },
+    };
+  }
+
+  // setValue := setOperand (("+" | "-") setOperand)?
+  private setValue(): Operand {
+    const left = this.setOperand();
+    if (this.acceptSymbol("+")) {
+      const right = this.setOperand();
+      return (item) => arithmetic(left(item), right(item), 1);
+    }
+    if (this.acceptSymbol("-")) {
+      const right = this.setOperand();
+      return (item) => arithmetic(left(item), right(item), -1);
+    }
+    return left;
+  }
+
+  private setOperand(): Operand {
+    const token = this.peek();
+    if (
+      token?.type === "word" &&
+      this.tokens[this.position + 1]?.text === "("
+    ) {
+      this.next();
+      this.expectSymbol("(");
+      if (token.text === "if_not_exists") {
+        const path = this.path();
+        this.expectSymbol(",");
+        const fallback = this.setOperand();
+        this.expectSymbol(")");
+        return (item) => {
+          const value = getPath(item, path);
+          return value === undefined ? fallback(item) : value;
+        };
+      }
+      if (token.text === "list_append") {
+        const first = this.setOperand();
+        this.expectSymbol(",");
+        const second = this.setOperand();
+        this.expectSymbol(")");
+        return (item) => {
+          const a = first(item);
+          const b = second(item);
+          if (!Array.isArray(a) || !Array.isArray(b)) {
+            throw new ExpressionError(
+              "An operand in the update expression has an incorrect data type"
+            );
+          }
+          return [...a, ...b];
+        };
+      }
+      this.fail(`invalid function name "${token.text}"`);
+    }
+    const operand = this.operand();
+    return (item) => {
+      const value = operand(item);
+      if (value === undefined) {
+        throw new ExpressionError(
+          "The provided expression refers to an attribute that does not exist in the item"
+        );
+      }
+      return value;
+    };
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position];
+    this.position += 1;
+    return token;
+  }
+
+  private acceptWord(word: string): boolean {
+    const token = this.peek();
+    if (token?.type === "word" && token.text.toUpperCase() === word) {
+      this.position += 1;
+      return true;
+    }
+    return false;
+  }
+
+  private expectWord(word: string) {
+    if (!this.acceptWord(word)) {
+      this.fail(`expected "${word}"`);
+    }
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    const token = this.peek();
+    if (token?.type === "symbol" && token.text === symbol) {
+      this.position += 1;
+      return true;
+    }
+    return false;
+  }
+
+  private expectSymbol(symbol: string) {
+    if (!this.acceptSymbol(symbol)) {
+      this.fail(`expected "${symbol}", got "${this.peek()?.text}"`);
+    }
+  }
+
+  private fail(reason: string): never {
+    throw new ExpressionError(
+      `Invalid expression: ${reason}; expression: ${this.expression}`
+    );
+  }
+}
+
+// A small subset of DynamoDB's reserved words, enough to catch unescaped names.
+const RESERVED = new Set([
+  "AND",
+  "OR",
+  "NOT",
+  "BETWEEN",
+  "IN",
+  "SET",
+  "REMOVE",
+  "ADD",
+  "DELETE",
+  "NAME",
+  "DATE",
+  "SIZE",
+  "TIMESTAMP",
+  "TTL",
+  "YEAR",
+  "STATUS",
+  "VALUE",
+  "COUNT",
+  "KEY",
+]);
+
+export function parseCondition(
+  expression: string,
+  context: ExpressionContext
+): Predicate {
+  const parser = new Parser(expression, context);
+  const predicate = parser.condition();
+  parser.expectEnd();
+  return predicate;
+}
+
+export function parseUpdate(expression: string, context: ExpressionContext) {
+  return new Parser(expression, context).update();
+}
+
+export function parseProjection(
+  expression: string,
+  context: ExpressionContext
+): DocumentPath[] {
+  return expression.split(",").map((part) => {
+    const parser = new Parser(part, context);
+    const path = parser.path();
+    parser.expectEnd();
+    return path;
+  });
+}
+
+/**
+ * Copies only the given paths of an item, keeping their nesting.
+ */
+export function project(item: Item, paths: DocumentPath[]): Item {
+  const projected: Item = {};
+  for (const path of paths) {
+    const value = getPath(item, path);
+    if (value === undefined) {
+      continue;
+    }
+    let target: any = projected;
+    path.forEach((segment, index) => {
+      if (index === path.length - 1) {
+        if (Array.isArray(target)) {
+          target.push(cloneValue(value));
+        } else {
+          target[segment] = cloneValue(value);
+        }
+        return;
+      }
+      const container = typeof path[index + 1] === "number" ? [] : {};
+      if (Array.isArray(target)) {
+        target.push(container);
+        target = container;
+      } else {
+        target[segment] = target[segment] ?? container;
+        target = target[segment];
+      }
+    });
+  }
+  return projected;
+}
+
+export function getPath(item: any, path: DocumentPath): any {
+  let current = item;
+  for (const segment of path) {
+    if (current === undefined || current === null) {
+      return undefined;
+    }
+    if (typeof segment === "number") {
+      current = Array.isArray(current) ? current[segment] : undefined;
+    } else {
+      current =
+        typeof current === "object" &&
+        !Array.isArray(current) &&
+        !(current instanceof Set) &&
+        !(current instanceof Uint8Array)
+          ? current[segment]
+          : undefined;
+    }
+  }
+  return current;
+}
+
+function setPath(item: Item, path: DocumentPath, value: any) {
+  const parent = getPath(item, path.slice(0, -1));
+  const last = path[path.length - 1];
+  if (typeof last === "number") {
+    if (!Array.isArray(parent)) {
+      throw invalidDocumentPath();
+    }
+    // Indexes past the end append, as in DynamoDB.
+    if (last >= parent.length) {
+      parent.push(value);
+    } else {
+      parent[last] = value;
+    }
+    return;
+  }
+  if (
+    path.length > 1 &&
+    (typeof parent !== "object" || parent === null || Array.isArray(parent))
+  ) {
+    throw invalidDocumentPath();
+  }
+  (path.length > 1 ? parent : item)[last] = value;
+}
+
+function removePath(item: Item, path: DocumentPath) {
+  const parent = path.length > 1 ? getPath(item, path.slice(0, -1)) : item;
+  const last = path[path.length - 1];
+  if (typeof last === "number") {
+    if (Array.isArray(parent) && last < parent.length) {
+      parent.splice(last, 1);
+    }
+  } else if (parent && typeof parent === "object") {
+    delete parent[last];
+  }
+}
+
+function invalidDocumentPath() {
+  return new ExpressionError(
+    "The document path provided in the update expression is invalid for update"
+  );
+}
+
+function assertNoOverlap(paths: DocumentPath[]) {
+  const rendered = paths.map((path) =>
+    path
+      .map((segment) =>
+        typeof segment === "number" ? `[${segment}]` : `.${segment}`
+      )
+      .join("")
+  );
+  rendered.forEach((a, i) =>
+    rendered.forEach((b, j) => {
+      if (
+        i < j &&
+        (a === b ||
+          a.startsWith(`${b}.`) ||
+          a.startsWith(`${b}[`) ||
+          b.startsWith(`${a}.`) ||
+          b.startsWith(`${a}[`))
+      ) {
+        throw new ExpressionError(
+          `Invalid UpdateExpression: Two document paths overlap with each other; path one: ${a.slice(
+            1
+          )}, path two: ${b.slice(1)}`
+        );
+      }
+    })
+  );
+}
+
+function arithmetic(a: any, b: any, sign: 1 | -1) {
+  if (typeof a !== "number" || typeof b !== "number") {
+    throw new ExpressionError(
+      "An operand in the update expression has an incorrect data type"
+    );
+  }
+  return a + sign * b;
+}
+
+function addValues(current: any, value: any) {
+  if (typeof value === "number") {
+    if (current !== undefined && typeof current !== "number") {
+      throw new ExpressionError(
+        "An operand in the update expression has an incorrect data type"
+      );
+    }
+    return (current ?? 0) + value;
+  }
+  if (value instanceof Set) {
+    if (current !== undefined && !(current instanceof Set)) {
+      throw new ExpressionError(
+        "An operand in the update expression has an incorrect data type"
+      );
+    }
+    return new Set([...(current ?? []), ...value]);
+  }
+  throw new ExpressionError(
+    "Incorrect operand type for operator or function; operator: ADD"
+  );
+}
+
+function deleteValues(current: any, value: any) {
+  if (!(value instanceof Set)) {
+    throw new ExpressionError(
+      "Incorrect operand type for operator or function; operator: DELETE"
+    );
+  }
+  if (current === undefined) {
+    return undefined;
+  }
+  const remaining = new Set(
+    [...current].filter((member) => !value.has(member))
+  );
+  return remaining.size > 0 ? remaining : undefined;
+}
+
+export function attributeType(value: any): string {
+  if (typeof value === "string") return "S";
+  if (typeof value === "number") return "N";
+  if (typeof value === "boolean") return "BOOL";
+  if (value === null) return "NULL";
+  if (value instanceof Uint8Array) return "B";
+  if (Array.isArray(value)) return "L";
+  if (value instanceof Set) {
+    const [first] = value;
+    return typeof first === "number"
+      ? "NS"
+      : first instanceof Uint8Array
+      ? "BS"
+      : "SS";
+  }
+  return "M";
+}
+
+function sizeOf(value: any): number | undefined {
+  if (typeof value === "string") return value.length;
+  if (value instanceof Uint8Array) return value.length;
+  if (Array.isArray(value)) return value.length;
+  if (value instanceof Set) return value.size;
+  if (value && typeof value === "object") return Object.keys(value).length;
+  return undefined;
+}
+
+function comparable(a: any, b: any) {
+  return (
+    (typeof a === "number" && typeof b === "number") ||
+    (typeof a === "string" && typeof b === "string") ||
+    (a instanceof Uint8Array && b instanceof Uint8Array)
+  );
+}
+
+/**
+ * Orders two scalar values of the same type; other values compare as equal.
+ */
+export function compareValues(a: any, b: any): number {
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+  if (typeof a === "string" && typeof b === "string") {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    for (let i = 0; i < Math.min(a.length, b.length); i += 1) {
+      if (a[i] !== b[i]) {
+        return a[i] - b[i];
+      }
+    }
+    return a.length - b.length;
+  }
+  return 0;
+}
+
+function compare(operator: string, a: any, b: any): boolean {
+  if (a === undefined || b === undefined) {
+    return false;
+  }
+  switch (operator) {
+    case "=":
+      return valuesEqual(a, b);
+    case "<>":
+      return !valuesEqual(a, b);
+  }
+  if (!comparable(a, b)) {
+    return false;
+  }
+  const order = compareValues(a, b);
+  switch (operator) {
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    case ">":
+      return order > 0;
+    default:
+      return order >= 0;
+  }
+}
+
+export function valuesEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    return compareValues(a, b) === 0;
+  }
+  if (a instanceof Set && b instanceof Set) {
+    return a.size === b.size && [...a].every((member) => b.has(member));
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length && a.every((value, i) => valuesEqual(value, b[i]))
+    );
+  }
+  if (
+    a &&
+    b &&
+    typeof a === "object" &&
+    typeof b === "object" &&
+    !Array.isArray(a) &&
+    !Array.isArray(b) &&
+    !(a instanceof Set) &&
+    !(b instanceof Set)
+  ) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => valuesEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+export function cloneValue<V>(value: V): V {
+  if (value instanceof Set) {
+    return new Set(value) as V;
+  }
+  if (value instanceof Uint8Array) {
+    return new Uint8Array(value) as V;
+  }
+  if (Array.isArray(value)) {
+    return value.map(cloneValue) as V;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [key, cloneValue(nested)])
+    ) as V;
+  }
+  return value;
+}
@@ -0,0 +1,60 @@
+import { MemoryDocumentClient } from "./memory-client";
+import { StreamProcessor, BatchSummary } from "./stream";
+
+export type MemoryStreamOptions = {
+  shardId?: string; // Defaults to one shard per table
+  batchSize?: number; // Records per processBatch call
+};
+
+/**
+ * Delivers the stream records a MemoryDocumentClient records for a table to
+ * a StreamProcessor, so handlers can be tested against the writes a
+ * Repository makes without DynamoDB Streams.
+ */
+export class MemoryStream {
+  private shardId: string;
+  private batchSize: number;
+  private position?: string; // Sequence number of the last delivered record
+
+  constructor(
+    private client: MemoryDocumentClient,
+    private tableName: string,
+    private processor: StreamProcessor,
+    {
+      shardId = `${tableName}/shard-0`,
+      batchSize = 100,
+    }: MemoryStreamOptions = {}
+  ) {
+    this.shardId = shardId;
+    this.batchSize = batchSize;
+  }
+
+  /**
+   * Delivers every record written since the last drain.
+   * @returns The summaries of all batches, added up.
+   */
+  async drain(): Promise<BatchSummary> {
+    const records = this.client.streamRecords(this.tableName, this.position);
+    const total: BatchSummary = { processed: 0, skipped: 0, deadLettered: 0 };
+
+    for (let i = 0; i < records.length; i += this.batchSize) {
+      const batch = records.slice(i, i + this.batchSize);
+      const summary = await this.processor.processBatch(this.shardId, batch);
+      total.processed += summary.processed;
+      total.skipped += summary.skipped;
+      total.deadLettered += summary.deadLettered;
+      total.checkpoint = summary.checkpoint;
+      this.position = batch[batch.length - 1].dynamodb.SequenceNumber;
+    }
+
+    return total;
+  }
+
+  /**
+   * Starts the next drain from the first record again, as a consumer does
+   * after losing its shard iterator. Checkpointed records are skipped.
+   */
+  rewind() {
+    this.position = undefined;
+  }
+}
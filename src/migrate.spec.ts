@@ -0,0 +1,212 @@
+import {
+  CreateTableCommand,
+  DescribeTableCommand,
+  DescribeTimeToLiveCommand,
+  TableDescription,
+  TimeToLiveDescription,
+  UpdateTableCommand,
+  UpdateTimeToLiveCommand,
+} from "@aws-sdk/client-dynamodb";
+import { migrate, planTable, describeStep } from "./migrate";
+import { TableDescriptor } from "./types";
+
+const table: TableDescriptor = {
+  tableName: "Books",
+  partitionKey: { name: "isbn", type: "S" },
+  indexes: [
+    {
+      name: "ByParent",
+      kind: "global",
+      partitionKey: { name: "parentId", type: "S" },
+      projection: { type: "ALL" },
+    },
+  ],
+  timeToLiveAttribute: "expiresAt",
+  stream: "NEW_AND_OLD_IMAGES",
+};
+
+// The description DynamoDB returns once `table` is fully migrated.
+const migrated: TableDescription = {
+  TableName: "Books",
+  TableStatus: "ACTIVE",
+  KeySchema: [{ AttributeName: "isbn", KeyType: "HASH" }],
+  GlobalSecondaryIndexes: [
+    {
+      IndexName: "ByParent",
+      IndexStatus: "ACTIVE",
+      KeySchema: [{ AttributeName: "parentId", KeyType: "HASH" }],
+      Projection: { ProjectionType: "ALL" },
+    },
+  ],
+  StreamSpecification: {
+    StreamEnabled: true,
+    StreamViewType: "NEW_AND_OLD_IMAGES",
+  },
+};
+
+const expiring: TimeToLiveDescription = {
+  TimeToLiveStatus: "ENABLED",
+  AttributeName: "expiresAt",
+};
+
+// Answers describe calls from a fixed description and records the rest.
+function fakeClient(description?: TableDescription) {
+  const sent: any[] = [];
+  const client = {
+    sent,
+    async send(command: any): Promise<any> {
+      if (command instanceof DescribeTableCommand) {
+        if (!description) {
+          throw Object.assign(new Error("Table not found"), {
+            name: "ResourceNotFoundException",
+          });
+        }
+        return { Table: description };
+      }
+      if (command instanceof DescribeTimeToLiveCommand) {
+        return { TimeToLiveDescription: expiring };
+      }
+      sent.push(command);
+      if (command instanceof CreateTableCommand) {
+        description = migrated;
+      }
+      return {};
+    },
+  };
+  return client;
+}
+
+describe("planTable", () => {
+  it("creates a missing table, then enables TTL", () => {
+    expect(planTable(table, undefined).map(describeStep)).toEqual([
+      "Books: create table",
+      "Books: enable TTL on expiresAt",
+    ]);
+  });
+
+  it("plans nothing for a table that matches", () => {
+    expect(planTable(table, migrated, expiring)).toEqual([]);
+  });
+
+  it("adds, removes and recreates global indexes", () => {
+    const declared: TableDescriptor = {
+      ...table,
+      indexes: [
+        {
+          ...table.indexes![0],
+          projection: { type: "INCLUDE", attributes: ["title"] },
+        },
+        {
+          name: "ByAuthor",
+          kind: "global",
+          partitionKey: { name: "author", type: "S" },
+          projection: { type: "KEYS_ONLY" },
+        },
+      ],
+    };
+    const described: TableDescription = {
+      ...migrated,
+      GlobalSecondaryIndexes: [
+        ...migrated.GlobalSecondaryIndexes!,
+        {
+          IndexName: "Obsolete",
+          KeySchema: [{ AttributeName: "genre", KeyType: "HASH" }],
+          Projection: { ProjectionType: "ALL" },
+        },
+      ],
+    };
+
+    expect(planTable(declared, described, expiring).map(describeStep)).toEqual([
+      "Books: delete index ByParent",
+      "Books: delete index Obsolete",
+      "Books: create index ByParent",
+      "Books: create index ByAuthor",
+    ]);
+  });
+
+  it("switches stream view type and TTL attribute", () => {
+    const described: TableDescription = {
+      ...migrated,
+      StreamSpecification: { StreamEnabled: true, StreamViewType: "KEYS_ONLY" },
+    };
+    const steps = planTable(table, described, {
+      TimeToLiveStatus: "ENABLED",
+      AttributeName: "ttl",
+    });
+
+    expect(steps.map(describeStep)).toEqual([
+      "Books: disable stream",
+      "Books: enable stream with NEW_AND_OLD_IMAGES",
+      "Books: disable TTL on ttl",
+      "Books: enable TTL on expiresAt",
+    ]);
+  });
+
+  it("refuses to change the primary key", () => {
+    const described: TableDescription = {
+      ...migrated,
+      KeySchema: [
+        { AttributeName: "isbn", KeyType: "HASH" },
+        { AttributeName: "edition", KeyType: "RANGE" },
+      ],
+    };
+
+    expect(planTable(table, described, expiring)).toEqual([
+      expect.objectContaining({ action: "unsupported" }),
+    ]);
+  });
+});
+
+describe("migrate", () => {
+  it("creates a missing table with its indexes and stream", async () => {
+    const client = fakeClient();
+    const steps = await migrate(client, [table], { pollIntervalMs: 0 });
+
+    expect(steps.map((step) => step.action)).toEqual([
+      "createTable",
+      "enableTimeToLive",
+    ]);
+    expect(client.sent).toHaveLength(2);
+    const [create, ttl] = client.sent;
+    expect(create).toBeInstanceOf(CreateTableCommand);
+    expect(create.input).toMatchObject({
+      TableName: "Books",
+      BillingMode: "PAY_PER_REQUEST",
+      AttributeDefinitions: [
+        { AttributeName: "isbn", AttributeType: "S" },
+        { AttributeName: "parentId", AttributeType: "S" },
+      ],
+      GlobalSecondaryIndexes: [
+        expect.objectContaining({ IndexName: "ByParent" }),
+      ],
+      StreamSpecification: {
+        StreamEnabled: true,
+        StreamViewType: "NEW_AND_OLD_IMAGES",
+      },
+    });
+    expect(ttl).toBeInstanceOf(UpdateTimeToLiveCommand);
+    expect(ttl.input.TimeToLiveSpecification).toEqual({
+      AttributeName: "expiresAt",
+      Enabled: true,
+    });
+  });
+
+  it("adds a missing index through UpdateTable", async () => {
+    const client = fakeClient({ ...migrated, GlobalSecondaryIndexes: [] });
+    await migrate(client, [table], { pollIntervalMs: 0 });
+
+    expect(client.sent).toHaveLength(1);
+    expect(client.sent[0]).toBeInstanceOf(UpdateTableCommand);
+    expect(
+      client.sent[0].input.GlobalSecondaryIndexUpdates[0].Create
+    ).toMatchObject({ IndexName: "ByParent" });
+  });
+
+  it("only reports the steps in a dry run", async () => {
+    const client = fakeClient();
+    const steps = await migrate(client, [table], { dryRun: true });
+
+    expect(steps).toHaveLength(2);
+    expect(client.sent).toEqual([]);
+  });
+});
@@ -0,0 +1,495 @@
+import {
+  AttributeDefinition,
+  CreateTableCommand,
+  DescribeTableCommand,
+  DescribeTimeToLiveCommand,
+  DynamoDBClient,
+  GlobalSecondaryIndexDescription,
+  KeySchemaElement,
+  LocalSecondaryIndexDescription,
+  Projection,
+  TableDescription,
+  TimeToLiveDescription,
+  UpdateTableCommand,
+  UpdateTimeToLiveCommand,
+} from "@aws-sdk/client-dynamodb";
+
+import { createDynamoDBClient } from "./client";
+import { loadConfig } from "./config";
+import { booksTable, reviewsTable, authorsTable } from "./schemas";
+import { catalogTable } from "./entities";
+import { outboxTable } from "./outbox";
+import { historyTable } from "./audit";
+import { sleep } from "./util-backoff";
+import {
+  IndexDescriptor,
+  IndexProjection,
+  KeyAttribute,
+  StreamViewType,
+  TableDescriptor,
+} from "./types";
+
+// Every table the application reads from or writes to.
+export const declaredTables: TableDescriptor[] = [
+  booksTable,
+  reviewsTable,
+  authorsTable,
+  catalogTable,
+  outboxTable,
+  historyTable,
+];
+
+// The part of the low-level client migrations need; lets tests inject a fake.
+export type TableClient = Pick<DynamoDBClient, "send">;
+
+export type MigrationStep =
+  | { action: "createTable"; table: TableDescriptor }
+  | { action: "createIndex"; table: TableDescriptor; index: IndexDescriptor }
+  | { action: "deleteIndex"; table: TableDescriptor; indexName: string }
+  | { action: "enableTimeToLive"; table: TableDescriptor; attribute: string }
+  | { action: "disableTimeToLive"; table: TableDescriptor; attribute: string }
+  | { action: "enableStream"; table: TableDescriptor; viewType: StreamViewType }
+  | { action: "disableStream"; table: TableDescriptor }
+  // Differences DynamoDB cannot apply to an existing table.
+  | { action: "unsupported"; table: TableDescriptor; reason: string };
+
+export type MigrateOptions = {
+  dryRun?: boolean; // Only report the steps, without changing any table
+  pollIntervalMs?: number; // Delay between checks while a table is updating
+};
+
+/**
+ * Compares a declared table with what DescribeTable and DescribeTimeToLive
+ * report for it and lists the steps that bring the table in line.
+ * GSIs whose keys or projection changed are deleted and created again.
+ * @param table The declared table.
+ * @param description The table as described, undefined when it does not exist.
+ * @param timeToLive The table's TTL setting, if it exists.
+ */
+export function planTable(
+  table: TableDescriptor,
+  description: TableDescription | undefined,
+  timeToLive?: TimeToLiveDescription
+): MigrationStep[] {
+  if (!description) {
+    return [
+      { action: "createTable", table },
+      ...(table.timeToLiveAttribute
+        ? [
+            {
+              action: "enableTimeToLive" as const,
+              table,
+              attribute: table.timeToLiveAttribute,
+            },
+          ]
+        : []),
+    ];
+  }
+
+  const steps: MigrationStep[] = [];
+
+  if (!sameKeySchema(description.KeySchema, table)) {
+    steps.push({
+      action: "unsupported",
+      table,
+      reason: "the primary key cannot change, recreate the table instead",
+    });
+  }
+
+  const declaredGlobal = globalIndexes(table);
+  const existingGlobal = description.GlobalSecondaryIndexes ?? [];
+  for (const existing of existingGlobal) {
+    const declared = declaredGlobal.find(
+      (index) => index.name === existing.IndexName
+    );
+    if (!declared || !sameIndex(existing, declared)) {
+      steps.push({
+        action: "deleteIndex",
+        table,
+        indexName: existing.IndexName!,
+      });
+    }
+  }
+  for (const index of declaredGlobal) {
+    const existing = existingGlobal.find(
+      (candidate) => candidate.IndexName === index.name
+    );
+    if (!existing || !sameIndex(existing, index)) {
+      steps.push({ action: "createIndex", table, index });
+    }
+  }
+
+  // Local indexes can only be created together with their table.
+  const declaredLocal = localIndexes(table);
+  const existingLocal = description.LocalSecondaryIndexes ?? [];
+  const localChanged =
+    declaredLocal.length !== existingLocal.length ||
+    declaredLocal.some((index) => {
+      const existing = existingLocal.find(
+        (candidate) => candidate.IndexName === index.name
+      );
+      return !existing || !sameIndex(existing, index);
+    });
+  if (localChanged) {
+    steps.push({
+      action: "unsupported",
+      table,
+      reason:
+        "local secondary indexes cannot change, recreate the table instead",
+    });
+  }
+
+  const streaming = description.StreamSpecification?.StreamEnabled
+    ? description.StreamSpecification.StreamViewType
+    : undefined;
+  if (streaming !== table.stream) {
+    // A stream's view type is changed by disabling it first.
+    if (streaming) {
+      steps.push({ action: "disableStream", table });
+    }
+    if (table.stream) {
+      steps.push({ action: "enableStream", table, viewType: table.stream });
+    }
+  }
+
+  const expiring =
+    timeToLive?.TimeToLiveStatus === "ENABLED" ||
+    timeToLive?.TimeToLiveStatus === "ENABLING"
+      ? timeToLive.AttributeName
+      : undefined;
+  if (expiring !== table.timeToLiveAttribute) {
+    if (expiring) {
+      steps.push({ action: "disableTimeToLive", table, attribute: expiring });
+    }
+    if (table.timeToLiveAttribute) {
+      steps.push({
+        action: "enableTimeToLive",
+        table,
+        attribute: table.timeToLiveAttribute,
+      });
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * Describes the declared tables and applies the steps that bring them in
+ * line, one at a time, waiting for each table to become active in between.
+ * Unsupported steps are reported but never applied.
+ * @param client Low-level DynamoDB client.
+ * @param tables The declared tables.
+ * @param options Whether to only report the steps, and how often to poll.
+ * @returns The steps that were applied, or would be in a dry run.
+ */
+export async function migrate(
+  client: TableClient,
+  tables: TableDescriptor[] = declaredTables,
+  { dryRun = false, pollIntervalMs = 1000 }: MigrateOptions = {}
+): Promise<MigrationStep[]> {
+  const steps: MigrationStep[] = [];
+
+  for (const table of tables) {
+    const description = await describeTable(client, table.tableName);
+    const timeToLive = description
+      ? (
+          await client.send(
+            new DescribeTimeToLiveCommand({ TableName: table.tableName })
+          )
+        ).TimeToLiveDescription
+      : undefined;
+    const planned = planTable(table, description, timeToLive);
+    steps.push(...planned);
+
+    if (dryRun) {
+      continue;
+    }
+    for (const step of planned) {
+      if (step.action === "unsupported") {
+        continue;
+      }
+      await applyStep(client, step);
+      await waitUntilActive(client, table.tableName, pollIntervalMs);
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * A one-line, human readable account of a step.
+ */
+export function describeStep(step: MigrationStep): string {
+  const { tableName } = step.table;
+  switch (step.action) {
+    case "createTable":
+      return `${tableName}: create table`;
+    case "createIndex":
+      return `${tableName}: create index ${step.index.name}`;
+    case "deleteIndex":
+      return `${tableName}: delete index ${step.indexName}`;
+    case "enableTimeToLive":
+      return `${tableName}: enable TTL on ${step.attribute}`;
+    case "disableTimeToLive":
+      return `${tableName}: disable TTL on ${step.attribute}`;
+    case "enableStream":
+      return `${tableName}: enable stream with ${step.viewType}`;
+    case "disableStream":
+      return `${tableName}: disable stream`;
+    case "unsupported":
+      return `${tableName}: cannot migrate, ${step.reason}`;
+  }
+}
+
+async function applyStep(client: TableClient, step: MigrationStep) {
+  const { table } = step;
+  switch (step.action) {
+    case "createTable":
+      await client.send(
+        new CreateTableCommand({
+          TableName: table.tableName,
+          BillingMode: "PAY_PER_REQUEST",
+          AttributeDefinitions: attributeDefinitions([
+            table.partitionKey,
+            table.sortKey,
+            ...(table.indexes ?? []).flatMap((index) => [
+              index.partitionKey,
+              index.sortKey,
+            ]),
+          ]),
+          KeySchema: keySchema(table.partitionKey, table.sortKey),
+          GlobalSecondaryIndexes: optional(
+            globalIndexes(table).map((index) => ({
+              IndexName: index.name,
+              KeySchema: keySchema(index.partitionKey, index.sortKey),
+              Projection: projection(index.projection),
+            }))
+          ),
+          LocalSecondaryIndexes: optional(
+            localIndexes(table).map((index) => ({
+              IndexName: index.name,
+              KeySchema: keySchema(index.partitionKey, index.sortKey),
+              Projection: projection(index.projection),
+            }))
+          ),
+          StreamSpecification: table.stream
+            ? { StreamEnabled: true, StreamViewType: table.stream }
+            : undefined,
+        })
+      );
+      return;
+    case "createIndex":
+      await client.send(
+        new UpdateTableCommand({
+          TableName: table.tableName,
+          AttributeDefinitions: attributeDefinitions([
+            table.partitionKey,
+            table.sortKey,
+            step.index.partitionKey,
+            step.index.sortKey,
+          ]),
+          GlobalSecondaryIndexUpdates: [
+            {
+              Create: {
+                IndexName: step.index.name,
+                KeySchema: keySchema(
+                  step.index.partitionKey,
+                  step.index.sortKey
+                ),
+                Projection: projection(step.index.projection),
+              },
+            },
+          ],
+        })
+      );
+      return;
+    case "deleteIndex":
+      await client.send(
+        new UpdateTableCommand({
+          TableName: table.tableName,
+          GlobalSecondaryIndexUpdates: [
+            { Delete: { IndexName: step.indexName } },
+          ],
+        })
+      );
+      return;
+    case "enableTimeToLive":
+    case "disableTimeToLive":
+      await client.send(
+        new UpdateTimeToLiveCommand({
+          TableName: table.tableName,
+          TimeToLiveSpecification: {
+            AttributeName: step.attribute,
+            Enabled: step.action === "enableTimeToLive",
+          },
+        })
+      );
+      return;
+    case "enableStream":
+      await client.send(
+        new UpdateTableCommand({
+          TableName: table.tableName,
+          StreamSpecification: {
+            StreamEnabled: true,
+            StreamViewType: step.viewType,
+          },
+        })
+      );
+      return;
+    case "disableStream":
+      await client.send(
+        new UpdateTableCommand({
+          TableName: table.tableName,
+          StreamSpecification: { StreamEnabled: false },
+        })
+      );
+      return;
+    case "unsupported":
+      return;
+  }
+}
+
+async function describeTable(
+  client: TableClient,
+  tableName: string
+): Promise<TableDescription | undefined> {
+  try {
+    const { Table } = await client.send(
+      new DescribeTableCommand({ TableName: tableName })
+    );
+    return Table;
+  } catch (error) {
+    if ((error as { name?: string })?.name === "ResourceNotFoundException") {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+// DynamoDB refuses further updates while the table or an index is changing.
+async function waitUntilActive(
+  client: TableClient,
+  tableName: string,
+  pollIntervalMs: number
+) {
+  for (;;) {
+    const description = await describeTable(client, tableName);
+    const indexesActive = (description?.GlobalSecondaryIndexes ?? []).every(
+      (index) => index.IndexStatus === "ACTIVE"
+    );
+    if (description?.TableStatus === "ACTIVE" && indexesActive) {
+      return;
+    }
+    await sleep(pollIntervalMs);
+  }
+}
+
+function globalIndexes(table: TableDescriptor): IndexDescriptor[] {
+  return (table.indexes ?? []).filter((index) => index.kind === "global");
+}
+
+function localIndexes(table: TableDescriptor): IndexDescriptor[] {
+  return (table.indexes ?? []).filter((index) => index.kind === "local");
+}
+
+function keySchema(
+  partitionKey: KeyAttribute,
+  sortKey?: KeyAttribute
+): KeySchemaElement[] {
+  return [
+    { AttributeName: partitionKey.name, KeyType: "HASH" },
+    ...(sortKey
+      ? [{ AttributeName: sortKey.name, KeyType: "RANGE" as const }]
+      : []),
+  ];
+}
+
+// Each key attribute once, however many indexes share it.
+function attributeDefinitions(
+  attributes: (KeyAttribute | undefined)[]
+): AttributeDefinition[] {
+  const definitions = new Map<string, AttributeDefinition>();
+  for (const attribute of attributes) {
+    if (attribute) {
+      definitions.set(attribute.name, {
+        AttributeName: attribute.name,
+        AttributeType: attribute.type,
+      });
+    }
+  }
+  return [...definitions.values()];
+}
+
+function projection(declared: IndexProjection): Projection {
+  return declared.type === "INCLUDE"
+    ? { ProjectionType: "INCLUDE", NonKeyAttributes: declared.attributes }
+    : { ProjectionType: declared.type };
+}
+
+function sameKeySchema(
+  described: KeySchemaElement[] | undefined,
+  declared: { partitionKey: KeyAttribute; sortKey?: KeyAttribute }
+): boolean {
+  const expected = keySchema(declared.partitionKey, declared.sortKey);
+  return (
+    described?.length === expected.length &&
+    expected.every(
+      (element, i) =>
+        described[i].AttributeName === element.AttributeName &&
+        described[i].KeyType === element.KeyType
+    )
+  );
+}
+
+function sameIndex(
+  described: GlobalSecondaryIndexDescription | LocalSecondaryIndexDescription,
+  declared: IndexDescriptor
+): boolean {
+  const expected = projection(declared.projection);
+  const nonKeyAttributes = (attributes?: string[]) =>
+    JSON.stringify([...(attributes ?? [])].sort());
+  return (
+    sameKeySchema(described.KeySchema, declared) &&
+    described.Projection?.ProjectionType === expected.ProjectionType &&
+    nonKeyAttributes(described.Projection?.NonKeyAttributes) ===
+      nonKeyAttributes(expected.NonKeyAttributes)
+  );
+}
+
+function optional<V>(values: V[]): V[] | undefined {
+  return values.length > 0 ? values : undefined;
+}
+
+if (require.main === module) {
+  const dryRun = process.argv.includes("--dry-run");
+  const config = loadConfig();
+  // The tables under the names this deployment gives them.
+  const names: Record<string, string> = {
+    [booksTable.tableName]: config.tables.books,
+    [reviewsTable.tableName]: config.tables.reviews,
+    [authorsTable.tableName]: config.tables.authors,
+    [outboxTable.tableName]: config.tables.outbox,
+    [historyTable.tableName]: config.tables.history,
+  };
+  const tables = declaredTables.map((table) => ({
+    ...table,
+    tableName: names[table.tableName] ?? table.tableName,
+  }));
+
+  migrate(createDynamoDBClient(config.dynamodb), tables, { dryRun })
+    .then((steps) => {
+      if (steps.length === 0) {
+        console.log("Tables are up to date.");
+      }
+      for (const step of steps) {
+        console.log(`${dryRun ? "[dry run] " : ""}${describeStep(step)}`);
+      }
+      if (steps.some((step) => step.action === "unsupported")) {
+        process.exitCode = 1;
+      }
+    })
+    .catch((error) => {
+      console.error("Migration failed:", error);
+      process.exitCode = 1;
+    });
+}
@@ -0,0 +1,205 @@
+import { MemoryDocumentClient } from "./memory-client";
+import { Repository } from "./respo";
+import { booksTable } from "./schemas";
+import { JsonLogger, MetricsRegistry } from "./observability";
+import { LruCacheStore, ReadCache } from "./cache";
+
+type Item = Record<string, any>;
+
+const dune = {
+  title: "Dune",
+  author: "Frank Herbert",
+  isbn: "9780441013593",
+  publicationDate: "1965-08-01",
+  genre: "Science Fiction",
+  price: 9.99,
+};
+
+describe("JsonLogger", () => {
+  let lines: Record<string, any>[];
+  const logger = (options = {}) =>
+    new JsonLogger({
+      write: (line) => lines.push(JSON.parse(line)),
+      now: () => new Date("2024-01-01T00:00:00.000Z"),
+      ...options,
+    });
+
+  beforeEach(() => {
+    lines = [];
+  });
+
+  it("writes entries at or above its level with the fields of its parents", () => {
+    const log = logger({ level: "info" }).child({ correlationId: "c-1" });
+    log.debug("Dropped.");
+    log.info("Kept.", { table: "BooksTable" });
+
+    expect(lines).toEqual([
+      {
+        time: "2024-01-01T00:00:00.000Z",
+        level: "info",
+        message: "Kept.",
+        correlationId: "c-1",
+        table: "BooksTable",
+      },
+    ]);
+  });
+
+  it("redacts attributes and logs errors without their payload", () => {
+    const error = Object.assign(new Error("Rate exceeded"), {
+      name: "ThrottlingException",
+      $response: { body: "secret" },
+    });
+    const item: Record<string, any> = { ...dune, nested: [{ price: 1 }] };
+    item.self = item;
+
+    logger({ redact: ["price"] }).error("Failed.", { item, error });
+
+    expect(lines[0].item).toMatchObject({
+      title: "Dune",
+      price: "[REDACTED]",
+      nested: [{ price: "[REDACTED]" }],
+      self: "[Circular]",
+    });
+    expect(lines[0].error).toEqual({
+      name: "ThrottlingException",
+      message: "Rate exceeded",
+      stack: expect.any(String),
+    });
+  });
+});
+
+describe("MetricsRegistry", () => {
+  it("renders counters and histograms in the text exposition format", () => {
+    const metrics = new MetricsRegistry();
+    metrics.counter("jobs_total", "Jobs.").inc({ queue: 'say "hi"' }, 2);
+    metrics.histogram("job_seconds", "Job latency.", [0.1, 1]).observe({}, 0.5);
+
+    expect(
+      metrics.counter("jobs_total", "Jobs.").value({ queue: 'say "hi"' })
+    ).toBe(2);
+    expect(metrics.render()).toBe(
+      [
+        "# HELP jobs_total Jobs.",
+        "# TYPE jobs_total counter",
+        'jobs_total{queue="say \\"hi\\""} 2',
+        "# HELP job_seconds Job latency.",
+        "# TYPE job_seconds histogram",
+        'job_seconds_bucket{le="0.1"} 0',
+        'job_seconds_bucket{le="1"} 1',
+        'job_seconds_bucket{le="+Inf"} 1',
+        "job_seconds_sum 0.5",
+        "job_seconds_count 1",
+        "",
+      ].join("\n")
+    );
+    expect(() => metrics.histogram("jobs_total", "Jobs.")).toThrow(
+      "already registered"
+    );
+  });
+});
+
+describe("Repository observability", () => {
+  let client: MemoryDocumentClient;
+  let metrics: MetricsRegistry;
+  let lines: Record<string, any>[];
+  let books: Repository<Item>;
+
+  beforeEach(() => {
+    client = new MemoryDocumentClient([booksTable]);
+    metrics = new MetricsRegistry();
+    lines = [];
+    // The in-memory client does not report capacity; DynamoDB would.
+    const reporting = {
+      send: async (command: any) => ({
+        ...(await client.send(command)),
+        ConsumedCapacity: command.input.ReturnConsumedCapacity && {
+          TableName: booksTable.tableName,
+          CapacityUnits: 1,
+        },
+      }),
+    };
+    books = new Repository<Item>(booksTable, reporting as any, {
+      retry: { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1 },
+      observability: {
+        metrics,
+        logger: new JsonLogger({
+          level: "debug",
+          redact: ["price"],
+          write: (line) => lines.push(JSON.parse(line)),
+        }),
+      },
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("records latency, capacity, item counts and retries of every request", async () => {
+    await books.putItem(dune);
+    jest.spyOn(client, "send").mockRejectedValueOnce(
+      Object.assign(new Error("Rate exceeded"), {
+        name: "ProvisionedThroughputExceededException",
+      })
+    );
+    await books
+      .withAuditContext({ actor: "a", correlationId: "c-1" })
+      .scanPage();
+
+    const get = { table: "BooksTable", operation: "Scan" };
+    const requests = metrics.counter("dynamodb_requests_total", "");
+    expect(requests.value({ ...get, outcome: "success" })).toBe(1);
+    expect(
+      requests.value({
+        ...get,
+        outcome: "ProvisionedThroughputExceededException",
+      })
+    ).toBe(1);
+    expect(metrics.counter("dynamodb_items_total", "").value(get)).toBe(1);
+    expect(
+      metrics.counter("dynamodb_consumed_capacity_units_total", "").value(get)
+    ).toBe(1);
+    expect(
+      metrics.counter("repository_retries_total", "").value({
+        table: "BooksTable",
+      })
+    ).toBe(1);
+    expect(metrics.render()).toContain(
+      'repository_call_duration_seconds_count{table="BooksTable"} 2'
+    );
+
+    expect(lines).toContainEqual(
+      expect.objectContaining({
+        level: "debug",
+        message: "DynamoDB request succeeded.",
+        operation: "Scan",
+        correlationId: "c-1",
+        items: 1,
+        consumedCapacity: 1,
+      })
+    );
+    expect(JSON.stringify(lines)).not.toContain("9.99");
+  });
+
+  it("counts the reads and invalidations of the read cache by table", async () => {
+    const cached = new Repository<Item>(booksTable, client, {
+      cache: new ReadCache(new LruCacheStore(), {
+        metrics,
+        table: "BooksTable",
+      }),
+    });
+    const key = { isbn: dune.isbn };
+    await cached.putItem(dune);
+    await cached.getItem(key);
+    await cached.getItem(key);
+    await cached.updateItem(key, { price: 1 });
+
+    const table = { table: "BooksTable" };
+    expect(metrics.counter("cache_hits_total", "").value(table)).toBe(1);
+    expect(metrics.counter("cache_misses_total", "").value(table)).toBe(1);
+    expect(metrics.counter("cache_invalidations_total", "").value(table)).toBe(
+      1
+    );
+    expect(metrics.render()).toContain("# TYPE cache_errors_total counter");
+  });
+});
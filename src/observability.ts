@@ -0,0 +1,503 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+export type Logger = {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // A logger adding the given fields to every entry, e.g. a correlation id.
+  child(fields: LogFields): Logger;
+};
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+const REDACTED = "[REDACTED]";
+
+export type JsonLoggerOptions = {
+  level?: LogLevel; // Entries below it are dropped, "info" by default
+  redact?: string[]; // Attributes whose values are replaced at any depth, e.g. "price"
+  write?: (line: string) => void; // Where the lines go, stdout by default
+  now?: () => Date;
+};
+
+/**
+ * Writes one JSON object per entry, holding the time, level, message and
+ * fields. Errors are logged by name and message, without the requests,
+ * items or keys an SDK error may carry, and the values of the `redact`
+ * attributes never leave the process.
+ */
+export class JsonLogger {
+  private level: number;
+  private redacted: Set<string>;
+  private write: (line: string) => void;
+  private now: () => Date;
+
+  constructor(
+    private options: JsonLoggerOptions = {},
+    private fields: LogFields = {}
+  ) {
+    const {
+      level = "info",
+      redact = [],
+      write = (line) => process.stdout.write(`${line}\n`),
+      now = () => new Date(),
+    } = options;
+    this.level = LEVELS[level];
+    this.redacted = new Set(redact);
+    this.write = write;
+    this.now = now;
+  }
+
+  debug(message: string, fields?: LogFields) {
+    this.log("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields) {
+    this.log("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields) {
+    this.log("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields) {
+    this.log("error", message, fields);
+  }
+
+  child(fields: LogFields): JsonLogger {
+    return new JsonLogger(this.options, { ...this.fields, ...fields });
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields = {}) {
+    if (LEVELS[level] < this.level) {
+      return;
+    }
+    const entry = {
+      time: this.now().toISOString(),
+      level,
+      message,
+      ...this.fields,
+      ...fields,
+    };
+    this.write(JSON.stringify(this.sanitize(entry, new WeakSet())));
+  }
+
+  // Redacts attributes, reduces errors to what is safe to log and cuts cycles.
+  private sanitize(value: unknown, seen: WeakSet<object>): unknown {
+    if (typeof value === "bigint") {
+      return value.toString();
+    }
+    if (typeof value !== "object" || value === null) {
+      return value;
+    }
+    if (seen.has(value)) {
+      return "[Circular]";
+    }
+    seen.add(value);
+    if (value instanceof Error) {
+      const { operation } = value as { operation?: string };
+      return {
+        name: value.name,
+        message: value.message,
+        ...(operation !== undefined && { operation }),
+        ...(value.stack !== undefined && { stack: value.stack }),
+      };
+    }
+    if (Array.isArray(value)) {
+      return value.map((element) => this.sanitize(element, seen));
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([name, element]) => [
+        name,
+        this.redacted.has(name) ? REDACTED : this.sanitize(element, seen),
+      ])
+    );
+  }
+}
+
+// Used where no logger is configured.
+export const defaultLogger: Logger = new JsonLogger();
+
+type Labels = Record<string, string>;
+
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+// Label sets in the exposition format, e.g. {table="Books",operation="Query"}.
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) =>
+      `${name}="${value
+        .replace(/\\/g, "\\\\")
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, "\\n")}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+// A value that only goes up, per label set.
+export class Counter {
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, value = 1) {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  // The current value for a label set, 0 before the first increment.
+  value(labels: Labels = {}): number {
+    return this.values.get(formatLabels(labels)) ?? 0;
+  }
+
+  render(): string[] {
+    return [...this.values].map(
+      ([labels, value]) => `${this.name}${labels} ${value}`
+    );
+  }
+}
+
+// Counts observations into cumulative buckets, per label set.
+export class Histogram {
+  private series = new Map<
+    string,
+    { labels: Labels; buckets: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private bounds: number[] = DEFAULT_BUCKETS
+  ) {}
+
+  observe(labels: Labels, value: number) {
+    const key = formatLabels(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = {
+        labels,
+        buckets: this.bounds.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.series.set(key, series);
+    }
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) {
+        series!.buckets[index] += 1;
+      }
+    });
+    series.sum += value;
+    series.count += 1;
+  }
+
+  render(): string[] {
+    return [...this.series.values()].flatMap(
+      ({ labels, buckets, sum, count }) => [
+        ...this.bounds.map(
+          (bound, index) =>
+            `${this.name}_bucket${formatLabels({
+              ...labels,
+              le: String(bound),
+            })} ${buckets[index]}`
+        ),
+        `${this.name}_bucket${formatLabels({
+          ...labels,
+          le: "+Inf",
+        })} ${count}`,
+        `${this.name}_sum${formatLabels(labels)} ${sum}`,
+        `${this.name}_count${formatLabels(labels)} ${count}`,
+      ]
+    );
+  }
+}
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * Holds the metrics of a process and renders them in the Prometheus text
+ * exposition format. Asking for a metric that exists returns it, so
+ * repositories sharing a registry share their metrics.
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Counter | Histogram>();
+
+  counter(name: string, help: string): Counter {
+    return this.register(name, Counter, () => new Counter(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(
+      name,
+      Histogram,
+      () => new Histogram(name, help, buckets)
+    );
+  }
+
+  render(): string {
+    return [...this.metrics.values()]
+      .flatMap((metric) => [
+        `# HELP ${metric.name} ${metric.help}`,
+        `# TYPE ${metric.name} ${
+          metric instanceof Counter ? "counter" : "histogram"
+        }`,
+        ...metric.render(),
+      ])
+      .map((line) => `${line}\n`)
+      .join("");
+  }
+
+  private register<M extends Counter | Histogram>(
+    name: string,
+    type: new (...args: any[]) => M,
+    create: () => M
+  ): M {
+    const existing = this.metrics.get(name);
+    if (existing && !(existing instanceof type)) {
+      throw new Error(`Metric ${name} is already registered as another type.`);
+    }
+    if (!existing) {
+      this.metrics.set(name, create());
+    }
+    return this.metrics.get(name) as M;
+  }
+}
+
+export type SpanAttributes = Record<
+  string,
+  string | number | boolean | string[] | undefined
+>;
+
+// The parts of an OpenTelemetry span and tracer that are used here, so a
+// tracer of @opentelemetry/api can be passed as is.
+export type Span = {
+  setAttribute(
+    key: string,
+    value: string | number | boolean | string[]
+  ): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): void;
+  end(): void;
+};
+
+export type Tracer = {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: SpanAttributes }
+  ): Span;
+};
+
+// Values of OpenTelemetry's SpanKind.CLIENT and SpanStatusCode.ERROR.
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+export type Observability = {
+  logger?: Logger; // defaultLogger unless given
+  metrics?: MetricsRegistry; // No metrics are recorded unless given
+  tracer?: Tracer; // No spans are recorded unless given
+};
+
+// The names of the operations in DynamoDB's API, by document client command.
+const OPERATIONS: Record<string, string> = {
+  GetCommand: "GetItem",
+  PutCommand: "PutItem",
+  UpdateCommand: "UpdateItem",
+  DeleteCommand: "DeleteItem",
+  QueryCommand: "Query",
+  ScanCommand: "Scan",
+  BatchGetCommand: "BatchGetItem",
+  BatchWriteCommand: "BatchWriteItem",
+  TransactGetCommand: "TransactGetItems",
+  TransactWriteCommand: "TransactWriteItems",
+};
+
+// The DynamoDB operation a command performs, e.g. "GetItem".
+export function operationOf(command: any): string {
+  const name = String(command?.constructor?.name);
+  return OPERATIONS[name] ?? name.replace(/Command$/, "");
+}
+
+type ConsumedCapacity = { TableName?: string; CapacityUnits?: number };
+
+/**
+ * Records the DynamoDB requests of a Repository: each request becomes a
+ * client span named after its operation, e.g. "DynamoDB.GetItem", with the
+ * attributes OpenTelemetry's conventions for AWS SDK calls give it, and its
+ * latency, outcome, consumed capacity and item count become metrics.
+ * Requests ask DynamoDB for their consumed capacity to that end.
+ */
+export class DynamoDBInstrumentation {
+  private requests?: Counter;
+  private duration?: Histogram;
+  private capacity?: Counter;
+  private items?: Counter;
+  private retries?: Counter;
+  private callDuration?: Histogram;
+  private tracer?: Tracer;
+
+  constructor(private tableName: string, { metrics, tracer }: Observability) {
+    this.tracer = tracer;
+    this.requests = metrics?.counter(
+      "dynamodb_requests_total",
+      "DynamoDB requests by table, operation and outcome."
+    );
+    this.duration = metrics?.histogram(
+      "dynamodb_request_duration_seconds",
+      "Latency of single DynamoDB requests."
+    );
+    this.capacity = metrics?.counter(
+      "dynamodb_consumed_capacity_units_total",
+      "Capacity units DynamoDB reported as consumed."
+    );
+    this.items = metrics?.counter(
+      "dynamodb_items_total",
+      "Items DynamoDB requests read or wrote."
+    );
+    this.retries = metrics?.counter(
+      "repository_retries_total",
+      "Repeated DynamoDB requests of Repository calls."
+    );
+    this.callDuration = metrics?.histogram(
+      "repository_call_duration_seconds",
+      "Latency of Repository calls to DynamoDB, including retries."
+    );
+  }
+
+  /**
+   * Sends a command, recording it.
+   * @param send Sends the command through the repository's client.
+   * @param attributes Further span attributes, e.g. the correlation id.
+   * @returns The result, and what was recorded about it for logging.
+   */
+  async send<R>(
+    command: any,
+    send: (command: any) => Promise<R>,
+    attributes: SpanAttributes = {}
+  ): Promise<{ result: R; record: LogFields }> {
+    const operation = operationOf(command);
+    const labels = { table: this.tableName, operation };
+    if (command?.input && (this.requests || this.tracer)) {
+      command.input.ReturnConsumedCapacity ??= "TOTAL";
+    }
+    const span = this.tracer?.startSpan(`DynamoDB.${operation}`, {
+      kind: SPAN_KIND_CLIENT,
+      attributes: {
+        "rpc.system": "aws-api",
+        "rpc.service": "DynamoDB",
+        "rpc.method": operation,
+        "db.system": "dynamodb",
+        "aws.dynamodb.table_names": tableNames(command?.input),
+        ...attributes,
+      },
+    });
+    const startedAt = performance.now();
+    const seconds = () => (performance.now() - startedAt) / 1000;
+
+    try {
+      const result: any = await send(command);
+      const duration = seconds();
+      const consumed: ConsumedCapacity[] = [result?.ConsumedCapacity ?? []]
+        .flat()
+        .filter(Boolean);
+      const items = itemCount(operation, command?.input, result);
+      this.requests?.inc({ ...labels, outcome: "success" });
+      this.duration?.observe(labels, duration);
+      this.items?.inc(labels, items);
+      for (const { TableName = this.tableName, CapacityUnits } of consumed) {
+        this.capacity?.inc({ table: TableName, operation }, CapacityUnits ?? 0);
+      }
+
+      span?.setAttribute("aws.dynamodb.count", items);
+      if (result?.ScannedCount !== undefined) {
+        span?.setAttribute("aws.dynamodb.scanned_count", result.ScannedCount);
+      }
+      if (consumed.length > 0) {
+        span?.setAttribute(
+          "aws.dynamodb.consumed_capacity",
+          consumed.map((capacity) => JSON.stringify(capacity))
+        );
+      }
+      return {
+        result,
+        record: {
+          operation,
+          durationMs: Math.round(duration * 1000),
+          items,
+          consumedCapacity: consumed.reduce(
+            (sum, { CapacityUnits = 0 }) => sum + CapacityUnits,
+            0
+          ),
+        },
+      };
+    } catch (error) {
+      this.requests?.inc({
+        ...labels,
+        outcome: (error as Error)?.name ?? "Error",
+      });
+      this.duration?.observe(labels, seconds());
+      if (error instanceof Error) {
+        span?.recordException(error);
+      }
+      span?.setStatus({
+        code: SPAN_STATUS_ERROR,
+        message: (error as Error)?.name,
+      });
+      throw error;
+    } finally {
+      span?.end();
+    }
+  }
+
+  // Records a Repository call once it succeeded or gave up.
+  recordCall(durationSeconds: number, attempts: number) {
+    this.callDuration?.observe({ table: this.tableName }, durationSeconds);
+    if (attempts > 1) {
+      this.retries?.inc({ table: this.tableName }, attempts - 1);
+    }
+  }
+}
+
+function tableNames(input: any): string[] {
+  if (input?.TableName) {
+    return [input.TableName];
+  }
+  if (input?.RequestItems) {
+    return Object.keys(input.RequestItems);
+  }
+  const names = (input?.TransactItems ?? []).map(
+    (item: any) => (Object.values(item)[0] as any)?.TableName
+  );
+  return [...new Set<string>(names.filter(Boolean))];
+}
+
+// How many items a request read or wrote.
+function itemCount(operation: string, input: any, result: any): number {
+  switch (operation) {
+    case "GetItem":
+      return result?.Item ? 1 : 0;
+    case "Query":
+    case "Scan":
+      return result?.Count ?? result?.Items?.length ?? 0;
+    case "BatchGetItem":
+      return Object.values(result?.Responses ?? {}).flat().length;
+    case "TransactGetItems":
+      return (result?.Responses ?? []).filter((response: any) => response.Item)
+        .length;
+    case "BatchWriteItem":
+      return (
+        Object.values(input?.RequestItems ?? {}).flat().length -
+        Object.values(result?.UnprocessedItems ?? {}).flat().length
+      );
+    case "TransactWriteItems":
+      return input?.TransactItems?.length ?? 0;
+    default:
+      return 1;
+  }
+}
@@ -0,0 +1,120 @@
+import { MemoryDocumentClient } from "./memory-client";
+import { MemoryStream } from "./memory-stream";
+import { Repository } from "./respo";
+import { StreamProcessor } from "./stream";
+import {
+  outboxTable,
+  OutboxRelay,
+  MemorySink,
+  WebhookSink,
+  OutboxEvent,
+} from "./outbox";
+import { OutboxItem } from "./types";
+
+const pending: OutboxItem = {
+  eventId: "event-1",
+  type: "BookCreated",
+  payload: { isbn: "9780441013593" },
+  source: "BooksTable",
+  occurredAt: "2024-01-01T00:00:00.000Z",
+  status: "pending",
+  attempts: 0,
+};
+
+describe("OutboxRelay", () => {
+  let client: MemoryDocumentClient;
+  let outbox: Repository<OutboxItem>;
+  let sink: MemorySink;
+
+  beforeEach(() => {
+    client = new MemoryDocumentClient([outboxTable]);
+    outbox = new Repository<OutboxItem>(outboxTable, client);
+    sink = new MemorySink();
+  });
+
+  it("delivers pending events and marks them delivered", async () => {
+    await outbox.putItem(pending);
+    await outbox.putItem({ ...pending, eventId: "event-2", status: "failed" });
+    const relay = new OutboxRelay(outbox, [sink]);
+
+    await expect(relay.relayPending()).resolves.toEqual({
+      delivered: 1,
+      retrying: 0,
+      failed: 0,
+    });
+    expect(sink.events).toEqual([
+      expect.objectContaining({ id: "event-1", type: "BookCreated" }),
+    ]);
+    expect(await outbox.getItem({ eventId: "event-1" })).toMatchObject({
+      status: "delivered",
+      attempts: 1,
+      deliveredAt: expect.any(String),
+    });
+
+    await expect(relay.relayPending()).resolves.toMatchObject({
+      delivered: 0,
+    });
+  });
+
+  it("retries failed deliveries until maxAttempts", async () => {
+    await outbox.putItem(pending);
+    const failing = {
+      name: "failing",
+      deliver: jest.fn().mockRejectedValue(new Error("Unavailable")),
+    };
+    const relay = new OutboxRelay(outbox, [sink, failing], { maxAttempts: 2 });
+
+    await expect(relay.relayPending()).resolves.toMatchObject({
+      retrying: 1,
+    });
+    await expect(relay.relayPending()).resolves.toMatchObject({ failed: 1 });
+    expect(await outbox.getItem({ eventId: "event-1" })).toMatchObject({
+      status: "failed",
+      attempts: 2,
+      lastError: "Unavailable",
+    });
+    // The first sink saw the event twice but kept it once.
+    expect(sink.events).toHaveLength(1);
+  });
+
+  it("delivers events from the outbox stream", async () => {
+    const relay = new OutboxRelay(outbox, [sink]);
+    const processor = new StreamProcessor().on(relay.streamHandler());
+    const stream = new MemoryStream(client, "OutboxTable", processor);
+
+    await outbox.putItem(pending);
+    await stream.drain();
+
+    expect(sink.events).toHaveLength(1);
+    expect(await outbox.getItem({ eventId: "event-1" })).toMatchObject({
+      status: "delivered",
+    });
+  });
+});
+
+describe("WebhookSink", () => {
+  const event: OutboxEvent = {
+    id: "event-1",
+    type: "BookCreated",
+    payload: {},
+    source: "BooksTable",
+    occurredAt: "2024-01-01T00:00:00.000Z",
+  };
+
+  it("posts the event with its id as idempotency key", async () => {
+    const send = jest.fn().mockResolvedValue({ ok: true, status: 204 });
+    await new WebhookSink("https://example.test/hooks", send).deliver(event);
+    expect(send).toHaveBeenCalledWith("https://example.test/hooks", {
+      method: "POST",
+      headers: expect.objectContaining({ "Idempotency-Key": "event-1" }),
+      body: JSON.stringify(event),
+    });
+  });
+
+  it("fails on an unsuccessful response", async () => {
+    const send = jest.fn().mockResolvedValue({ ok: false, status: 503 });
+    await expect(
+      new WebhookSink("https://example.test/hooks", send).deliver(event)
+    ).rejects.toThrow("503");
+  });
+});
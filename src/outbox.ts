@@ -0,0 +1,240 @@
+import { appendFile } from "fs/promises";
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+
+import { Repository } from "./respo";
+import { createDynamoDBClient } from "./client";
+import { loadConfig } from "./config";
+import { attribute } from "./util-condition";
+import { update } from "./util-expression";
+import { sleep } from "./util-backoff";
+import { defineStreamHandler, StreamHandler } from "./stream";
+import { OutboxItem, TableDescriptor } from "./types";
+import { z } from "zod";
+
+// Pending events are read through the status index, oldest first.
+export const outboxTable: TableDescriptor = {
+  tableName: "OutboxTable",
+  partitionKey: { name: "eventId", type: "S" },
+  indexes: [
+    {
+      name: "StatusIndex",
+      kind: "global",
+      partitionKey: { name: "status", type: "S" },
+      sortKey: { name: "occurredAt", type: "S" },
+      projection: { type: "ALL" },
+    },
+  ],
+  stream: "NEW_IMAGE",
+};
+
+const OutboxItemSchema = z.object({
+  eventId: z.string(),
+  type: z.string(),
+  payload: z.record(z.any()),
+  source: z.string(),
+  occurredAt: z.string(),
+  status: z.enum(["pending", "delivered", "failed"]),
+  attempts: z.number().int(),
+  lastError: z.string().optional(),
+  deliveredAt: z.string().optional(),
+});
+
+// What sinks receive; `id` is stable across redeliveries, for deduplication.
+export type OutboxEvent = {
+  id: string;
+  type: string;
+  payload: Record<string, any>;
+  source: string;
+  occurredAt: string;
+};
+
+export type OutboxSink = {
+  name: string;
+  deliver(event: OutboxEvent): Promise<void>;
+};
+
+/**
+ * POSTs each event as JSON to a webhook, with the event id in an
+ * Idempotency-Key header. Any non-2xx response counts as a failure.
+ */
+export class WebhookSink {
+  readonly name = "webhook";
+
+  constructor(private url: string, private send: typeof fetch = fetch) {}
+
+  async deliver(event: OutboxEvent) {
+    const response = await this.send(this.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Idempotency-Key": event.id,
+      },
+      body: JSON.stringify(event),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook answered ${response.status}.`);
+    }
+  }
+}
+
+// Appends each event to a file as one line of JSON.
+export class FileSink {
+  readonly name = "file";
+
+  constructor(private path: string) {}
+
+  async deliver(event: OutboxEvent) {
+    await appendFile(this.path, `${JSON.stringify(event)}\n`, "utf8");
+  }
+}
+
+// Keeps delivered events, dropping redeliveries of an event it already has.
+export class MemorySink {
+  readonly name = "memory";
+  readonly events: OutboxEvent[] = [];
+
+  async deliver(event: OutboxEvent) {
+    if (!this.events.some((delivered) => delivered.id === event.id)) {
+      this.events.push(event);
+    }
+  }
+}
+
+export type OutboxRelayOptions = {
+  maxAttempts?: number; // Deliveries tried before an event is marked failed
+  batchSize?: number; // Pending events read per poll
+};
+
+export type RelaySummary = {
+  delivered: number;
+  retrying: number; // Failed this time, tried again on a later poll
+  failed: number; // Gave up after maxAttempts
+};
+
+/**
+ * Delivers outbox events to every sink, at least once: an event is marked
+ * delivered only after all sinks accepted it, so a crash or a failing sink
+ * leads to redelivery and sinks must deduplicate by event id. Events are
+ * picked up by polling the status index or from the outbox table's stream.
+ */
+export class OutboxRelay {
+  private maxAttempts: number;
+  private batchSize: number;
+
+  constructor(
+    private outbox: Repository<OutboxItem>,
+    private sinks: OutboxSink[],
+    { maxAttempts = 5, batchSize = 25 }: OutboxRelayOptions = {}
+  ) {
+    this.maxAttempts = maxAttempts;
+    this.batchSize = batchSize;
+  }
+
+  /**
+   * Delivers one batch of pending events, oldest first.
+   */
+  async relayPending(): Promise<RelaySummary> {
+    const summary: RelaySummary = { delivered: 0, retrying: 0, failed: 0 };
+    const { items } = await this.outbox.queryPage(
+      {
+        indexName: "StatusIndex",
+        keyCondition: attribute("status").eq("pending"),
+      },
+      { limit: this.batchSize }
+    );
+    for (const item of items) {
+      summary[await this.relay(item)] += 1;
+    }
+    return summary;
+  }
+
+  /**
+   * Polls for pending events until the signal is aborted.
+   * @param intervalMs Pause after a poll that found nothing to deliver.
+   */
+  async run(signal: AbortSignal, intervalMs = 1000): Promise<void> {
+    while (!signal.aborted) {
+      const summary = await this.relayPending();
+      if (summary.delivered + summary.retrying + summary.failed === 0) {
+        await sleep(intervalMs);
+      }
+    }
+  }
+
+  /**
+   * A stream handler for the outbox table that delivers events as soon as
+   * they are written. Events it fails to deliver stay pending for polling.
+   */
+  streamHandler(): StreamHandler<typeof OutboxItemSchema> {
+    return defineStreamHandler({
+      name: "outboxRelay",
+      schema: OutboxItemSchema,
+      insert: async ({ newImage }) => {
+        if (newImage) {
+          await this.relay(newImage);
+        }
+      },
+    });
+  }
+
+  // Delivers one event and records the outcome on its outbox item.
+  private async relay(
+    item: OutboxItem
+  ): Promise<"delivered" | "retrying" | "failed"> {
+    const attempts = item.attempts + 1;
+    const stillPending = attribute("status").eq("pending");
+    try {
+      for (const sink of this.sinks) {
+        await sink.deliver({
+          id: item.eventId,
+          type: item.type,
+          payload: item.payload,
+          source: item.source,
+          occurredAt: item.occurredAt,
+        });
+      }
+    } catch (error) {
+      const status = attempts >= this.maxAttempts ? "failed" : "pending";
+      await this.outbox.updateItem(
+        { eventId: item.eventId },
+        { status, attempts, lastError: (error as Error).message },
+        { condition: stillPending }
+      );
+      return status === "failed" ? "failed" : "retrying";
+    }
+
+    await this.outbox.updateItem(
+      { eventId: item.eventId },
+      update<OutboxItem>()
+        .set("status", "delivered")
+        .set("attempts", attempts)
+        .set("deliveredAt", new Date().toISOString())
+        .remove("lastError"),
+      { condition: stillPending }
+    );
+    return "delivered";
+  }
+}
+
+if (require.main === module) {
+  const config = loadConfig();
+  const docClient = DynamoDBDocumentClient.from(
+    createDynamoDBClient(config.dynamodb)
+  );
+  const outbox = new Repository<OutboxItem>(
+    { ...outboxTable, tableName: config.tables.outbox },
+    docClient
+  );
+  const { webhookUrl } = config.outbox;
+  const sink = webhookUrl
+    ? new WebhookSink(webhookUrl)
+    : new FileSink("outbox-events.jsonl");
+
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+  console.log(`Relaying outbox events to the ${sink.name} sink.`);
+  new OutboxRelay(outbox, [sink]).run(controller.signal).catch((error) => {
+    console.error("Outbox relay failed:", error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,184 @@
+import express from "express";
+import request from "supertest";
+import { MemoryDocumentClient } from "./memory-client";
+import { Repository } from "./respo";
+import { AuthorSchema, authorsTable, Author } from "./schemas";
+import { createResourceRouter, ResourceRouterOptions } from "./resource-router";
+import { errorHandler } from "./http-errors";
+import { ValidationFailedError } from "./types";
+
+const herbert = { authorId: "a-1", name: "Frank Herbert", bio: "Wrote Dune." };
+
+describe("createResourceRouter", () => {
+  let client: MemoryDocumentClient;
+  let authors: Repository<Author>;
+
+  const serve = (
+    options: Partial<ResourceRouterOptions<typeof AuthorSchema>> = {}
+  ) =>
+    express()
+      .use(express.json())
+      .use(
+        createResourceRouter({
+          path: "/authors",
+          name: "Author",
+          schema: AuthorSchema,
+          repository: authors,
+          keyFrom: (authorId) => ({ authorId }),
+          ...options,
+        })
+      )
+      .use(errorHandler);
+
+  beforeEach(() => {
+    client = new MemoryDocumentClient([authorsTable]);
+    authors = new Repository<Author>(authorsTable, client, {
+      versionAttribute: "version",
+    });
+  });
+
+  it("serves the items of the repository", async () => {
+    const app = serve();
+    await request(app).post("/authors").send(herbert).expect(201);
+    await request(app).post("/authors").send(herbert).expect(409);
+    await request(app)
+      .post("/authors")
+      .send({ ...herbert, name: 1 })
+      .expect(400);
+
+    const patched = await request(app)
+      .patch("/authors/a-1")
+      .set("If-Match", '"1"')
+      .send({ bio: "Wrote Dune and its sequels." })
+      .expect(200);
+    expect(patched.headers.etag).toBe('"2"');
+    await request(app)
+      .patch("/authors/a-1")
+      .send({ authorId: "a-2" })
+      .expect(400);
+    await request(app)
+      .patch("/authors/missing")
+      .send({ name: "x" })
+      .expect(404);
+
+    await request(app).delete("/authors/a-1").expect(204);
+    await request(app).get("/authors/a-1").expect(404);
+  });
+
+  it("lists items page by page", async () => {
+    const app = serve();
+    for (const authorId of ["a-1", "a-2", "a-3"]) {
+      await request(app)
+        .put(`/authors/${authorId}`)
+        .send({ ...herbert, authorId })
+        .expect(200);
+    }
+
+    const first = await request(app).get("/authors?limit=2").expect(200);
+    const second = await request(app)
+      .get("/authors")
+      .query({ limit: 2, cursor: first.body.cursor })
+      .expect(200);
+    expect(
+      [...first.body.items, ...second.body.items].map((item) => item.authorId)
+    ).toEqual(expect.arrayContaining(["a-1", "a-2", "a-3"]));
+    expect(second.body.cursor).toBeNull();
+    await request(app).get("/authors?limit=0").expect(400);
+  });
+
+  it("reports batch soft deletes of missing items as not found", async () => {
+    authors = new Repository<Author>(authorsTable, client, {
+      versionAttribute: "version",
+      softDelete: {},
+    });
+    const app = serve({ softDelete: true });
+    await request(app).put("/authors/a-1").send(herbert).expect(200);
+
+    const response = await request(app)
+      .post("/authors:batch")
+      .send({ delete: ["a-1", "missing"] })
+      .expect(207);
+    expect(response.body.results).toEqual([
+      { key: { authorId: "a-1" }, type: "delete", status: "written" },
+      { key: { authorId: "missing" }, type: "delete", status: "not_found" },
+    ]);
+    await request(app).get("/authors/a-1").expect(404);
+  });
+
+  it("runs hooks around writes", async () => {
+    const calls: string[] = [];
+    const app = serve({
+      hooks: {
+        beforeCreate: (author) => ({ ...author, name: author.name.trim() }),
+        afterCreate: (author) => {
+          calls.push(`created ${author.name}`);
+        },
+        beforeUpdate: (changes, { key }) => {
+          calls.push(`updating ${key.authorId}`);
+          return changes;
+        },
+        afterUpdate: (author) => {
+          calls.push(`updated ${author.name}`);
+        },
+        beforeDelete: async (key, { repository }) => {
+          const author = await repository.getItem(key);
+          if (author?.bio) {
+            throw new ValidationFailedError("Authors with a bio are kept.");
+          }
+        },
+      },
+    });
+
+    const created = await request(app)
+      .post("/authors")
+      .send({ ...herbert, name: "  Frank Herbert " })
+      .expect(201);
+    expect(created.body.name).toBe("Frank Herbert");
+    await request(app)
+      .patch("/authors/a-1")
+      .send({ name: "F. H." })
+      .expect(200);
+    await request(app).delete("/authors/a-1").expect(400);
+    await request(app)
+      .post("/authors:batch")
+      .send({ delete: ["a-1"] })
+      .expect(405);
+
+    expect(calls).toEqual([
+      "created Frank Herbert",
+      "updating a-1",
+      "updated F. H.",
+    ]);
+    expect(client.items("AuthorsTable")).toHaveLength(1);
+  });
+
+  it("leaves out unreadable fields and refuses unwritable ones", async () => {
+    const app = serve({
+      fields: {
+        bio: { write: (req) => req.get("X-Role") === "editor" },
+        version: { read: false },
+      },
+    });
+
+    const refused = await request(app)
+      .put("/authors/a-1")
+      .send(herbert)
+      .expect(403);
+    expect(refused.body).toMatchObject({
+      type: "/problems/forbidden-fields",
+      status: 403,
+    });
+    expect(client.items("AuthorsTable")).toEqual([]);
+
+    await request(app)
+      .put("/authors/a-1")
+      .set("X-Role", "editor")
+      .send(herbert)
+      .expect(200);
+    const read = await request(app).get("/authors/a-1").expect(200);
+    expect(read.body).toEqual(herbert);
+    expect(read.headers.etag).toBe('"1"');
+    const list = await request(app).get("/authors").expect(200);
+    expect(list.body.items).toEqual([herbert]);
+  });
+});
@@ -0,0 +1,528 @@
+import { Request, Response, Router } from "express";
+import { z } from "zod";
+
+import { Repository } from "./respo";
+import { asyncHandler } from "./http-errors";
+import { diffItems } from "./audit";
+import { attribute, buildExpressions } from "./util-condition";
+import {
+  ConcurrentModificationError,
+  ConditionalCheckFailedError,
+  DynamoDBKey,
+  FieldPermissionError,
+  HistoryEntry,
+  ItemNotFoundError,
+  MethodNotAllowedError,
+  SearchFilter,
+  TransactionCanceledError,
+  ValidationFailedError,
+} from "./types";
+
+type Item = Record<string, any>;
+
+// Who makes a request, set by the middleware of createApp.
+export type RequestContext = {
+  tenantId?: string;
+  actor: string;
+  correlationId: string;
+};
+
+/**
+ * The repository as a request may use it: scoped to the tenant of the
+ * request, if any, and recording its writes as made by the request's actor.
+ * Requests that passed no middleware setting a RequestContext use the
+ * repository as is.
+ */
+export function forRequest<T extends Item>(
+  repository: Repository<T>,
+  res: Response
+): Repository<T> {
+  const context: RequestContext | undefined = res.locals.context;
+  if (!context) {
+    return repository;
+  }
+  const scoped =
+    context.tenantId === undefined
+      ? repository
+      : repository.forTenant(context.tenantId);
+  return scoped.withAuditContext({
+    actor: context.actor,
+    correlationId: context.correlationId,
+  });
+}
+
+// The ETag of an item is its version, e.g. `"3"`.
+export function setETag(res: Response, item: Item, versionAttribute: string) {
+  if (item[versionAttribute] !== undefined) {
+    res.set("ETag", `"${item[versionAttribute]}"`);
+  }
+}
+
+// Reads the version the client last saw from If-Match.
+export function parseIfMatch(req: Request): number | undefined {
+  const header = req.get("If-Match");
+  if (!header || header.trim() === "*") {
+    return undefined;
+  }
+  const match = /^(?:W\/)?"(\d+)"$/.exec(header.trim());
+  if (!match) {
+    throw new ValidationFailedError("Invalid If-Match header.", {
+      issues: [{ path: ["If-Match"], message: "Expected a quoted version." }],
+    });
+  }
+  return Number(match[1]);
+}
+
+export const PageQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  cursor: z.string().optional(),
+});
+
+// A query flag such as ?hard=true.
+const QueryFlagSchema = z
+  .enum(["true", "false"])
+  .transform((flag) => flag === "true");
+
+// Deletes are soft unless ?hard=true; cascading takes the related items along.
+const DeleteQuerySchema = z.object({
+  hard: QueryFlagSchema.default("false"),
+  cascade: QueryFlagSchema.default("false"),
+});
+
+const RestoreQuerySchema = z.object({
+  cascade: QueryFlagSchema.default("false"),
+});
+
+const DiffQuerySchema = z.object({
+  against: z.string().min(1).optional(), // Another entry id, the current item by default
+});
+
+// Whether a field may be read or written, fixed or decided per request.
+export type FieldRule = boolean | ((req: Request) => boolean);
+
+export type FieldPermissions = {
+  read?: FieldRule; // Unreadable fields are left out of every response
+  write?: FieldRule; // Writing an unwritable field is refused with a 403
+};
+
+export type HookContext<T extends Item> = {
+  req: Request;
+  res: Response;
+  repository: Repository<T>; // Scoped to the request, see forRequest
+};
+
+/**
+ * Run around the writes of single items; throwing aborts the request with
+ * the error. Before hooks return the item or changes to write. Batch writes
+ * could not tell creates from replacements, so resources with hooks refuse
+ * them with a 405.
+ */
+export type ResourceHooks<T extends Item> = {
+  beforeCreate?: (item: T, context: HookContext<T>) => T | Promise<T>;
+  afterCreate?: (item: T, context: HookContext<T>) => unknown;
+  // PUT passes the complete item, PATCH only the changed fields.
+  beforeUpdate?: (
+    changes: Partial<T>,
+    context: HookContext<T> & { key: DynamoDBKey }
+  ) => Partial<T> | Promise<Partial<T>>;
+  afterUpdate?: (item: T, context: HookContext<T>) => unknown;
+  beforeDelete?: (
+    key: DynamoDBKey,
+    context: HookContext<T>
+  ) => void | Promise<void>;
+  afterDelete?: (item: T, context: HookContext<T>) => unknown;
+};
+
+// A query string such as ?author=x&sort=-price&limit=10.
+export type SearchQuery = { sort?: string; limit?: number; cursor?: string };
+
+export type ResourceSearch<Q extends SearchQuery> = {
+  query: z.ZodType<Q, z.ZodTypeDef, unknown>; // A leading minus in `sort` sorts in descending order
+  filters: (query: Q) => SearchFilter[];
+};
+
+export type ResourceRouterOptions<S extends z.AnyZodObject> = {
+  path: string; // Where the collection is served, e.g. "/books"
+  name: string; // Names the resource in messages and events, e.g. "Book"
+  schema: S; // Validates created and replaced items; changes must match it partially
+  repository: Repository<z.infer<S>>;
+  keyFrom: (id: string) => DynamoDBKey; // The key of the item under `${path}/:id`
+  search?: ResourceSearch<any>; // Serves `${path}/search`
+  softDelete?: boolean; // DELETE soft-deletes unless ?hard=true, batch deletes always; serves restore
+  history?: boolean; // Serves the history of items, see RepositoryOptions.historyTableName
+  events?: boolean; // Creates emit `${name}Created` events to the outbox
+  versionAttribute?: string; // Served as ETag and checked against If-Match, "version" by default
+  hooks?: ResourceHooks<z.infer<S>>;
+  fields?: Record<string, FieldPermissions>; // By attribute, the version included; unlisted ones are unrestricted
+};
+
+/**
+ * Serves a collection of items of one schema from a repository: list,
+ * search, get, create, replace, patch and delete, batch writes unless hooks
+ * are given (refused with a 405 then), plus restore and history when enabled. Request bodies are validated against the
+ * schema; errors are left to errorHandler, so every resource maps them alike.
+ * Key attributes are taken from the path and may not be patched.
+ */
+export function createResourceRouter<S extends z.AnyZodObject>({
+  path,
+  name,
+  schema,
+  repository,
+  keyFrom,
+  search,
+  softDelete = false,
+  history = false,
+  events = false,
+  versionAttribute = "version",
+  hooks = {},
+  fields = {},
+}: ResourceRouterOptions<S>): Router {
+  type T = z.infer<S>;
+  const router = Router();
+  const table = repository.table;
+  const keyNames = [table.partitionKey.name, table.sortKey?.name].filter(
+    (key): key is string => key !== undefined && key in schema.shape
+  );
+  const ChangesSchema = schema
+    .omit(Object.fromEntries(keyNames.map((key) => [key, true])))
+    .partial()
+    .strict();
+  const BatchSchema = z
+    .object({
+      put: z.array(schema).max(1000).default([]),
+      delete: z.array(z.string().min(1)).max(1000).default([]),
+    })
+    .refine((body) => body.put.length + body.delete.length > 0, {
+      message: `No ${name.toLowerCase()}s to write or delete.`,
+    });
+
+  const context = (req: Request, res: Response): HookContext<T> => ({
+    req,
+    res,
+    repository: forRequest(repository, res),
+  });
+  const notFound = (id: string) =>
+    new ItemNotFoundError(`${name} not found.`, { key: keyFrom(id) });
+  const allowed = (rule: FieldRule | undefined, req: Request) =>
+    rule === undefined || (typeof rule === "function" ? rule(req) : rule);
+  const fieldRule = (field: string): FieldPermissions | undefined =>
+    fields[field];
+
+  // Leaves out the fields the caller may not read.
+  const present = <V extends Item | null>(req: Request, item: V): V => {
+    if (!item) {
+      return item;
+    }
+    return Object.fromEntries(
+      Object.entries(item).filter(([field]) =>
+        allowed(fieldRule(field)?.read, req)
+      )
+    ) as V;
+  };
+  const presentEntry = (req: Request, entry: HistoryEntry): HistoryEntry => ({
+    ...entry,
+    changes: present(req, entry.changes),
+    item: present(req, entry.item),
+  });
+  const assertWritable = (req: Request, item: Item) => {
+    const forbidden = Object.keys(item).filter(
+      (field) => !allowed(fieldRule(field)?.write, req)
+    );
+    if (forbidden.length > 0) {
+      throw new FieldPermissionError(
+        `Not allowed to write ${forbidden.join(", ")}.`,
+        { fields: forbidden }
+      );
+    }
+  };
+  const respond = (req: Request, res: Response, status: number, item: T) => {
+    setETag(res, item, versionAttribute);
+    res.status(status).json(present(req, item));
+  };
+
+  router.get(
+    path,
+    asyncHandler(async (req, res) => {
+      const query = PageQuerySchema.parse(req.query);
+      const page = await forRequest(repository, res).listItems(query);
+      res.status(200).json({
+        ...page,
+        items: page.items.map((item) => present(req, item)),
+      });
+    })
+  );
+
+  // Registered before `${path}/:id`, which would otherwise match "search".
+  if (search) {
+    router.get(
+      `${path}/search`,
+      asyncHandler(async (req, res) => {
+        const query: SearchQuery = search.query.parse(req.query);
+        const page = await forRequest(repository, res).search({
+          filters: search.filters(query),
+          sort: query.sort
+            ? {
+                attribute: query.sort.replace(/^-/, ""),
+                descending: query.sort.startsWith("-"),
+              }
+            : undefined,
+          limit: query.limit,
+          cursor: query.cursor,
+        });
+        res.status(200).json({
+          ...page,
+          items: page.items.map((item) => present(req, item)),
+        });
+      })
+    );
+  }
+
+  router.get(
+    `${path}/:id`,
+    asyncHandler(async (req, res) => {
+      const item = await forRequest(repository, res).getItem(
+        keyFrom(req.params.id)
+      );
+      if (!item) {
+        throw notFound(req.params.id);
+      }
+      respond(req, res, 200, item);
+    })
+  );
+
+  // Creates an item unless one exists under its key.
+  router.post(
+    path,
+    asyncHandler(async (req, res) => {
+      const parsed: T = schema.parse(req.body);
+      assertWritable(req, parsed);
+      const hookContext = context(req, res);
+      const item = hooks.beforeCreate
+        ? await hooks.beforeCreate(parsed, hookContext)
+        : parsed;
+
+      try {
+        await hookContext.repository.mutate(
+          [
+            {
+              Put: {
+                TableName: table.tableName,
+                Item: item,
+                ...buildExpressions({
+                  condition: attribute(table.partitionKey.name).notExists(),
+                }),
+              },
+            },
+          ],
+          { events: events ? [{ type: `${name}Created`, payload: item }] : [] }
+        );
+      } catch (error) {
+        const exists =
+          error instanceof ConcurrentModificationError ||
+          (error instanceof TransactionCanceledError &&
+            error.failures.some(
+              (failure) => failure.code === "ConditionalCheckFailed"
+            ));
+        if (exists) {
+          throw new ConditionalCheckFailedError(`${name} already exists.`, {
+            cause: error as Error,
+            operation: `create${name}`,
+          });
+        }
+        throw error;
+      }
+
+      await hooks.afterCreate?.(item, hookContext);
+      res.status(201).json(present(req, item));
+    })
+  );
+
+  // Imports or removes many items at once. Express cannot escape the colon
+  // in a string path, hence the regular expression.
+  router.post(
+    new RegExp(`^${path.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}:batch$`),
+    asyncHandler(async (req, res) => {
+      if (Object.keys(hooks).length > 0) {
+        // No other method is served under this path.
+        res.set("Allow", "");
+        throw new MethodNotAllowedError(
+          `${name}s are written one by one, as their hooks must run.`,
+          { operation: "batchWrite" }
+        );
+      }
+      const body = BatchSchema.parse(req.body);
+      body.put.forEach((item) => assertWritable(req, item));
+      const scoped = forRequest(repository, res);
+      const keys = body.delete.map(keyFrom);
+
+      // Deletes soft-delete one by one, as DELETE does; BatchWriteItem could
+      // only remove the items for good.
+      const results = await scoped.batchWrite(body.put, softDelete ? [] : keys);
+      if (softDelete) {
+        for (const key of keys) {
+          const deleted = await scoped.softDelete(key);
+          results.push({
+            key,
+            type: "delete",
+            status: deleted ? "written" : "not_found",
+          });
+        }
+      }
+      const complete = results.every((result) => result.status === "written");
+      // 207 tells the client which items were not written, e.g. to retry
+      // the ones that stayed unprocessed.
+      res.status(complete ? 200 : 207).json({ results });
+    })
+  );
+
+  // Creates or fully replaces an item.
+  router.put(
+    `${path}/:id`,
+    asyncHandler(async (req, res) => {
+      const parsed: T = schema.parse(req.body);
+      assertWritable(req, parsed);
+      const key = keyFrom(req.params.id);
+      const hookContext = context(req, res);
+      let item: T = { ...parsed, ...key };
+      if (hooks.beforeUpdate) {
+        item = {
+          ...(await hooks.beforeUpdate(item, { ...hookContext, key })),
+          ...key,
+        };
+      }
+      const written = await hookContext.repository.putItem(item, {
+        expectedVersion: parseIfMatch(req),
+      });
+      await hooks.afterUpdate?.(written, hookContext);
+      respond(req, res, 200, written);
+    })
+  );
+
+  // Updates individual fields of an existing item.
+  router.patch(
+    `${path}/:id`,
+    asyncHandler(async (req, res) => {
+      let changes: Partial<T> = ChangesSchema.parse(req.body);
+      if (Object.keys(changes).length === 0) {
+        throw new ValidationFailedError("No attributes to update.");
+      }
+      assertWritable(req, changes);
+      const key = keyFrom(req.params.id);
+      const hookContext = context(req, res);
+      if (hooks.beforeUpdate) {
+        changes = await hooks.beforeUpdate(changes, { ...hookContext, key });
+      }
+      const item = await hookContext.repository.updateItem(key, changes, {
+        expectedVersion: parseIfMatch(req),
+      });
+      if (!item) {
+        throw notFound(req.params.id);
+      }
+      await hooks.afterUpdate?.(item, hookContext);
+      respond(req, res, 200, item);
+    })
+  );
+
+  router.delete(
+    `${path}/:id`,
+    asyncHandler(async (req, res) => {
+      const query = DeleteQuerySchema.parse(req.query);
+      const expectedVersion = parseIfMatch(req);
+      const key = keyFrom(req.params.id);
+      const hookContext = context(req, res);
+      await hooks.beforeDelete?.(key, hookContext);
+      const item =
+        softDelete && !query.hard
+          ? await hookContext.repository.softDelete(key, {
+              expectedVersion,
+              cascade: query.cascade,
+            })
+          : await hookContext.repository.deleteItem(key, { expectedVersion });
+      if (!item) {
+        throw notFound(req.params.id);
+      }
+      await hooks.afterDelete?.(item, hookContext);
+      res.status(204).end();
+    })
+  );
+
+  if (softDelete) {
+    router.post(
+      `${path}/:id/restore`,
+      asyncHandler(async (req, res) => {
+        const query = RestoreQuerySchema.parse(req.query);
+        const item = await forRequest(repository, res).restore(
+          keyFrom(req.params.id),
+          { expectedVersion: parseIfMatch(req), cascade: query.cascade }
+        );
+        if (!item) {
+          throw notFound(req.params.id);
+        }
+        respond(req, res, 200, item);
+      })
+    );
+  }
+
+  if (history) {
+    router.get(
+      `${path}/:id/history`,
+      asyncHandler(async (req, res) => {
+        const query = PageQuerySchema.parse(req.query);
+        const page = await forRequest(repository, res).history(
+          keyFrom(req.params.id),
+          query
+        );
+        res.status(200).json({
+          ...page,
+          items: page.items.map((entry) => presentEntry(req, entry)),
+        });
+      })
+    );
+
+    // Compares the item as of an entry with a later entry, or the current item.
+    router.get(
+      `${path}/:id/history/:entryId/diff`,
+      asyncHandler(async (req, res) => {
+        const { id, entryId } = req.params;
+        const query = DiffQuerySchema.parse(req.query);
+        const scoped = forRequest(repository, res);
+        const key = keyFrom(id);
+        const from = await scoped.historyEntry(key, entryId);
+        const to = query.against
+          ? await scoped.historyEntry(key, query.against)
+          : undefined;
+        if (!from || to === null) {
+          throw new ItemNotFoundError("History entry not found.", {
+            key: { ...key, entryId: from ? query.against : entryId },
+          });
+        }
+        const current = to
+          ? to.item
+          : await scoped.getItem(key, { includeDeleted: true });
+        res.status(200).json({
+          from: entryId,
+          to: query.against ?? null,
+          changes: present(req, diffItems(from.item, current)),
+        });
+      })
+    );
+
+    router.post(
+      `${path}/:id/history/:entryId/revert`,
+      asyncHandler(async (req, res) => {
+        const item = await forRequest(repository, res).revert(
+          keyFrom(req.params.id),
+          req.params.entryId,
+          { expectedVersion: parseIfMatch(req) }
+        );
+        if (!item) {
+          res.status(204).end();
+          return;
+        }
+        respond(req, res, 200, item);
+      })
+    );
+  }
+
+  return router;
+}
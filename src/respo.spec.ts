@@ -0,0 +1,981 @@
+import { MemoryDocumentClient } from "./memory-client";
+import { Repository } from "./respo";
+import { attribute } from "./util-condition";
+import { update } from "./util-expression";
+import { CircuitBreaker } from "./util-circuit-breaker";
+import { outboxTable } from "./outbox";
+import { historyTable } from "./audit";
+import { JsonLogger } from "./observability";
+import { z } from "zod";
+import {
+  TableDescriptor,
+  DatabaseOperationError,
+  ConditionalCheckFailedError,
+  ConcurrentModificationError,
+  CircuitOpenError,
+  ItemNotFoundError,
+  InvalidStoredItemError,
+  TransactionCanceledError,
+  TransactionConflictError,
+  ValidationFailedError,
+} from "./types";
+
+type Item = {
+  isbn: string;
+  title?: string;
+  parentId?: string;
+  version?: number;
+  [attribute: string]: any;
+};
+
+const indexedTable: TableDescriptor = {
+  tableName: "Books",
+  partitionKey: { name: "isbn", type: "S" },
+  indexes: [
+    {
+      name: "RelatedItemsIndex",
+      kind: "global",
+      partitionKey: { name: "parentId", type: "S" },
+      projection: { type: "ALL" },
+    },
+  ],
+  relationship: { attribute: "parentId", indexName: "RelatedItemsIndex" },
+};
+
+// The same relationship without an index, which is read by scanning.
+const scannedTable: TableDescriptor = {
+  tableName: "ScannedBooks",
+  partitionKey: { name: "isbn", type: "S" },
+  relationship: { attribute: "parentId" },
+};
+
+describe("Repository", () => {
+  let client: MemoryDocumentClient;
+  let books: Repository<Item>;
+
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    client = new MemoryDocumentClient([indexedTable, scannedTable]);
+    books = new Repository<Item>(indexedTable, client);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  async function seed(repository: Repository<Item>, items: Item[]) {
+    await repository.batchWrite(items, []);
+  }
+
+  describe("mutate", () => {
+    it("writes every operation in one transaction", async () => {
+      await books.mutate([
+        { Put: { TableName: "Books", Item: { isbn: "1", title: "Dune" } } },
+        { Put: { TableName: "Books", Item: { isbn: "2", title: "Emma" } } },
+      ]);
+      expect(client.items("Books")).toEqual([
+        { isbn: "1", title: "Dune" },
+        { isbn: "2", title: "Emma" },
+      ]);
+    });
+
+    it("reports which operations cancelled the transaction", async () => {
+      await seed(books, [{ isbn: "1", title: "Dune" }]);
+      const error = await books
+        .mutate([
+          { Put: { TableName: "Books", Item: { isbn: "2" } } },
+          {
+            ConditionCheck: {
+              TableName: "Books",
+              Key: { isbn: "1" },
+              ConditionExpression: "title = :title",
+              ExpressionAttributeValues: { ":title": "Emma" },
+              ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+            },
+          },
+        ])
+        .catch((error) => error);
+
+      expect(error).toBeInstanceOf(TransactionCanceledError);
+      expect(error.failures).toEqual([
+        expect.objectContaining({
+          index: 1,
+          type: "ConditionCheck",
+          key: { isbn: "1" },
+          code: "ConditionalCheckFailed",
+          item: { isbn: "1", title: "Dune" },
+        }),
+      ]);
+      expect(client.items("Books")).toEqual([{ isbn: "1", title: "Dune" }]);
+    });
+
+    it.each([
+      ["no operations", []],
+      ["two operation types in one item", [{ Put: {}, Delete: {} }]],
+      [
+        "two operations on one item",
+        [
+          { Put: { TableName: "Books", Item: { isbn: "1" } } },
+          { Delete: { TableName: "Books", Key: { isbn: "1" } } },
+        ],
+      ],
+      [
+        "more than 100 operations",
+        Array.from({ length: 101 }, (_, i) => ({
+          Put: { TableName: "Books", Item: { isbn: `${i}` } },
+        })),
+      ],
+    ])("rejects %s", async (_, operations) => {
+      await expect(books.mutate(operations as any)).rejects.toBeInstanceOf(
+        ValidationFailedError
+      );
+      expect(client.items("Books")).toEqual([]);
+    });
+
+    it("splits large batches into transactions when allowed to", async () => {
+      const operations = Array.from({ length: 150 }, (_, i) => ({
+        Put: { TableName: "Books", Item: { isbn: `${i}` } },
+      }));
+      await books.mutate(operations, {
+        chunk: true,
+        clientRequestToken: "import-1",
+      });
+      expect(client.items("Books")).toHaveLength(150);
+    });
+
+    it("treats a conflicting versioned Put as a concurrent modification", async () => {
+      const versioned = new Repository<Item>(indexedTable, client, {
+        versionAttribute: "version",
+      });
+      await versioned.putItem({ isbn: "1", title: "Dune" });
+      await expect(
+        versioned.mutate([
+          { Put: { TableName: "Books", Item: { isbn: "1", title: "Emma" } } },
+        ])
+      ).rejects.toBeInstanceOf(ConcurrentModificationError);
+    });
+
+    it("writes events to the outbox in the same transaction", async () => {
+      client.createTable(outboxTable);
+      const emitting = new Repository<Item>(indexedTable, client, {
+        versionAttribute: "version",
+        outboxTableName: "OutboxTable",
+      });
+      const put = { Put: { TableName: "Books", Item: { isbn: "1" } } };
+      const event = { type: "BookCreated", payload: { isbn: "1" } };
+
+      await emitting.mutate([put], { events: [{ ...event, id: "event-1" }] });
+      expect(client.items("OutboxTable")).toEqual([
+        {
+          ...event,
+          eventId: "event-1",
+          source: "Books",
+          occurredAt: expect.any(String),
+          status: "pending",
+          attempts: 0,
+        },
+      ]);
+
+      // The book exists now, so the transaction fails and so does the event.
+      await expect(
+        emitting.mutate([put], { events: [event] })
+      ).rejects.toBeInstanceOf(ConcurrentModificationError);
+      expect(client.items("OutboxTable")).toHaveLength(1);
+
+      await expect(books.mutate([put], { events: [event] })).rejects.toThrow(
+        /outbox/
+      );
+    });
+  });
+
+  describe("replacePrimaryKey", () => {
+    it("moves the item and re-points its related items", async () => {
+      await seed(books, [
+        { isbn: "old", title: "Dune" },
+        { isbn: "review-1", parentId: "old" },
+        { isbn: "review-2", parentId: "old" },
+        { isbn: "review-3", parentId: "other" },
+      ]);
+
+      const result = await books.replacePrimaryKey(
+        { isbn: "old" },
+        { isbn: "new" },
+        { title: "Dune Messiah" },
+        { queryRelatedItems: true }
+      );
+
+      expect(result.newItem).toEqual({ isbn: "new", title: "Dune Messiah" });
+      expect(result.chunked).toBe(false);
+      expect(result.migratedRelatedItems).toBe(2);
+      expect(await books.getItem({ isbn: "old" })).toBeNull();
+      expect(
+        (result.relatedItems ?? []).map((item) => item.isbn).sort()
+      ).toEqual(["review-1", "review-2"]);
+      expect(await books.queryRelatedItems("old")).toEqual([]);
+    });
+
+    it("throws ItemNotFoundError when the old key is missing", async () => {
+      await expect(
+        books.replacePrimaryKey({ isbn: "old" }, { isbn: "new" })
+      ).rejects.toBeInstanceOf(ItemNotFoundError);
+    });
+
+    it("refuses to overwrite an item under the new key", async () => {
+      await seed(books, [
+        { isbn: "old", title: "Dune" },
+        { isbn: "new", title: "Emma" },
+      ]);
+      const error = await books
+        .replacePrimaryKey({ isbn: "old" }, { isbn: "new" })
+        .catch((error) => error);
+      expect(error).toBeInstanceOf(ConditionalCheckFailedError);
+      expect(error).not.toBeInstanceOf(ConcurrentModificationError);
+      expect(await books.getItem({ isbn: "new" })).toEqual({
+        isbn: "new",
+        title: "Emma",
+      });
+      expect(await books.getItem({ isbn: "old" })).not.toBeNull();
+    });
+
+    it("migrates more related items than fit into one transaction", async () => {
+      const reviews = Array.from({ length: 120 }, (_, i) => ({
+        isbn: `review-${i}`,
+        parentId: "old",
+      }));
+      await seed(books, [{ isbn: "old", title: "Dune" }, ...reviews]);
+
+      const result = await books.replacePrimaryKey(
+        { isbn: "old" },
+        { isbn: "new" }
+      );
+
+      expect(result.chunked).toBe(true);
+      expect(result.migratedRelatedItems).toBe(120);
+      expect(await books.queryRelatedItems("new")).toHaveLength(120);
+      expect(await books.getItem({ isbn: "new" })).toEqual({
+        isbn: "new",
+        title: "Dune",
+      });
+    });
+  });
+
+  describe("queryRelatedItems", () => {
+    it.each([
+      ["through the index", indexedTable],
+      ["by scanning without an index", scannedTable],
+    ])("finds related items %s", async (_, table) => {
+      const repository = new Repository<Item>(table, client);
+      await seed(repository, [
+        { isbn: "1" },
+        ...Array.from({ length: 30 }, (_, i) => ({
+          isbn: `review-${i}`,
+          parentId: i % 3 === 0 ? "1" : "2",
+        })),
+      ]);
+
+      const related = await repository.queryRelatedItems("1");
+      expect(related).toHaveLength(10);
+      expect(related.every((item) => item.parentId === "1")).toBe(true);
+    });
+
+    it("pages with an opaque cursor", async () => {
+      await seed(
+        books,
+        Array.from({ length: 5 }, (_, i) => ({
+          isbn: `review-${i}`,
+          parentId: "1",
+        }))
+      );
+      const first = await books.queryRelatedItemsPage("1", { limit: 3 });
+      const second = await books.queryRelatedItemsPage("1", {
+        limit: 3,
+        cursor: first.cursor ?? undefined,
+      });
+      expect(first.items).toHaveLength(3);
+      expect(second).toEqual({ items: expect.any(Array), cursor: null });
+      expect(second.items).toHaveLength(2);
+    });
+  });
+
+  describe("search", () => {
+    beforeEach(() =>
+      seed(
+        books,
+        ["c", "a", "d", "b"].map((title, i) => ({
+          isbn: `${i}`,
+          title,
+          parentId: "p",
+        }))
+      )
+    );
+
+    it("queries an index pinned by an equality filter", async () => {
+      const page = await books.search({
+        filters: [
+          { attribute: "parentId", op: "eq", value: "p" },
+          { attribute: "title", op: "in", values: ["a", "b"] },
+        ],
+        limit: 1,
+      });
+      expect(page).toMatchObject({
+        indexName: "RelatedItemsIndex",
+        operation: "query",
+        count: 1,
+      });
+      expect(page.cursor).not.toBeNull();
+
+      const next = await books.search({
+        filters: [
+          { attribute: "parentId", op: "eq", value: "p" },
+          { attribute: "title", op: "in", values: ["a", "b"] },
+        ],
+        limit: 1,
+        cursor: page.cursor!,
+      });
+      expect([...page.items, ...next.items].map((item) => item.title)).toEqual([
+        "a",
+        "b",
+      ]);
+    });
+
+    it("stops after a few pages and returns a cursor", async () => {
+      await seed(
+        books,
+        Array.from({ length: 20 }, (_, i) => ({
+          isbn: `x${i}`,
+          title: i === 19 ? "needle" : "hay",
+        }))
+      );
+      const send = jest.spyOn(client, "send");
+      const filters = [
+        { attribute: "title", op: "eq" as const, value: "needle" },
+      ];
+
+      const page = await books.search({ filters, limit: 1 });
+      expect(send).toHaveBeenCalledTimes(5);
+      expect(page.cursor).not.toBeNull();
+
+      const found = [...page.items];
+      let cursor = page.cursor;
+      while (cursor) {
+        const next = await books.search({ filters, limit: 1, cursor });
+        found.push(...next.items);
+        cursor = next.cursor;
+      }
+      expect(found.map((item) => item.isbn)).toEqual(["x19"]);
+    });
+
+    it("sorts in memory when no key provides the order", async () => {
+      const first = await books.search({
+        sort: { attribute: "title", descending: true },
+        limit: 3,
+      });
+      expect(first.operation).toBe("scan");
+      expect(first.scannedCount).toBe(4);
+      expect(first.items.map((item) => item.title)).toEqual(["d", "c", "b"]);
+
+      const rest = await books.search({
+        sort: { attribute: "title", descending: true },
+        limit: 3,
+        cursor: first.cursor!,
+      });
+      expect(rest.items.map((item) => item.title)).toEqual(["a"]);
+      expect(rest.cursor).toBeNull();
+    });
+
+    it("refuses to sort more items than it reads at once", async () => {
+      await seed(
+        books,
+        Array.from({ length: 1000 }, (_, i) => ({ isbn: `x${i}` }))
+      );
+      const send = jest.spyOn(client, "send");
+
+      await expect(
+        books.search({ sort: { attribute: "title" } })
+      ).rejects.toThrow(ValidationFailedError);
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("soft delete", () => {
+    let deleting: Repository<Item>;
+
+    beforeEach(async () => {
+      deleting = new Repository<Item>(
+        { ...indexedTable, timeToLiveAttribute: "expiresAt" },
+        client,
+        { versionAttribute: "version", softDelete: { retentionDays: 10 } }
+      );
+      await seed(books, [
+        { isbn: "1", title: "Dune", version: 1 },
+        { isbn: "review-1", parentId: "1" },
+        { isbn: "review-2", parentId: "1" },
+      ]);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("hides soft-deleted items from reads unless asked for", async () => {
+      const deleted = await deleting.softDelete({ isbn: "1" });
+      expect(deleted).toMatchObject({
+        deletedAt: expect.any(String),
+        version: 2,
+      });
+      expect(deleted!.expiresAt).toBe(
+        Math.floor(Date.parse(deleted!.deletedAt) / 1000) + 10 * 24 * 60 * 60
+      );
+
+      expect(await deleting.getItem({ isbn: "1" })).toBeNull();
+      expect(
+        await deleting.getItem({ isbn: "1" }, { includeDeleted: true })
+      ).toEqual(deleted);
+      expect((await deleting.listItems()).items).toHaveLength(2);
+      expect(
+        (await deleting.listItems({ includeDeleted: true })).items
+      ).toHaveLength(3);
+      const search = {
+        filters: [{ attribute: "title", op: "eq" as const, value: "Dune" }],
+      };
+      expect((await deleting.search(search)).items).toEqual([]);
+      expect(
+        (await deleting.search({ ...search, includeDeleted: true })).items
+      ).toEqual([deleted]);
+      expect(await deleting.getBookWithRelatedItems({ isbn: "1" })).toEqual({
+        book: null,
+        relatedItems: [expect.anything(), expect.anything()],
+      });
+      expect(
+        (await deleting.batchGet([{ isbn: "1" }, { isbn: "review-1" }])).map(
+          ({ status }) => status
+        )
+      ).toEqual(["not_found", "found"]);
+      expect(
+        await deleting.batchGet([{ isbn: "1" }], { includeDeleted: true })
+      ).toEqual([{ key: { isbn: "1" }, item: deleted, status: "found" }]);
+
+      await expect(
+        deleting.updateItem({ isbn: "1" }, { title: "Emma" })
+      ).resolves.toBeNull();
+      await expect(deleting.softDelete({ isbn: "1" })).resolves.toBeNull();
+    });
+
+    it("restores items and the related items deleted along with them", async () => {
+      jest.useFakeTimers({ now: new Date("2024-03-01T10:00:00Z") });
+      await deleting.softDelete({ isbn: "review-2" });
+      jest.setSystemTime(new Date("2024-03-02T10:00:00Z"));
+      await deleting.softDelete({ isbn: "1" }, { cascade: true });
+      expect(await deleting.queryRelatedItems("1")).toEqual([]);
+
+      const restored = await deleting.restore(
+        { isbn: "1" },
+        { cascade: true, expectedVersion: 2 }
+      );
+      expect(restored).toEqual({ isbn: "1", title: "Dune", version: 3 });
+      // review-2 was deleted on its own before, so it stays deleted.
+      expect(await deleting.queryRelatedItems("1")).toEqual([
+        { isbn: "review-1", parentId: "1" },
+      ]);
+      await expect(deleting.restore({ isbn: "1" })).resolves.toBeNull();
+    });
+
+    it("checks the expected version", async () => {
+      await expect(
+        deleting.softDelete({ isbn: "1" }, { expectedVersion: 5 })
+      ).rejects.toBeInstanceOf(ConcurrentModificationError);
+      expect(await deleting.getItem({ isbn: "1" })).not.toBeNull();
+    });
+
+    it("is unavailable unless configured", async () => {
+      await expect(books.softDelete({ isbn: "1" })).rejects.toThrow(
+        /soft delete/
+      );
+    });
+  });
+
+  describe("history", () => {
+    let audited: Repository<Item>;
+
+    beforeEach(() => {
+      client.createTable(historyTable);
+      audited = new Repository<Item>(indexedTable, client, {
+        versionAttribute: "version",
+        historyTableName: "HistoryTable",
+      });
+    });
+
+    it("records every write with its old and new values", async () => {
+      const alice = audited.withAuditContext({
+        actor: "alice",
+        correlationId: "request-1",
+      });
+      await alice.putItem({ isbn: "1", title: "Dune", tags: ["classic"] });
+      const updated = await audited.updateItem(
+        { isbn: "1" },
+        update<Item>()
+          .set("title", "Dune Messiah")
+          .appendToList("tags", ["sequel"])
+          .add("sales", 3)
+      );
+      expect(updated).toEqual({
+        isbn: "1",
+        title: "Dune Messiah",
+        tags: ["classic", "sequel"],
+        sales: 3,
+        version: 2,
+      });
+      expect(await audited.getItem({ isbn: "1" })).toEqual(updated);
+      await audited.deleteItem({ isbn: "1" });
+
+      const { items: entries } = await audited.history({ isbn: "1" });
+      expect(entries).toEqual([
+        expect.objectContaining({
+          operation: "put",
+          actor: "alice",
+          correlationId: "request-1",
+          version: 1,
+          changes: {
+            isbn: { new: "1" },
+            title: { new: "Dune" },
+            tags: { new: ["classic"] },
+            version: { new: 1 },
+          },
+        }),
+        expect.objectContaining({
+          operation: "update",
+          actor: "system",
+          version: 2,
+          changes: {
+            title: { old: "Dune", new: "Dune Messiah" },
+            tags: { old: ["classic"], new: ["classic", "sequel"] },
+            sales: { new: 3 },
+            version: { old: 1, new: 2 },
+          },
+          item: updated,
+        }),
+        expect.objectContaining({ operation: "delete", item: null }),
+      ]);
+    });
+
+    it("writes no entry when the write fails", async () => {
+      await audited.putItem({ isbn: "1", title: "Dune" });
+      await expect(
+        audited.updateItem(
+          { isbn: "1" },
+          { title: "Emma" },
+          { condition: attribute("title").eq("Persuasion") }
+        )
+      ).resolves.toBeNull();
+      await expect(
+        audited.putItem({ isbn: "1", title: "Emma" }, { expectedVersion: 7 })
+      ).rejects.toBeInstanceOf(ConcurrentModificationError);
+      expect((await audited.history({ isbn: "1" })).items).toHaveLength(1);
+    });
+
+    it("records the Puts, Updates and Deletes of a mutation", async () => {
+      await audited.putItem({ isbn: "1", title: "Dune" });
+      await audited.mutate([
+        { Put: { TableName: "Books", Item: { isbn: "2", title: "Emma" } } },
+        { Delete: { TableName: "Books", Key: { isbn: "1" } } },
+      ]);
+      expect((await audited.history({ isbn: "2" })).items).toEqual([
+        expect.objectContaining({ operation: "mutate", version: 1 }),
+      ]);
+      expect((await audited.history({ isbn: "1" })).items).toEqual([
+        expect.objectContaining({ operation: "put" }),
+        expect.objectContaining({
+          operation: "mutate",
+          changes: expect.objectContaining({ title: { old: "Dune" } }),
+        }),
+      ]);
+
+      await audited.mutate([
+        {
+          Update: {
+            TableName: "Books",
+            Key: { isbn: "2" },
+            UpdateExpression: "SET title = :title",
+            ExpressionAttributeValues: { ":title": "Persuasion" },
+          },
+        },
+      ]);
+      expect((await audited.history({ isbn: "2" })).items[1]).toMatchObject({
+        operation: "mutate",
+        version: 2,
+        changes: {
+          title: { old: "Emma", new: "Persuasion" },
+          version: { old: 1, new: 2 },
+        },
+        item: { isbn: "2", title: "Persuasion", version: 2 },
+      });
+      await expect(
+        audited.mutate([
+          {
+            Update: {
+              TableName: "Books",
+              Key: { isbn: "2" },
+              UpdateExpression: "SET title =",
+            },
+          },
+        ])
+      ).rejects.toBeInstanceOf(ValidationFailedError);
+    });
+
+    it("records related items moved along and upgrades written back", async () => {
+      const evolving = new Repository<Item>(indexedTable, client, {
+        historyTableName: "HistoryTable",
+        softDelete: {},
+        schemaEvolution: {
+          attribute: "schemaVersion",
+          currentVersion: 1,
+          upgrades: { 0: (item) => ({ ...item, title: item.name }) },
+          writeBack: true,
+        },
+      });
+      await seed(books, [
+        { isbn: "1", title: "Dune", schemaVersion: 1 },
+        { isbn: "review-1", parentId: "1", name: "Great" },
+      ]);
+
+      await evolving.getItem({ isbn: "review-1" });
+      await evolving.softDelete({ isbn: "1" }, { cascade: true });
+      await evolving.restore({ isbn: "1" }, { cascade: true });
+      await evolving.replacePrimaryKey({ isbn: "1" }, { isbn: "2" });
+
+      expect(
+        (await evolving.history({ isbn: "review-1" })).items.map(
+          ({ operation, changes }) => ({ operation, changes })
+        )
+      ).toEqual([
+        {
+          operation: "upgrade",
+          changes: { title: { new: "Great" }, schemaVersion: { new: 1 } },
+        },
+        {
+          operation: "softDelete",
+          changes: {
+            deletedAt: { new: expect.any(String) },
+          },
+        },
+        {
+          operation: "restore",
+          changes: { deletedAt: { old: expect.any(String) } },
+        },
+        {
+          operation: "replaceKey",
+          changes: { parentId: { old: "1", new: "2" } },
+        },
+      ]);
+    });
+
+    it("reverts an item to an earlier entry", async () => {
+      await audited.putItem({ isbn: "1", title: "Dune", price: 10 });
+      await audited.updateItem({ isbn: "1" }, { price: 25 });
+      const [first] = (await audited.history({ isbn: "1" })).items;
+
+      await expect(
+        audited.revert({ isbn: "1" }, first.entryId, { expectedVersion: 1 })
+      ).rejects.toBeInstanceOf(ConcurrentModificationError);
+      const reverted = await audited.revert({ isbn: "1" }, first.entryId, {
+        expectedVersion: 2,
+      });
+      expect(reverted).toEqual({
+        isbn: "1",
+        title: "Dune",
+        price: 10,
+        version: 3,
+      });
+      expect((await audited.history({ isbn: "1" })).items[2]).toMatchObject({
+        operation: "revert",
+        changes: { price: { old: 25, new: 10 }, version: { old: 2, new: 3 } },
+      });
+      await expect(
+        audited.revert({ isbn: "1" }, "missing")
+      ).rejects.toBeInstanceOf(ItemNotFoundError);
+    });
+  });
+
+  describe("versioned writes", () => {
+    let versioned: Repository<Item>;
+
+    beforeEach(() => {
+      versioned = new Repository<Item>(indexedTable, client, {
+        versionAttribute: "version",
+      });
+    });
+
+    it("increments the version and rejects stale writes", async () => {
+      const created = await versioned.putItem({ isbn: "1", title: "Dune" });
+      expect(created.version).toBe(1);
+
+      const updated = await versioned.updateItem(
+        { isbn: "1" },
+        { title: "Dune Messiah" },
+        { expectedVersion: 1 }
+      );
+      expect(updated).toMatchObject({ title: "Dune Messiah", version: 2 });
+
+      const error = await versioned
+        .updateItem({ isbn: "1" }, { title: "Emma" }, { expectedVersion: 1 })
+        .catch((error) => error);
+      expect(error).toBeInstanceOf(ConcurrentModificationError);
+      expect(error).toMatchObject({ expectedVersion: 1, actualVersion: 2 });
+    });
+
+    it("returns null when updating or deleting a missing item", async () => {
+      expect(await versioned.updateItem({ isbn: "1" }, { title: "x" })).toBe(
+        null
+      );
+      expect(await versioned.deleteItem({ isbn: "1" })).toBe(null);
+    });
+
+    it("combines update builders with the version increment", async () => {
+      await versioned.putItem({ isbn: "1", tags: ["a"], count: 1 });
+      const updated = await versioned.updateItem(
+        { isbn: "1" },
+        update<Item>().appendToList("tags", ["b"]).add("count", 2),
+        { condition: attribute("count").lt(5) }
+      );
+      expect(updated).toMatchObject({ tags: ["a", "b"], count: 3, version: 2 });
+    });
+  });
+
+  describe("batches", () => {
+    it("retries unprocessed writes and reads", async () => {
+      const options = { baseDelayMs: 1, maxDelayMs: 1 };
+      client.leaveUnprocessed(2);
+      const written = await books.batchWrite(
+        [{ isbn: "1" }, { isbn: "2" }, { isbn: "3" }],
+        [],
+        options
+      );
+      expect(written.every((result) => result.status === "written")).toBe(true);
+
+      client.leaveUnprocessed(1);
+      const read = await books.batchGet(
+        [{ isbn: "3" }, { isbn: "missing" }, { isbn: "1" }],
+        options
+      );
+      expect(read.map((result) => [result.key.isbn, result.status])).toEqual([
+        ["3", "found"],
+        ["missing", "not_found"],
+        ["1", "found"],
+      ]);
+    });
+  });
+
+  describe("retry policy", () => {
+    const conflict = () =>
+      Object.assign(new Error("Transaction cancelled"), {
+        name: "TransactionCanceledException",
+        CancellationReasons: [{ Code: "TransactionConflict" }],
+      });
+    const retry = { baseDelayMs: 1, maxDelayMs: 1 };
+
+    it("retries transaction conflicts and counts the retries", async () => {
+      const repository = new Repository<Item>(indexedTable, client, { retry });
+      jest.spyOn(client, "send").mockRejectedValueOnce(conflict());
+
+      await repository.mutate([
+        { Put: { TableName: "Books", Item: { isbn: "1" } } },
+      ]);
+
+      expect(client.items("Books")).toEqual([{ isbn: "1" }]);
+      expect(repository.retryStats()).toEqual({
+        calls: 1,
+        attempts: 2,
+        retries: 1,
+        exhausted: 0,
+        rejected: 0,
+      });
+    });
+
+    it("gives up after the last attempt with the attempts in the error", async () => {
+      const repository = new Repository<Item>(indexedTable, client, {
+        retry: { ...retry, maxAttempts: 2 },
+      });
+      jest.spyOn(client, "send").mockRejectedValue(conflict());
+
+      const error = await repository
+        .mutate([{ Put: { TableName: "Books", Item: { isbn: "1" } } }])
+        .catch((error) => error);
+
+      expect(error).toBeInstanceOf(TransactionConflictError);
+      expect(error.metadata).toMatchObject({
+        attempts: 2,
+        results: [expect.objectContaining({ code: "TransactionConflict" })],
+      });
+      expect(repository.retryStats()).toMatchObject({ exhausted: 1 });
+    });
+
+    it("does not retry failed conditions", async () => {
+      const repository = new Repository<Item>(indexedTable, client, { retry });
+      await repository.putItem({ isbn: "1" });
+      await expect(
+        repository.putItem(
+          { isbn: "1" },
+          { condition: attribute("isbn").notExists() }
+        )
+      ).rejects.toBeInstanceOf(ConditionalCheckFailedError);
+      expect(repository.retryStats()).toMatchObject({ calls: 2, retries: 0 });
+    });
+
+    it("fails fast once the circuit breaker opens", async () => {
+      const circuitBreaker = new CircuitBreaker({ failureThreshold: 2 });
+      const repository = new Repository<Item>(indexedTable, client, {
+        retry: { ...retry, maxAttempts: 1 },
+        circuitBreaker,
+      });
+      const send = jest.spyOn(client, "send").mockRejectedValue(
+        Object.assign(new Error("Service unavailable"), {
+          name: "InternalServerError",
+        })
+      );
+
+      for (let i = 0; i < 2; i += 1) {
+        await expect(repository.getItem({ isbn: "1" })).rejects.toBeInstanceOf(
+          DatabaseOperationError
+        );
+      }
+      await expect(repository.getItem({ isbn: "1" })).rejects.toBeInstanceOf(
+        CircuitOpenError
+      );
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(repository.retryStats()).toMatchObject({ rejected: 1 });
+    });
+  });
+
+  it("keeps the circuit breaker closed for failed conditions", async () => {
+    const circuitBreaker = new CircuitBreaker({ failureThreshold: 2 });
+    const repository = new Repository<Item>(indexedTable, client, {
+      versionAttribute: "version",
+      circuitBreaker,
+    });
+    await repository.putItem({ isbn: "1", title: "Dune" });
+
+    for (let i = 0; i < 5; i += 1) {
+      await expect(
+        repository.mutate([
+          {
+            Put: {
+              TableName: "Books",
+              Item: { isbn: "1", title: "Dune" },
+              ConditionExpression: "attribute_not_exists(isbn)",
+            },
+          },
+        ])
+      ).rejects.toBeInstanceOf(DatabaseOperationError);
+    }
+    expect(circuitBreaker.state).toBe("closed");
+    await expect(repository.getItem({ isbn: "1" })).resolves.toMatchObject({
+      title: "Dune",
+    });
+  });
+
+  describe("schema validation", () => {
+    const schema = z.object({ isbn: z.string(), title: z.string() });
+
+    beforeEach(() =>
+      seed(books, [
+        { isbn: "1", title: "Dune" },
+        { isbn: "2", parentId: "1" },
+      ])
+    );
+
+    it("throws for invalid items in strict mode", async () => {
+      const strict = new Repository<Item>(indexedTable, client, { schema });
+      await expect(strict.getItem({ isbn: "1" })).resolves.toEqual({
+        isbn: "1",
+        title: "Dune",
+      });
+      const error = await strict.getItem({ isbn: "2" }).catch((e) => e);
+      expect(error).toBeInstanceOf(InvalidStoredItemError);
+      expect(error.key).toEqual({ isbn: "2" });
+      expect(error.issues).toEqual([
+        expect.objectContaining({ path: ["title"] }),
+      ]);
+    });
+
+    it("logs and passes invalid items through in lenient mode", async () => {
+      const lines: string[] = [];
+      const lenient = new Repository<Item>(indexedTable, client, {
+        schema,
+        validation: "lenient",
+        observability: {
+          logger: new JsonLogger({ write: (line) => lines.push(line) }),
+        },
+      });
+      const page = await lenient.listItems();
+      expect(page.items).toHaveLength(2);
+      expect(lines.map((line) => JSON.parse(line))).toEqual([
+        expect.objectContaining({
+          level: "warn",
+          key: { isbn: "2" },
+          issues: [expect.objectContaining({ path: ["title"] })],
+        }),
+      ]);
+    });
+
+    it("leaves invalid items out in drop mode", async () => {
+      const dropping = new Repository<Item>(indexedTable, client, {
+        schema,
+        validation: "drop",
+      });
+      expect((await dropping.listItems()).items).toEqual([
+        { isbn: "1", title: "Dune" },
+      ]);
+      await expect(dropping.getItem({ isbn: "2" })).resolves.toBeNull();
+      // Related items are of another type and are not validated.
+      await expect(dropping.queryRelatedItems("1")).resolves.toEqual([
+        { isbn: "2", parentId: "1" },
+      ]);
+    });
+  });
+
+  describe("schema evolution", () => {
+    const schemaEvolution = {
+      attribute: "schemaVersion",
+      currentVersion: 2,
+      upgrades: {
+        0: (item: Record<string, any>) => ({ ...item, title: item.name }),
+        1: ({ name, ...item }: Record<string, any>) => item,
+      },
+    };
+
+    it("upgrades old items on read and stamps new writes", async () => {
+      await seed(books, [{ isbn: "1", name: "Dune" }]);
+      const evolving = new Repository<Item>(indexedTable, client, {
+        schemaEvolution,
+      });
+
+      await expect(evolving.getItem({ isbn: "1" })).resolves.toEqual({
+        isbn: "1",
+        title: "Dune",
+        schemaVersion: 2,
+      });
+      expect(client.items("Books")).toEqual([{ isbn: "1", name: "Dune" }]);
+
+      await evolving.putItem({ isbn: "2", title: "Emma" });
+      expect(client.items("Books")[1]).toEqual({
+        isbn: "2",
+        title: "Emma",
+        schemaVersion: 2,
+      });
+    });
+
+    it("writes upgraded items back unless they changed", async () => {
+      await seed(books, [
+        { isbn: "1", name: "Dune", schemaVersion: 1, title: "Dune" },
+      ]);
+      const evolving = new Repository<Item>(indexedTable, client, {
+        schemaEvolution: { ...schemaEvolution, writeBack: true },
+      });
+
+      await evolving.getItem({ isbn: "1" });
+      expect(client.items("Books")).toEqual([
+        { isbn: "1", title: "Dune", schemaVersion: 2 },
+      ]);
+    });
+  });
+});
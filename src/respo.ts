@@ -1,253 +1,3016 @@
 import {
-  DynamoDBDocumentClient,
   TransactWriteCommand,
   ScanCommand,
   QueryCommand,
   GetCommand,
+  PutCommand,
+  UpdateCommand,
+  DeleteCommand,
+  BatchGetCommand,
+  BatchWriteCommand,
   TransactWriteCommandInput,
+  ScanCommandInput,
+  QueryCommandInput,
 } from "@aws-sdk/lib-dynamodb";
-import { getDDBUpdateExpression } from "./util-expression";
-import { DynamoDBKey, ReplaceKeyConfig, DatabaseOperationError } from "./types"; // Placeholder for actual type imports.
+import { createHash, randomUUID } from "crypto";
+import { ZodTypeAny } from "zod";
+import { isDeepStrictEqual } from "util";
+import { marshall, unmarshall } from "@aws-sdk/util-dynamodb";
+import {
+  getDDBUpdateExpression,
+  update,
+  UpdateExpressionBuilder,
+} from "./util-expression";
+import { encodeCursor, decodeCursor } from "./util-cursor";
+import { backoffDelay, sleep } from "./util-backoff";
+import {
+  attribute,
+  and,
+  buildExpressions,
+  Condition,
+  AttributePath,
+} from "./util-condition";
+import { AttributeRegistry } from "./util-registry";
+import {
+  cancellationReasons,
+  classifyDynamoDBError,
+  DynamoDBException,
+  isDynamoDBException,
+  isRetryableError,
+  isServiceFailure,
+} from "./util-errors";
+import { withRetry, RetryOptions } from "./util-retry";
+import { TokenBucket } from "./util-rate-limit";
+import { CircuitBreaker } from "./util-circuit-breaker";
+import { planSearch } from "./util-search";
+import { historyTable, historyKey, historyEntryId, diffItems } from "./audit";
+import { TenantScopedClient } from "./tenancy";
+import { ReadCache } from "./cache";
+import {
+  ExpressionContext,
+  ExpressionError,
+  parseUpdate,
+} from "./memory-expression";
+import {
+  DynamoDBInstrumentation,
+  Logger,
+  defaultLogger,
+  operationOf,
+} from "./observability";
+import {
+  DynamoDBKey,
+  KeyAttribute,
+  KeyValue,
+  IndexDescriptor,
+  TableDescriptor,
+  ReplaceKeyConfig,
+  ReplaceKeyResult,
+  ReadOptions,
+  DeletedItemsFilter,
+  SoftDelete,
+  SoftDeleteOptions,
+  MutateOptions,
+  AuditContext,
+  AuditOperation,
+  HistoryEntry,
+  DomainEvent,
+  OutboxItem,
+  BatchOptions,
+  BatchGetOptions,
+  BatchGetResult,
+  BatchWriteResult,
+  TransactionOperationType,
+  TransactionOperationResult,
+  TransactionCanceledError,
+  ItemNotFoundError,
+  ConditionalCheckFailedError,
+  ConcurrentModificationError,
+  TransactionConflictError,
+  ThrottledError,
+  ValidationFailedError,
+  InvalidStoredItemError,
+  CircuitOpenError,
+  RepositoryOptions,
+  ReadValidation,
+  SchemaEvolution,
+  RetryStats,
+  PageOptions,
+  Page,
+  IterateOptions,
+  QueryCriteria,
+  ScanCriteria,
+  SearchCriteria,
+  SearchPage,
+  InvalidCursorError,
+  WriteOptions,
+  DocumentClient,
+  DocumentCommand,
+  CommandOutput,
+} from "./types"; // Placeholder for actual type imports.
+
+// DynamoDB rejects transactions with more items than this.
+const MAX_TRANSACTION_ITEMS = 100;
+
+// Request size limits of BatchGetItem and BatchWriteItem.
+const MAX_BATCH_GET_KEYS = 100;
+const MAX_BATCH_WRITE_ITEMS = 25;
+
+const DEFAULT_BATCH_ATTEMPTS = 5;
+
+const DEFAULT_SEARCH_LIMIT = 25;
+// Pages one search reads at most; selective filters return a cursor instead
+// of scanning on until the page is full.
+const MAX_SEARCH_PAGES = 5;
+// Items a search evaluates at most to sort them in memory.
+const MAX_SORTED_ITEMS = 1000;
+
+// Defaults of the soft delete settings, see RepositoryOptions.softDelete.
+const DEFAULT_DELETED_ATTRIBUTE = "deletedAt";
+const DEFAULT_RETENTION_DAYS = 30;
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// Reads and write attempts of an audited write that keeps losing to others.
+const MAX_AUDITED_WRITE_ATTEMPTS = 3;
+
+// Recorded as the actor of writes made outside withAuditContext.
+const DEFAULT_ACTOR = "system";
+
+// Holds the tenant id of items, see RepositoryOptions.tenancy.
+const DEFAULT_TENANT_ATTRIBUTE = "tenantId";
+
+// Marks an item whose related items are still being re-pointed at its new key.
+const KEY_MIGRATION_ATTRIBUTE = "keyMigration";
+
+// Attempts made by the call that threw an error, see Repository.call.
+const callAttempts = new WeakMap<object, number>();
+
+// A single read request that can be resumed page by page. Only complete
+// items are upgraded and validated, not projections or related items.
+type ReadRequest =
+  | { kind: "scan"; input: ScanCommandInput; complete: boolean }
+  | { kind: "query"; input: QueryCommandInput; complete: boolean };
+
+export class Repository<T extends Record<string, any>> {
+  readonly table: TableDescriptor;
+  private tableName: string;
+  private db: DocumentClient;
+  private versionAttribute?: string;
+  private schema?: ZodTypeAny;
+  private validation: ReadValidation;
+  private evolution?: SchemaEvolution;
+  private outboxTableName?: string;
+  private deletion?: Required<SoftDelete>;
+  private historyTableName?: string;
+  private auditContext: AuditContext = { actor: DEFAULT_ACTOR };
+  private tenantId?: string;
+  private retry: RetryOptions;
+  private rateLimiter?: TokenBucket;
+  private circuitBreaker?: CircuitBreaker;
+  private cache?: ReadCache;
+  private related?: Repository<any>;
+  private logger: Logger;
+  private instrumentation: DynamoDBInstrumentation;
+  private stats: RetryStats = {
+    calls: 0,
+    attempts: 0,
+    retries: 0,
+    exhausted: 0,
+    rejected: 0,
+  };
+
+  constructor(
+    table: TableDescriptor,
+    dbClient: DocumentClient,
+    options: RepositoryOptions = {}
+  ) {
+    this.table = table;
+    this.tableName = table.tableName;
+    this.db = options.tenancy
+      ? new TenantScopedClient(
+          dbClient,
+          table,
+          options.tenancy.attribute ?? DEFAULT_TENANT_ATTRIBUTE
+        )
+      : dbClient;
+    this.versionAttribute = options.versionAttribute;
+    this.schema = options.schema;
+    this.validation = options.validation ?? "strict";
+    this.evolution = options.schemaEvolution;
+    this.outboxTableName = options.outboxTableName;
+    this.deletion = options.softDelete && {
+      attribute: options.softDelete.attribute ?? DEFAULT_DELETED_ATTRIBUTE,
+      retentionDays: options.softDelete.retentionDays ?? DEFAULT_RETENTION_DAYS,
+    };
+    this.historyTableName = options.historyTableName;
+    this.retry = options.retry ?? {};
+    this.rateLimiter = options.rateLimiter;
+    this.circuitBreaker = options.circuitBreaker;
+    this.cache = options.cache;
+    this.related = options.relatedItems;
+    this.logger = options.observability?.logger ?? defaultLogger;
+    this.instrumentation = new DynamoDBInstrumentation(
+      this.tableName,
+      options.observability ?? {}
+    );
+  }
+
+  /**
+   * How many DynamoDB calls this repository made, and how many of them
+   * needed retries, ran out of attempts or were refused by the circuit breaker.
+   */
+  retryStats(): RetryStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Extracts the primary key of an item as declared by the table descriptor.
+   */
+  keyOf(item: Record<string, any>): DynamoDBKey {
+    const key: DynamoDBKey = {};
+    for (const { name } of this.keyAttributes()) {
+      key[name] = item[name];
+    }
+    return this.assertKey(key);
+  }
+
+  /**
+   * Generic method to perform transactional mutations on DynamoDB.
+   * The operations are validated up front: each must hold exactly one of
+   * Put, Update, Delete or ConditionCheck, no item may be touched twice in a
+   * transaction, and at most 100 operations fit into one transaction unless
+   * `chunk` allows splitting them into several transactions.
+   * When versioning is enabled, Put items are written with the next version
+   * and conditioned on the version they carry, and Updates increment it.
+   * Domain events are written to the outbox table as part of the last
+   * transaction, so they exist exactly when the mutation succeeded. With a
+   * history table, every Put, Update and Delete is recorded in the
+   * transaction that writes it, Updates with the item their expression
+   * leaves behind.
+   * @param operations Array of operations (Put, Update, Delete, ConditionCheck) to be performed in the transaction.
+   * @param options Idempotency token, whether to chunk large batches and the
+   * domain events to emit.
+   * @returns Promise<void>
+   * @throws TransactionCanceledError listing which operations failed and why.
+   */
+  async mutate(
+    operations: TransactWriteCommandInput["TransactItems"],
+    { clientRequestToken, chunk = false, events = [] }: MutateOptions = {}
+  ): Promise<void> {
+    // Ensure there are operations to perform
+    if (!operations || operations.length === 0) {
+      throw this.invalidMutation("No operations provided for transaction.");
+    }
+    const historyCount = this.historyTableName
+      ? operations.filter((op) => !op.ConditionCheck).length
+      : 0;
+    const count = operations.length + historyCount + events.length;
+    if (count > MAX_TRANSACTION_ITEMS && !chunk) {
+      throw this.invalidMutation(
+        `A transaction holds at most ${MAX_TRANSACTION_ITEMS} operations, got ${count}.`
+      );
+    }
+    if (
+      clientRequestToken !== undefined &&
+      (clientRequestToken.length < 1 || clientRequestToken.length > 36)
+    ) {
+      throw this.invalidMutation(
+        "ClientRequestToken must be between 1 and 36 characters."
+      );
+    }
+
+    const items = operations.map((op, index) => this.transactItem(op, index));
+    const { written, records } = await this.recordMutation(items);
+    // History entries follow the operations of their transaction, so failures
+    // keep the index of the operation the caller passed.
+    const transactions: TransactItem[][] = [];
+    const offsets: number[] = [];
+    let pending: { items: TransactItem[]; records: TransactItem[] } = {
+      items: [],
+      records: [],
+    };
+    const flush = () => {
+      transactions.push([...pending.items, ...pending.records]);
+      pending = { items: [], records: [] };
+    };
+    written.forEach((item, index) => {
+      const size = pending.items.length + pending.records.length;
+      if (size + 1 + records[index].length > MAX_TRANSACTION_ITEMS) {
+        flush();
+      }
+      if (pending.items.length === 0) {
+        offsets.push(index);
+      }
+      pending.items.push(item);
+      pending.records.push(...records[index]);
+    });
+    flush();
+    this.outboxOperations(events).forEach((event, index) => {
+      if (
+        transactions[transactions.length - 1].length === MAX_TRANSACTION_ITEMS
+      ) {
+        transactions.push([]);
+        offsets.push(operations.length + index);
+      }
+      transactions[transactions.length - 1].push(event);
+    });
+    transactions.forEach((transaction, index) =>
+      this.assertDistinctItems(transaction, offsets[index])
+    );
+
+    for (const [index, transaction] of transactions.entries()) {
+      const offset = offsets[index];
+      try {
+        await this.call(() =>
+          this.send(
+            new TransactWriteCommand({
+              TransactItems: transaction,
+              ClientRequestToken:
+                clientRequestToken === undefined
+                  ? undefined
+                  : chunkToken(clientRequestToken, index, transactions.length),
+            })
+          )
+        );
+      } catch (error) {
+        this.throwTransactionError(error, transaction, offset);
+        this.handleDynamoDBError(error, "mutate", {
+          transaction: index,
+          transactions: transactions.length,
+        });
+        throw error; // Rethrow after logging/handling
+      }
+
+      const written = transaction.filter(
+        (item) =>
+          !item.ConditionCheck &&
+          !this.isOutboxOperation(item) &&
+          !this.isHistoryOperation(item)
+      );
+      await this.invalidate(
+        written.map((item) => this.keyOf(operationKey(item))),
+        written.map((item) => item.Put?.Item as T | undefined)
+      );
+    }
+  }
+
+  /**
+   * Fetches a single item by its primary key, upgraded to the current schema
+   * version and validated when a schema is configured. With a cache, reads
+   * that are neither consistent nor include soft-deleted items are served
+   * from it, misses included; writes through this repository invalidate it.
+   * @param key Primary key of the item to read.
+   * @param options Whether to perform a strongly consistent read and to
+   * return the item when it is soft-deleted.
+   * @returns The item, or null when no item exists under the key, it is
+   * soft-deleted or the schema rejects it in "drop" mode.
+   */
+  async getItem(
+    key: DynamoDBKey,
+    options: ReadOptions = {}
+  ): Promise<T | null> {
+    if (this.cache && !options.consistentRead && !options.includeDeleted) {
+      return this.cache.read(this.itemCacheKey(this.keyOf(key)), () =>
+        this.loadItem(key, options)
+      );
+    }
+    return this.loadItem(key, options);
+  }
+
+  // Reads an item as getItem returns it, bypassing the cache.
+  private async loadItem(
+    key: DynamoDBKey,
+    options: ReadOptions
+  ): Promise<T | null> {
+    const item = await this.fetchItem(key, options);
+    if (!item || (!options.includeDeleted && this.isDeleted(item))) {
+      return null;
+    }
+    return this.readItem(item, "getItem");
+  }
+
+  // Reads an item as stored, without upgrading or validating it.
+  private async fetchItem(
+    key: DynamoDBKey,
+    { consistentRead }: ReadOptions
+  ): Promise<T | null> {
+    try {
+      const result = await this.call(() =>
+        this.send(
+          new GetCommand({
+            TableName: this.tableName,
+            Key: this.assertKey(key),
+            ConsistentRead: consistentRead,
+          })
+        )
+      );
+      return (result.Item as T) ?? null;
+    } catch (error) {
+      this.handleDynamoDBError(error, "getItem", { key });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists items with a paginated table scan.
+   * @param options Page size, the cursor returned by the previous page and
+   * whether to include soft-deleted items.
+   * @returns The page of items and the cursor for the next page, if any.
+   */
+  async listItems({
+    includeDeleted,
+    ...options
+  }: PageOptions & DeletedItemsFilter = {}): Promise<Page<T>> {
+    return this.scanPage({ includeDeleted }, options);
+  }
+
+  /**
+   * Walks every item in the table, fetching further pages as needed.
+   * @param options Page size, an optional cap on the total items yielded and
+   * whether to include soft-deleted items.
+   */
+  iterateItems({
+    includeDeleted,
+    ...options
+  }: IterateOptions & DeletedItemsFilter = {}): AsyncGenerator<T> {
+    return this.iterateScan({ includeDeleted }, options);
+  }
+
+  /**
+   * Reads a single page of a Query against the table or one of its indexes.
+   * @param criteria Key condition plus optional index, filter and projection.
+   * @param options Page size and the cursor returned by the previous page.
+   */
+  async queryPage(
+    criteria: QueryCriteria,
+    options: PageOptions = {}
+  ): Promise<Page<T>> {
+    return this.fetchPage(this.queryRequest(criteria), options);
+  }
+
+  /**
+   * Walks every item matched by a Query across all pages.
+   * @param criteria Key condition plus optional index, filter and projection.
+   * @param options Page size and an optional cap on the total items yielded.
+   */
+  iterateQuery(
+    criteria: QueryCriteria,
+    options: IterateOptions = {}
+  ): AsyncGenerator<T> {
+    return this.iterate(this.queryRequest(criteria), options);
+  }
+
+  /**
+   * Reads a single page of a Scan over the table or one of its indexes.
+   * @param criteria Optional index, filter and projection.
+   * @param options Page size and the cursor returned by the previous page.
+   */
+  async scanPage(
+    criteria: ScanCriteria = {},
+    options: PageOptions = {}
+  ): Promise<Page<T>> {
+    return this.fetchPage(this.scanRequest(criteria), options);
+  }
+
+  /**
+   * Walks every item matched by a Scan across all pages.
+   * @param criteria Optional index, filter and projection.
+   * @param options Page size and an optional cap on the total items yielded.
+   */
+  iterateScan(
+    criteria: ScanCriteria = {},
+    options: IterateOptions = {}
+  ): AsyncGenerator<T> {
+    return this.iterate(this.scanRequest(criteria), options);
+  }
+
+  /**
+   * Finds items matching all filters through the best fitting key, see
+   * planSearch: a Query when a filter pins the partition key of the table or
+   * an index, a filtered Scan otherwise. Pages are read until `limit` items
+   * match, the items run out or MAX_SEARCH_PAGES pages were read, so a page
+   * may hold fewer items than `limit` and still have a cursor to continue
+   * from. An order the key cannot provide is applied
+   * in memory, which reads every matching item for each page; searches that
+   * would evaluate more than MAX_SORTED_ITEMS items for it are refused.
+   * @param criteria Filters, order, page size and the previous page's cursor.
+   * @returns The page of items, which index served it and how many items
+   * DynamoDB evaluated for it.
+   * @throws ValidationFailedError when too many items are to be sorted.
+   */
+  async search(criteria: SearchCriteria): Promise<SearchPage<T>> {
+    const { limit = DEFAULT_SEARCH_LIMIT, cursor, includeDeleted } = criteria;
+    const plan = planSearch(this.table, criteria);
+    const request =
+      plan.operation === "query"
+        ? this.queryRequest({
+            indexName: plan.indexName,
+            keyCondition: plan.keyCondition!,
+            filter: plan.filter,
+            descending: plan.descending,
+            includeDeleted,
+          })
+        : this.scanRequest({ filter: plan.filter, includeDeleted });
+
+    const items: T[] = [];
+    let scannedCount = 0;
+    let next: string | null;
+
+    if (plan.sortInMemory) {
+      const { attribute: sortAttribute, descending } = plan.sortInMemory;
+      const offset = cursor ? decodeOffset(cursor) : 0;
+      let page: string | null = null;
+      do {
+        const result = await this.readPage(request, {
+          limit: MAX_SORTED_ITEMS - scannedCount,
+          cursor: page ?? undefined,
+        });
+        items.push(...result.items);
+        scannedCount += result.scannedCount;
+        page = result.cursor;
+      } while (page && scannedCount < MAX_SORTED_ITEMS);
+      if (page) {
+        throw new ValidationFailedError(
+          `Too many items to sort them in memory, at most ${MAX_SORTED_ITEMS} are.`,
+          {
+            operation: "search",
+            issues: [
+              {
+                path: ["sort"],
+                message: "Narrow the search down with a key filter.",
+              },
+            ],
+          }
+        );
+      }
+
+      items.sort(
+        (a, b) =>
+          compareSortValues(a[sortAttribute], b[sortAttribute]) *
+          (descending ? -1 : 1)
+      );
+      const matched = items.length;
+      items.splice(0, offset);
+      items.splice(limit);
+      next =
+        offset + items.length < matched
+          ? encodeCursor({ offset: offset + items.length })
+          : null;
+    } else {
+      next = cursor ?? null;
+      let pages = 0;
+      do {
+        // Never evaluates more items than are still needed, so no matching
+        // item is skipped when the page is cut off.
+        const result = await this.readPage(request, {
+          limit: limit - items.length,
+          cursor: next ?? undefined,
+        });
+        items.push(...result.items);
+        scannedCount += result.scannedCount;
+        next = result.cursor;
+        pages += 1;
+      } while (next && items.length < limit && pages < MAX_SEARCH_PAGES);
+    }
+
+    return {
+      items,
+      cursor: next,
+      indexName: plan.indexName ?? null,
+      operation: plan.operation,
+      scannedCount,
+      count: items.length,
+    };
+  }
+
+  /**
+   * Creates or fully replaces an item.
+   * With versioning enabled the write is conditioned on `expectedVersion`
+   * (falling back to the version carried by the item) and bumps the version;
+   * an item without any version is only written when none is stored yet.
+   * @param item The complete item, including its primary key attributes.
+   * @param options Optional condition and expected version of the stored item.
+   * @returns The item as written.
+   */
+  async putItem(
+    item: T,
+    { condition, expectedVersion }: WriteOptions = {}
+  ): Promise<T> {
+    this.keyOf(item);
+    const version = this.versionAttribute
+      ? expectedVersion ?? (item[this.versionAttribute] as number | undefined)
+      : undefined;
+    const written: T = this.versionAttribute
+      ? { ...this.stamp(item), [this.versionAttribute]: (version ?? 0) + 1 }
+      : this.stamp(item);
+    const request = (asRead?: Condition) => ({
+      TableName: this.tableName,
+      Item: written,
+      ...buildExpressions({
+        condition: allOf(condition, this.versionCondition(version), asRead),
+      }),
+      ReturnValuesOnConditionCheckFailure: "ALL_OLD" as const,
+    });
+
+    try {
+      if (this.historyTableName) {
+        await this.auditedWrite(this.keyOf(item), "put", (_, asRead) => ({
+          write: { Put: request(asRead) },
+          after: written,
+        }));
+      } else {
+        await this.call(() => this.send(new PutCommand(request())));
+      }
+      await this.invalidate([this.keyOf(item)], [written]);
+      return written;
+    } catch (error) {
+      this.throwOnVersionConflict(error, "putItem", true, version);
+      this.handleDynamoDBError(error, "putItem", {});
+      throw error;
+    }
+  }
+
+  /**
+   * Updates individual attributes of an existing item without touching the rest.
+   * @param key Primary key of the item to update.
+   * @param changes Attributes to set on the item, or an update builder for
+   * REMOVE/ADD/DELETE clauses, nested paths and list operations.
+   * With versioning enabled the version is incremented, and checked first
+   * when `expectedVersion` is given. Soft-deleted items are not updated.
+   * @param options Optional condition and expected version of the stored item.
+   * @returns The updated item, or null when no item matched the key and condition.
+   */
+  async updateItem(
+    key: DynamoDBKey,
+    changes: Partial<T> | UpdateExpressionBuilder<T>,
+    { condition, expectedVersion }: WriteOptions = {}
+  ): Promise<T | null> {
+    const builder =
+      changes instanceof UpdateExpressionBuilder
+        ? changes.clone()
+        : Object.entries(changes).reduce(
+            (acc, [name, value]) => acc.set(name, value),
+            new UpdateExpressionBuilder()
+          );
+    if (builder.isEmpty()) {
+      throw new ValidationFailedError("No attributes provided for update.", {
+        operation: "updateItem",
+      });
+    }
+    if (this.versionAttribute) {
+      builder.add(this.versionAttribute as AttributePath<T>, 1);
+    }
+
+    // Only update items that already exist instead of creating partial ones.
+    const exists = attribute(this.table.partitionKey.name).exists();
+    const request = (asRead?: Condition) => {
+      const registry = new AttributeRegistry();
+      const UpdateExpression = builder.render(registry);
+      return {
+        TableName: this.tableName,
+        Key: this.assertKey(key),
+        UpdateExpression,
+        ...buildExpressions(
+          {
+            condition: allOf(
+              exists,
+              this.notDeleted(),
+              condition,
+              expectedVersion !== undefined
+                ? this.versionCondition(expectedVersion)
+                : undefined,
+              asRead
+            ),
+          },
+          registry
+        ),
+        ReturnValuesOnConditionCheckFailure: "ALL_OLD" as const,
+      };
+    };
+
+    try {
+      if (this.historyTableName) {
+        const written = await this.auditedWrite(
+          key,
+          "update",
+          (before, asRead) =>
+            before && {
+              write: { Update: request(asRead) },
+              after: builder.applyTo(before),
+            }
+        );
+        await this.invalidate([key], [written?.before, written?.after]);
+        return written?.after ?? null;
+      }
+      const result = await this.call(() =>
+        this.send(new UpdateCommand({ ...request(), ReturnValues: "ALL_NEW" }))
+      );
+      await this.invalidate([key], [result.Attributes as T]);
+      return result.Attributes as T;
+    } catch (error) {
+      this.throwOnVersionConflict(
+        error,
+        "updateItem",
+        expectedVersion !== undefined,
+        expectedVersion
+      );
+      if (isConditionalCheckFailure(error)) {
+        return null;
+      }
+      this.handleDynamoDBError(error, "updateItem", { key });
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a single item by its primary key.
+   * @param key Primary key of the item to delete.
+   * @param options Optional condition and expected version of the stored item.
+   * @returns The deleted item, or null when no item existed under the key.
+   */
+  async deleteItem(
+    key: DynamoDBKey,
+    { condition, expectedVersion }: WriteOptions = {}
+  ): Promise<T | null> {
+    const request = (asRead?: Condition) => ({
+      TableName: this.tableName,
+      Key: this.assertKey(key),
+      ...buildExpressions({
+        condition: allOf(
+          condition,
+          expectedVersion !== undefined
+            ? this.versionCondition(expectedVersion)
+            : undefined,
+          asRead
+        ),
+      }),
+      ReturnValuesOnConditionCheckFailure: "ALL_OLD" as const,
+    });
+
+    try {
+      if (this.historyTableName) {
+        const written = await this.auditedWrite(
+          key,
+          "delete",
+          (before, asRead) =>
+            before && { write: { Delete: request(asRead) }, after: null }
+        );
+        await this.invalidate([key], [written?.before]);
+        return written?.before ?? null;
+      }
+      const result = await this.call(() =>
+        this.send(new DeleteCommand({ ...request(), ReturnValues: "ALL_OLD" }))
+      );
+      await this.invalidate([key], [result.Attributes as T | undefined]);
+      return (result.Attributes as T) ?? null;
+    } catch (error) {
+      this.throwOnVersionConflict(
+        error,
+        "deleteItem",
+        expectedVersion !== undefined,
+        expectedVersion
+      );
+      if (isConditionalCheckFailure(error) && !error.Item) {
+        return null;
+      }
+      this.handleDynamoDBError(error, "deleteItem", { key });
+      throw error;
+    }
+  }
+
+  /**
+   * Marks an item as deleted instead of deleting it. Reads leave it out from
+   * then on, and the table's TTL attribute is set so DynamoDB removes it once
+   * the retention period is over, unless it is restored before.
+   * With `cascade` the related items are marked afterwards, in transactions
+   * of up to 100 items.
+   * @param key Primary key of the item to delete.
+   * @param options Expected version of the stored item and whether to
+   * delete the related items as well.
+   * @returns The item as marked, or null when no item exists under the key
+   * or it is soft-deleted already.
+   */
+  async softDelete(
+    key: DynamoDBKey,
+    options: SoftDeleteOptions = {}
+  ): Promise<T | null> {
+    return this.changeDeletion(
+      key,
+      new Date().toISOString(),
+      options,
+      "softDelete"
+    );
+  }
+
+  /**
+   * Brings back a soft-deleted item by clearing its deletion marker and
+   * expiry. With `cascade` the related items deleted along with it are
+   * restored too, but not those deleted on their own before.
+   * @param key Primary key of the item to restore.
+   * @param options Expected version of the stored item and whether to
+   * restore the related items as well.
+   * @returns The restored item, or null when no soft-deleted item exists
+   * under the key.
+   */
+  async restore(
+    key: DynamoDBKey,
+    options: SoftDeleteOptions = {}
+  ): Promise<T | null> {
+    return this.changeDeletion(key, undefined, options, "restore");
+  }
+
+  /**
+   * A view of this repository whose writes are recorded in the history as
+   * made by the given actor, in the given request. Everything else, such as
+   * the retry statistics, is shared with this repository.
+   */
+  withAuditContext(context: AuditContext): Repository<T> {
+    const view: Repository<T> = Object.create(this);
+    view.auditContext = context;
+    view.related = this.related?.withAuditContext(context);
+    return view;
+  }
+
+  /**
+   * A view of this repository that reads and writes only the items of one
+   * tenant, see TenantScopedClient. A repository of a table scoped to
+   * tenants refuses every request made outside such a view.
+   * @throws ValidationFailedError when the tenant id is malformed.
+   */
+  forTenant(tenantId: string): Repository<T> {
+    if (!(this.db instanceof TenantScopedClient)) {
+      throw new Error(`Table ${this.tableName} is not scoped to tenants.`);
+    }
+    const view: Repository<T> = Object.create(this);
+    view.db = this.db.forTenant(tenantId);
+    view.tenantId = tenantId;
+    view.related = this.related?.forTenant(tenantId);
+    return view;
+  }
+
+  /**
+   * Lists the history entries of an item, oldest first.
+   * @param key Primary key of the item.
+   * @param options Page size and the cursor returned by the previous page.
+   */
+  async history(
+    key: DynamoDBKey,
+    options: PageOptions = {}
+  ): Promise<Page<HistoryEntry>> {
+    return this.historyLog("history").queryPage(
+      {
+        keyCondition: attribute("itemKey").eq(
+          historyKey(this.tableName, this.keyOf(key), this.tenantId)
+        ),
+      },
+      options
+    );
+  }
+
+  /**
+   * Reads one history entry of an item.
+   * @returns The entry, or null when the item has no entry with that id.
+   */
+  async historyEntry(
+    key: DynamoDBKey,
+    entryId: string
+  ): Promise<HistoryEntry | null> {
+    return this.historyLog("historyEntry").getItem(
+      {
+        itemKey: historyKey(this.tableName, this.keyOf(key), this.tenantId),
+        entryId,
+      },
+      { consistentRead: true }
+    );
+  }
+
+  /**
+   * Writes an item back as it was after the write a history entry records,
+   * deleting it when that write deleted it. The revert is recorded as a
+   * write of its own, and bumps the version when versioning is enabled.
+   * @param key Primary key of the item.
+   * @param entryId History entry to go back to.
+   * @param options Expected version of the stored item.
+   * @returns The item as written, or null when it is deleted now.
+   * @throws ItemNotFoundError when the item has no entry with that id.
+   */
+  async revert(
+    key: DynamoDBKey,
+    entryId: string,
+    { expectedVersion }: Pick<WriteOptions, "expectedVersion"> = {}
+  ): Promise<T | null> {
+    const entry = await this.historyEntry(key, entryId);
+    if (!entry) {
+      throw new ItemNotFoundError("No such history entry for this item.", {
+        operation: "revert",
+        key: { ...key, entryId },
+      });
+    }
+
+    const versionCondition =
+      expectedVersion !== undefined
+        ? this.versionCondition(expectedVersion)
+        : undefined;
+    try {
+      const written = await this.auditedWrite(
+        key,
+        "revert",
+        (before, asRead) => {
+          const condition = allOf(versionCondition, asRead);
+          if (!entry.item) {
+            return (
+              before && {
+                write: {
+                  Delete: {
+                    TableName: this.tableName,
+                    Key: this.assertKey(key),
+                    ...buildExpressions({ condition }),
+                    ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+                  },
+                },
+                after: null,
+              }
+            );
+          }
+
+          let item = entry.item as T;
+          if (this.versionAttribute) {
+            item = {
+              ...item,
+              [this.versionAttribute]:
+                (before?.[this.versionAttribute] ?? 0) + 1,
+            };
+          }
+          return {
+            write: {
+              Put: {
+                TableName: this.tableName,
+                Item: item,
+                ...buildExpressions({ condition }),
+                ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+              },
+            },
+            after: item,
+          };
+        }
+      );
+      await this.invalidate([key], [written?.before, written?.after]);
+      return written?.after ?? null;
+    } catch (error) {
+      this.throwOnVersionConflict(
+        error,
+        "revert",
+        expectedVersion !== undefined,
+        expectedVersion
+      );
+      this.handleDynamoDBError(error, "revert", { key, entryId });
+      throw error;
+    }
+  }
+
+  /**
+   * Reads many items by key with BatchGetItem, in chunks of 100 keys.
+   * Keys DynamoDB leaves unprocessed are retried with exponential backoff
+   * and jitter until `maxAttempts` requests have been made for the chunk.
+   * @param keys Primary keys to read; duplicates are read once.
+   * @param options Retry limits, whether to read consistently and whether to
+   * include soft-deleted items, which are not found otherwise.
+   * @returns One result per requested key, in the requested order.
+   */
+  async batchGet(
+    keys: DynamoDBKey[],
+    {
+      maxAttempts = DEFAULT_BATCH_ATTEMPTS,
+      consistentRead,
+      includeDeleted,
+      ...backoff
+    }: BatchGetOptions = {}
+  ): Promise<BatchGetResult<T>[]> {
+    const unique = new Map<string, DynamoDBKey>();
+    for (const key of keys) {
+      unique.set(this.keyId(this.assertKey(key)), key);
+    }
+
+    const found = new Map<string, T>();
+    const unprocessed = new Set<string>();
+    const pending = Array.from(unique.values());
+
+    for (let i = 0; i < pending.length; i += MAX_BATCH_GET_KEYS) {
+      let chunk = pending.slice(i, i + MAX_BATCH_GET_KEYS);
+      for (let attempt = 0; chunk.length > 0; attempt += 1) {
+        if (attempt === maxAttempts) {
+          chunk.forEach((key) => unprocessed.add(this.keyId(key)));
+          break;
+        }
+        if (attempt > 0) {
+          await sleep(backoffDelay(attempt - 1, backoff));
+        }
+
+        try {
+          const result = await this.call(() =>
+            this.send(
+              new BatchGetCommand({
+                RequestItems: {
+                  [this.tableName]: {
+                    Keys: chunk,
+                    ConsistentRead: consistentRead,
+                  },
+                },
+              })
+            )
+          );
+          for (const stored of result.Responses?.[this.tableName] ?? []) {
+            if (!includeDeleted && this.isDeleted(stored as T)) {
+              continue;
+            }
+            const item = await this.readItem(stored as T, "batchGet");
+            if (item) {
+              found.set(this.keyId(this.keyOf(item)), item);
+            }
+          }
+          chunk = (result.UnprocessedKeys?.[this.tableName]?.Keys ??
+            []) as DynamoDBKey[];
+        } catch (error) {
+          this.handleDynamoDBError(error, "batchGet", { keys: chunk.length });
+          throw error;
+        }
+      }
+    }
+
+    return keys.map((key) => {
+      const id = this.keyId(key);
+      const item = found.get(id) ?? null;
+      return {
+        key,
+        item,
+        status: item
+          ? "found"
+          : unprocessed.has(id)
+          ? "unprocessed"
+          : "not_found",
+      };
+    });
+  }
+
+  /**
+   * Writes and deletes many items with BatchWriteItem, in chunks of 25.
+   * Batch writes cannot carry conditions, so versioned items get their next
+   * version without a check against the stored one.
+   * Items DynamoDB leaves unprocessed are retried with exponential backoff
+   * and jitter until `maxAttempts` requests have been made for the chunk.
+   * With a history table, BatchWriteItem cannot add the entries, so each
+   * item is written in its own transaction with its entry instead.
+   * @param puts Complete items to create or replace.
+   * @param deletes Primary keys of items to delete.
+   * @param options Retry limits.
+   * @returns One result per put, then one per delete, in the given order.
+   */
+  async batchWrite(
+    puts: T[],
+    deletes: DynamoDBKey[] = [],
+    { maxAttempts = DEFAULT_BATCH_ATTEMPTS, ...backoff }: BatchOptions = {}
+  ): Promise<BatchWriteResult[]> {
+    const requests = [
+      ...puts.map((item) => ({
+        key: this.keyOf(item),
+        type: "put" as const,
+        request: {
+          PutRequest: {
+            Item: this.versionAttribute
+              ? {
+                  ...this.stamp(item),
+                  [this.versionAttribute]:
+                    (item[this.versionAttribute] ?? 0) + 1,
+                }
+              : this.stamp(item),
+          },
+        },
+      })),
+      ...deletes.map((key) => ({
+        key: this.assertKey(key),
+        type: "delete" as const,
+        request: { DeleteRequest: { Key: key } },
+      })),
+    ];
+
+    // BatchWriteItem rejects requests that touch the same item twice.
+    const seen = new Set<string>();
+    for (const { key } of requests) {
+      const id = this.keyId(key);
+      if (seen.has(id)) {
+        throw new ValidationFailedError(
+          `Batch writes the same item ${id} more than once.`,
+          { operation: "batchWrite", metadata: { key } }
+        );
+      }
+      seen.add(id);
+    }
+
+    if (this.historyTableName) {
+      return this.auditedBatchWrite(requests);
+    }
+
+    const unprocessed = new Set<string>();
+    for (let i = 0; i < requests.length; i += MAX_BATCH_WRITE_ITEMS) {
+      let chunk: BatchWriteRequest[] = requests
+        .slice(i, i + MAX_BATCH_WRITE_ITEMS)
+        .map(({ request }) => request);
+      for (let attempt = 0; chunk.length > 0; attempt += 1) {
+        if (attempt === maxAttempts) {
+          chunk.forEach((request) =>
+            unprocessed.add(
+              this.keyId(
+                this.keyOf(
+                  request.PutRequest?.Item ?? request.DeleteRequest!.Key
+                )
+              )
+            )
+          );
+          break;
+        }
+        if (attempt > 0) {
+          await sleep(backoffDelay(attempt - 1, backoff));
+        }
+
+        try {
+          const result = await this.call(() =>
+            this.send(
+              new BatchWriteCommand({
+                RequestItems: { [this.tableName]: chunk },
+              })
+            )
+          );
+          chunk = (result.UnprocessedItems?.[this.tableName] ??
+            []) as typeof chunk;
+        } catch (error) {
+          this.handleDynamoDBError(error, "batchWrite", {
+            items: chunk.length,
+          });
+          throw error;
+        }
+      }
+    }
+
+    await this.invalidate(
+      requests.map(({ key }) => key),
+      puts
+    );
+    return requests.map(({ key, type }) => ({
+      key,
+      type,
+      status: unprocessed.has(this.keyId(key)) ? "unprocessed" : "written",
+    }));
+  }
+
+  // In your Repository class
+
+  /**
+   * Reads an item with its related items; both are served from the cache,
+   * when configured, unless soft-deleted items are included.
+   * Single-table layouts read an item with the items of its partition
+   * through SingleTable.queryCollection instead.
+   */
+  async getBookWithRelatedItems(
+    key: DynamoDBKey,
+    { includeDeleted }: DeletedItemsFilter = {}
+  ): Promise<{ book: T | null; relatedItems: T[] }> {
+    try {
+      if (this.cache && !includeDeleted) {
+        const [book, relatedItems] = await Promise.all([
+          this.getItem(key),
+          this.queryRelatedItems(key[this.table.partitionKey.name]),
+        ]);
+        return { book, relatedItems };
+      }
+
+      // Fetch the book item
+      const book = await this.call(() =>
+        this.send(
+          new GetCommand({
+            TableName: this.tableName,
+            Key: this.assertKey(key),
+          })
+        )
+      );
+
+      // Fetch the items related to the book through the declared relationship
+      const relatedItems = await this.queryRelatedItems(
+        key[this.table.partitionKey.name],
+        { includeDeleted }
+      );
+
+      const visible =
+        book.Item && (includeDeleted || !this.isDeleted(book.Item as T));
+      return {
+        book: visible
+          ? await this.readItem(book.Item as T, "getBookWithRelatedItems")
+          : null,
+        relatedItems,
+      };
+    } catch (error) {
+      this.handleDynamoDBError(error, "getBookWithRelatedItems", { key });
+    }
+  }
+
+  /**
+   * Moves an item to a new primary key and re-points its related items.
+   * The stored item is read, then in one transaction it is written under the
+   * new key (which must be free), deleted under the old key provided it is
+   * unchanged since the read, and its related items are re-pointed. When the
+   * related items do not fit into one transaction, the item is moved first
+   * with a migration marker and the related items follow in chunks; an
+   * interrupted migration is finished with resumeKeyMigration.
+   * @param oldPrimaryKey Key the item is currently stored under.
+   * @param newPrimaryKey Key to move the item to.
+   * @param otherAttributes Attributes to change while moving the item.
+   * @param config Whether to return the related items after the move, and
+   * domain events to write along with the key swap.
+   * @returns The item as persisted under the new key.
+   */
+  async replacePrimaryKey(
+    oldPrimaryKey: DynamoDBKey,
+    newPrimaryKey: DynamoDBKey,
+    otherAttributes: Partial<T> = {},
+    config: ReplaceKeyConfig = {}
+  ): Promise<ReplaceKeyResult<T>> {
+    this.assertKey(newPrimaryKey);
+    // The raw item, so the delete below can check it is still unchanged.
+    const existing = await this.fetchItem(oldPrimaryKey, {
+      consistentRead: true,
+    });
+    if (!existing || this.isDeleted(existing)) {
+      throw new ItemNotFoundError("No item exists under the old primary key.", {
+        operation: "replacePrimaryKey",
+        key: oldPrimaryKey,
+      });
+    }
+
+    const oldParent = oldPrimaryKey[this.table.partitionKey.name];
+    const newParent = newPrimaryKey[this.table.partitionKey.name];
+    const relatives = this.relatives();
+    // Related items point at the partition key, so only a new one moves them.
+    // Soft-deleted ones move too, so they can still be restored.
+    const relatedItems =
+      relatives.table.relationship && oldParent !== newParent
+        ? await this.queryRelatedItems(oldParent, { includeDeleted: true })
+        : [];
+    // With a history table, every write, related items included, adds an
+    // entry. Related items of another table follow in their own transactions,
+    // made through their repository.
+    const chunked =
+      relatives !== this ||
+      (relatedItems.length + 2) * (this.historyTableName ? 2 : 1) +
+        (config.events?.length ?? 0) >
+        MAX_TRANSACTION_ITEMS;
+
+    let newItem: T = {
+      ...this.upgrade(existing),
+      ...otherAttributes,
+      ...newPrimaryKey,
+    };
+    if (this.versionAttribute) {
+      newItem = {
+        ...newItem,
+        [this.versionAttribute]: (existing[this.versionAttribute] ?? 0) + 1,
+      };
+    }
+    if (chunked) {
+      newItem = {
+        ...newItem,
+        [KEY_MIGRATION_ATTRIBUTE]: { from: oldPrimaryKey },
+      };
+    }
+
+    // Begin a transaction to atomically replace the primary key and, when they fit, update related items.
+    try {
+      await this.call(() =>
+        this.send(
+          new TransactWriteCommand({
+            TransactItems: [
+              {
+                Put: {
+                  TableName: this.tableName,
+                  Item: newItem,
+                  ...buildExpressions({
+                    condition: attribute(
+                      this.table.partitionKey.name
+                    ).notExists(),
+                  }),
+                },
+              },
+              {
+                Delete: {
+                  TableName: this.tableName,
+                  Key: oldPrimaryKey,
+                  ...buildExpressions({ condition: this.unchanged(existing) }),
+                },
+              },
+              ...(chunked
+                ? []
+                : relatedItems.map((item) =>
+                    this.repointOperation(item, oldParent, newParent)
+                  )),
+              ...(chunked || !this.historyTableName
+                ? []
+                : relatedItems.map((item) =>
+                    this.historyOperation(
+                      this.keyOf(item),
+                      "replaceKey",
+                      item,
+                      this.repointed(item, newParent)
+                    )
+                  )),
+              ...this.outboxOperations(config.events ?? []),
+              ...(this.historyTableName
+                ? [
+                    this.historyOperation(
+                      oldPrimaryKey,
+                      "replaceKey",
+                      existing,
+                      null
+                    ),
+                    this.historyOperation(
+                      newPrimaryKey,
+                      "replaceKey",
+                      null,
+                      newItem
+                    ),
+                  ]
+                : []),
+            ],
+          })
+        )
+      );
+    } catch (error) {
+      const reasons = cancellationReasons(error);
+      if (reasons[0]?.Code === "ConditionalCheckFailed") {
+        throw new ConditionalCheckFailedError(
+          "An item already exists under the new primary key.",
+          {
+            cause: error as Error,
+            operation: "replacePrimaryKey",
+            metadata: { newPrimaryKey },
+          }
+        );
+      }
+      if (reasons.some((reason) => reason.Code === "ConditionalCheckFailed")) {
+        throw new ConcurrentModificationError(
+          "Item or its related items changed while replacing the primary key.",
+          { cause: error as Error, operation: "replacePrimaryKey" }
+        );
+      }
+      this.handleDynamoDBError(error, "replacePrimaryKey", {
+        oldPrimaryKey,
+        newPrimaryKey,
+      });
+    }
+
+    // Related items of another table are invalidated as they are re-pointed.
+    const ownRelatedItems = relatives === this ? relatedItems : [];
+    await this.invalidate(
+      [
+        oldPrimaryKey,
+        newPrimaryKey,
+        ...ownRelatedItems.map((item) => this.keyOf(item)),
+      ],
+      [existing, newItem, ...ownRelatedItems]
+    );
+
+    let migratedRelatedItems = relatedItems.length;
+    if (chunked) {
+      migratedRelatedItems = await this.repointRelatedItems(
+        oldParent,
+        newParent
+      );
+      newItem = await this.completeKeyMigration(newPrimaryKey);
+    }
+
+    // Optionally query for related items if specified in the configuration.
+    let queriedRelatedItems: T[] | null = null;
+    if (config.queryRelatedItems && relatives.table.relationship) {
+      queriedRelatedItems = await this.queryRelatedItems(newParent);
+    }
+
+    return {
+      newItem,
+      relatedItems: queriedRelatedItems,
+      migratedRelatedItems,
+      chunked,
+    };
+  }
+
+  /**
+   * Finishes a chunked key migration that was interrupted, re-pointing the
+   * related items that still reference the old key.
+   * @param newPrimaryKey Key the item was moved to.
+   * @returns The item as persisted once the migration is complete.
+   */
+  async resumeKeyMigration(newPrimaryKey: DynamoDBKey): Promise<T> {
+    const item = await this.getItem(newPrimaryKey, { consistentRead: true });
+    if (!item) {
+      throw new ItemNotFoundError("No item exists under the new primary key.", {
+        operation: "resumeKeyMigration",
+        key: newPrimaryKey,
+      });
+    }
+
+    const marker = item[KEY_MIGRATION_ATTRIBUTE] as
+      | { from: DynamoDBKey }
+      | undefined;
+    if (!marker) {
+      return item;
+    }
+
+    await this.repointRelatedItems(
+      marker.from[this.table.partitionKey.name],
+      newPrimaryKey[this.table.partitionKey.name]
+    );
+    return this.completeKeyMigration(newPrimaryKey);
+  }
+
+  // Re-points related items in transactions of up to MAX_TRANSACTION_ITEMS.
+  private async repointRelatedItems(
+    oldParent: KeyValue,
+    newParent: KeyValue
+  ): Promise<number> {
+    if (this.related) {
+      return this.related.repointRelatedItems(oldParent, newParent);
+    }
+    return this.transactEach(
+      this.iterateRelatedItems(oldParent, { includeDeleted: true }),
+      (item) => this.repointOperation(item, oldParent, newParent),
+      "repointRelatedItems",
+      { oldParent, newParent },
+      {
+        operation: "replaceKey",
+        after: (item) => this.repointed(item, newParent),
+      }
+    );
+  }
+
+  // A related item as re-pointing it at a new parent leaves it.
+  private repointed(item: T, newParent: KeyValue): T {
+    return { ...item, [this.relationship().attribute]: newParent };
+  }
+
+  /**
+   * Applies one operation per item, in transactions of up to
+   * MAX_TRANSACTION_ITEMS. Items whose condition fails, because an earlier,
+   * interrupted run or another writer changed them already, are skipped.
+   * With a history table, each operation is recorded as `audit` describes.
+   * @returns How many items were written.
+   */
+  private async transactEach(
+    items: AsyncIterable<T> | Iterable<T>,
+    toOperation: (item: T) => TransactItem,
+    operation: string,
+    metadata: Record<string, unknown>,
+    audit: { operation: AuditOperation; after: (item: T) => T }
+  ): Promise<number> {
+    // Each item takes its operation and, when recorded, its history entry.
+    const perItem = this.historyTableName ? 2 : 1;
+    const toOperations = (item: T): TransactItem[] =>
+      this.historyTableName
+        ? [
+            toOperation(item),
+            this.historyOperation(
+              this.keyOf(item),
+              audit.operation,
+              item,
+              audit.after(item)
+            ),
+          ]
+        : [toOperation(item)];
+    let written = 0;
+    let chunk: T[] = [];
+
+    const flush = async () => {
+      let pending = chunk;
+      chunk = [];
+      while (pending.length > 0) {
+        try {
+          await this.call(() =>
+            this.send(
+              new TransactWriteCommand({
+                TransactItems: pending.flatMap(toOperations),
+              })
+            )
+          );
+          written += pending.length;
+          await this.invalidate(
+            pending.map((item) => this.keyOf(item)),
+            [...pending, ...pending.map(audit.after)]
+          );
+          return;
+        } catch (error) {
+          const reasons = cancellationReasons(error);
+          // Drop the items that failed their condition and retry the rest.
+          const remaining = pending.filter(
+            (_, index) =>
+              reasons[index * perItem]?.Code !== "ConditionalCheckFailed"
+          );
+          if (reasons.length === 0 || remaining.length === pending.length) {
+            this.handleDynamoDBError(error, operation, metadata);
+          }
+          pending = remaining;
+        }
+      }
+    };
+
+    for await (const item of items) {
+      chunk.push(item);
+      if (chunk.length * perItem === MAX_TRANSACTION_ITEMS) {
+        await flush();
+      }
+    }
+    await flush();
+
+    return written;
+  }
+
+  private repointOperation(item: T, oldParent: KeyValue, newParent: KeyValue) {
+    const { attribute: relationshipAttribute } = this.relationship();
+    const registry = new AttributeRegistry();
+
+    // Use getDDBUpdateExpression to prepare the update expression for the related item.
+    const { UpdateExpression } = getDDBUpdateExpression(
+      { [relationshipAttribute]: newParent },
+      registry
+    );
+
+    return {
+      Update: {
+        TableName: this.tableName,
+        Key: this.keyOf(item),
+        UpdateExpression,
+        ...buildExpressions(
+          { condition: attribute(relationshipAttribute).eq(oldParent) },
+          registry
+        ),
+      },
+    };
+  }
+
+  private async completeKeyMigration(newPrimaryKey: DynamoDBKey): Promise<T> {
+    const item = await this.updateItem(
+      newPrimaryKey,
+      update<T>().remove(KEY_MIGRATION_ATTRIBUTE as AttributePath<T>)
+    );
+    if (!item) {
+      throw new ItemNotFoundError("Item disappeared during key migration.", {
+        operation: "replacePrimaryKey",
+        key: newPrimaryKey,
+      });
+    }
+    return item;
+  }
+
+  // Holds while the stored item still matches what was read.
+  private unchanged(item: T): Condition {
+    if (this.versionAttribute) {
+      return this.versionCondition(item[this.versionAttribute]) as Condition;
+    }
+    const keyNames = this.keyAttributes().map(({ name }) => name);
+    const attributes = Object.entries(item).filter(
+      ([name]) => !keyNames.includes(name)
+    );
+    return attributes.length > 0
+      ? and(...attributes.map(([name, value]) => attribute(name).eq(value)))
+      : attribute(this.table.partitionKey.name).exists();
+  }
+
+  // Sets (deletedAt given) or clears the deletion marker of an item, then of
+  // its related items when cascading.
+  private async changeDeletion(
+    key: DynamoDBKey,
+    deletedAt: string | undefined,
+    { expectedVersion, cascade = false }: SoftDeleteOptions,
+    operation: "softDelete" | "restore"
+  ): Promise<T | null> {
+    const { attribute: marker } = this.softDeleteSettings(operation);
+    // Deleting a deleted item or restoring a live one changes nothing.
+    const applies = (stored: T | null): stored is T =>
+      stored !== null && this.isDeleted(stored) !== (deletedAt !== undefined);
+    // Holds while the item is still live, or still deleted at the same time.
+    const stateOf = (stored: T) =>
+      deletedAt
+        ? attribute(marker).notExists()
+        : attribute(marker).eq(stored[marker]);
+
+    const changes = this.deletionChanges(deletedAt);
+    if (this.versionAttribute) {
+      changes.add(this.versionAttribute as AttributePath<T>, 1);
+    }
+    const request = (stored: T, asRead?: Condition) => {
+      const registry = new AttributeRegistry();
+      const UpdateExpression = changes.render(registry);
+      return {
+        TableName: this.tableName,
+        Key: this.assertKey(key),
+        UpdateExpression,
+        ...buildExpressions(
+          {
+            condition: allOf(
+              attribute(this.table.partitionKey.name).exists(),
+              stateOf(stored),
+              expectedVersion !== undefined
+                ? this.versionCondition(expectedVersion)
+                : undefined,
+              asRead
+            ),
+          },
+          registry
+        ),
+        ReturnValuesOnConditionCheckFailure: "ALL_OLD" as const,
+      };
+    };
+
+    let stored: T;
+    let item: T;
+    try {
+      if (this.historyTableName) {
+        const written = await this.auditedWrite(
+          key,
+          operation,
+          (before, asRead) =>
+            applies(before)
+              ? {
+                  write: { Update: request(before, asRead) },
+                  after: changes.applyTo(before),
+                }
+              : null
+        );
+        if (!written) {
+          return null;
+        }
+        stored = written.before!;
+        item = written.after!;
+      } else {
+        const found = await this.fetchItem(key, { consistentRead: true });
+        if (!applies(found)) {
+          return null;
+        }
+        stored = found;
+        const result = await this.call(() =>
+          this.send(
+            new UpdateCommand({ ...request(found), ReturnValues: "ALL_NEW" })
+          )
+        );
+        item = result.Attributes as T;
+      }
+    } catch (error) {
+      this.throwOnVersionConflict(
+        error,
+        operation,
+        expectedVersion !== undefined,
+        expectedVersion
+      );
+      if (isConditionalCheckFailure(error)) {
+        return null;
+      }
+      this.handleDynamoDBError(error, operation, { key });
+      throw error;
+    }
+
+    await this.invalidate([key], [item]);
+    const relatives = this.relatives();
+    if (cascade && relatives.table.relationship) {
+      await relatives.cascadeDeletion(
+        key[this.table.partitionKey.name],
+        deletedAt,
+        stored[marker],
+        operation
+      );
+    }
+
+    return this.readItem(item, operation);
+  }
+
+  // Sets (deletedAt given) or clears the deletion marker of the items related
+  // to a parent; a restore only brings back those deleted along with the
+  // parent, i.e. at `parentDeletedAt`.
+  private async cascadeDeletion(
+    parentKey: KeyValue,
+    deletedAt: string | undefined,
+    parentDeletedAt: string | undefined,
+    operation: "softDelete" | "restore"
+  ): Promise<void> {
+    const { attribute: marker } = this.softDeleteSettings(operation);
+    const state = deletedAt
+      ? attribute(marker).notExists()
+      : attribute(marker).eq(parentDeletedAt);
+    const related = await this.queryRelatedItems(parentKey, {
+      includeDeleted: true,
+    });
+    await this.transactEach(
+      related.filter(
+        (relatedItem) =>
+          relatedItem[marker] === (deletedAt ? undefined : parentDeletedAt)
+      ),
+      (relatedItem) => this.deletionOperation(relatedItem, deletedAt, state),
+      operation,
+      { parentKey },
+      {
+        operation,
+        after: (relatedItem) =>
+          this.deletionChanges(deletedAt).applyTo(relatedItem),
+      }
+    );
+  }
+
+  // The marker and expiry a soft delete sets, or the removal of both.
+  private deletionChanges(deletedAt?: string): UpdateExpressionBuilder<T> {
+    const { attribute: marker, retentionDays } = this.deletion!;
+    const timeToLive = this.table.timeToLiveAttribute;
+    const changes = update<T>();
+    if (deletedAt === undefined) {
+      changes.remove(marker as AttributePath<T>);
+      if (timeToLive) {
+        changes.remove(timeToLive as AttributePath<T>);
+      }
+      return changes;
+    }
+
+    changes.set(marker as AttributePath<T>, deletedAt);
+    if (timeToLive) {
+      // TTL attributes hold epoch seconds.
+      const expiresAt =
+        Math.floor(Date.parse(deletedAt) / 1000) +
+        retentionDays * SECONDS_PER_DAY;
+      changes.set(timeToLive as AttributePath<T>, expiresAt);
+    }
+    return changes;
+  }
+
+  private deletionOperation(
+    item: T,
+    deletedAt: string | undefined,
+    state: Condition
+  ): TransactItem {
+    const registry = new AttributeRegistry();
+    return {
+      Update: {
+        TableName: this.tableName,
+        Key: this.keyOf(item),
+        UpdateExpression: this.deletionChanges(deletedAt).render(registry),
+        ...buildExpressions({ condition: state }, registry),
+      },
+    };
+  }
+
+  private softDeleteSettings(operation: string): Required<SoftDelete> {
+    if (!this.deletion) {
+      throw new Error(
+        `Table ${this.tableName} does not soft delete items, ${operation} is unavailable.`
+      );
+    }
+    return this.deletion;
+  }
+
+  private isDeleted(item: T): boolean {
+    return (
+      this.deletion !== undefined && item[this.deletion.attribute] !== undefined
+    );
+  }
+
+  // Holds for items that are not soft-deleted; undefined without soft deletes.
+  private notDeleted(): Condition | undefined {
+    return this.deletion
+      ? attribute(this.deletion.attribute).notExists()
+      : undefined;
+  }
+
+  // Marks an item as written with the current schema version.
+  private stamp<I extends Record<string, any>>(item: I): I {
+    if (!this.evolution) {
+      return item;
+    }
+    return {
+      ...item,
+      [this.evolution.attribute]: this.evolution.currentVersion,
+    };
+  }
+
+  // Applies the registered upgrades from the item's schema version onwards.
+  private upgrade(item: T): T {
+    if (!this.evolution) {
+      return item;
+    }
+    const { attribute: versionName, currentVersion, upgrades } = this.evolution;
+    let upgraded = item;
+    for (
+      let version: number = item[versionName] ?? 0;
+      version < currentVersion;
+      version += 1
+    ) {
+      const upgradeFrom = upgrades[version];
+      if (!upgradeFrom) {
+        throw new Error(
+          `Table ${this.tableName} has no upgrade from schema version ${version}.`
+        );
+      }
+      upgraded = { ...upgradeFrom(upgraded), [versionName]: version + 1 } as T;
+    }
+    return upgraded;
+  }
+
+  /**
+   * Upgrades an item read from the table and validates it against the
+   * schema. Attributes the schema does not declare, such as the version, are
+   * kept. Upgraded items are written back when the evolution asks for it.
+   * @returns The item, or null when the schema rejects it in "drop" mode.
+   */
+  private async readItem(stored: T, operation: string): Promise<T | null> {
+    let item = this.upgrade(stored);
+
+    if (this.schema) {
+      const parsed = this.schema.safeParse(item);
+      if (!parsed.success) {
+        const issues = parsed.error.issues.map((issue) => ({
+          path: issue.path,
+          message: issue.message,
+          code: issue.code,
+        }));
+        if (this.validation === "drop") {
+          return null;
+        }
+        if (this.validation === "lenient") {
+          this.log().warn("Stored item does not match its schema.", {
+            key: this.keyOf(stored),
+            issues,
+          });
+          return item;
+        }
+        throw new InvalidStoredItemError(
+          `Item of table ${this.tableName} does not match its schema.`,
+          {
+            cause: parsed.error,
+            operation,
+            key: this.keyOf(stored),
+            issues,
+          }
+        );
+      }
+      item = { ...item, ...parsed.data };
+    }
+
+    if (item !== stored && this.evolution?.writeBack) {
+      await this.writeBack(stored, item);
+    }
+    return item;
+  }
+
+  private async readItems(items: T[], operation: string): Promise<T[]> {
+    const read: T[] = [];
+    for (const stored of items) {
+      const item = await this.readItem(stored, operation);
+      if (item) {
+        read.push(item);
+      }
+    }
+    return read;
+  }
+
+  // Persists an upgraded item unless another writer changed it since the read,
+  // along with its history entry when the table keeps one.
+  private async writeBack(stored: T, upgraded: T): Promise<void> {
+    if (
+      upgraded[this.evolution!.attribute] === stored[this.evolution!.attribute]
+    ) {
+      return;
+    }
+    const put = {
+      TableName: this.tableName,
+      Item: upgraded,
+      ...buildExpressions({ condition: this.unchanged(stored) }),
+    };
+    try {
+      await this.call(() =>
+        this.send(
+          this.historyTableName
+            ? new TransactWriteCommand({
+                TransactItems: [
+                  { Put: put },
+                  this.historyOperation(
+                    this.keyOf(stored),
+                    "upgrade",
+                    stored,
+                    upgraded
+                  ),
+                ],
+              })
+            : new PutCommand(put)
+        )
+      );
+    } catch (error) {
+      const reasons = cancellationReasons(error);
+      // The item is upgraded again on its next read.
+      if (
+        !isConditionalCheckFailure(error) &&
+        reasons[0]?.Code !== "ConditionalCheckFailed"
+      ) {
+        this.log().warn("Could not write back upgraded item.", {
+          key: this.keyOf(stored),
+          error,
+        });
+      }
+    }
+  }
+
+  // Function to query related items through the declared relationship, using its index when one is declared and a full table scan otherwise.
+  // Related items held by the relatedItems repository are read through it.
+  // Served from the cache, when configured, unless soft-deleted items are included.
+  async queryRelatedItems(
+    parentKey: KeyValue,
+    options: DeletedItemsFilter = {}
+  ): Promise<T[]> {
+    if (this.related) {
+      return this.related.queryRelatedItems(parentKey, options);
+    }
+    if (this.cache && !options.includeDeleted) {
+      return this.cache.read(
+        this.relatedCacheKey(parentKey),
+        () => this.loadRelatedItems(parentKey, options),
+        (items) => items.map((item) => this.itemCacheKey(this.keyOf(item)))
+      );
+    }
+    return this.loadRelatedItems(parentKey, options);
+  }
 
-export class Repository<T extends Record<string, any>> {
-  private tableName: string;
-  private db: DynamoDBDocumentClient;
+  private async loadRelatedItems(
+    parentKey: KeyValue,
+    options: DeletedItemsFilter
+  ): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this.iterateRelatedItems(parentKey, options)) {
+      items.push(item);
+    }
+    return items;
+  }
 
-  constructor(tableName: string, dbClient: DynamoDBDocumentClient) {
-    this.tableName = tableName;
-    this.db = dbClient;
+  /**
+   * Reads a single page of related items.
+   * @param parentKey Partition key value the related items point at.
+   * @param options Page size, the cursor returned by the previous page and
+   * whether to include soft-deleted items.
+   */
+  async queryRelatedItemsPage(
+    parentKey: KeyValue,
+    { includeDeleted, ...options }: PageOptions & DeletedItemsFilter = {}
+  ): Promise<Page<T>> {
+    if (this.related) {
+      return this.related.queryRelatedItemsPage(parentKey, {
+        includeDeleted,
+        ...options,
+      });
+    }
+    return this.fetchPage(
+      this.relatedItemsRequest(parentKey, includeDeleted),
+      options
+    );
   }
 
   /**
-   * Generic method to perform transactional mutations on DynamoDB.
-   * @param operations Array of operations (Put, Update, Delete) to be performed in the transaction.
-   * @returns Promise<void>
+   * Walks every related item across all pages.
+   * @param parentKey Partition key value the related items point at.
+   * @param options Page size, an optional cap on the total items yielded and
+   * whether to include soft-deleted items.
    */
-  async mutate(
-    operations: TransactWriteCommandInput["TransactItems"]
+  iterateRelatedItems(
+    parentKey: KeyValue,
+    { includeDeleted, ...options }: IterateOptions & DeletedItemsFilter = {}
+  ): AsyncGenerator<T> {
+    if (this.related) {
+      return this.related.iterateRelatedItems(parentKey, {
+        includeDeleted,
+        ...options,
+      });
+    }
+    return this.iterate(
+      this.relatedItemsRequest(parentKey, includeDeleted),
+      options
+    );
+  }
+
+  private relatedItemsRequest(
+    parentKey: KeyValue,
+    includeDeleted?: boolean
+  ): ReadRequest {
+    const { attribute: relationshipAttribute, indexName } = this.relationship();
+    const matchesParent = attribute(relationshipAttribute).eq(parentKey);
+
+    const request = indexName
+      ? this.queryRequest({
+          indexName,
+          keyCondition: matchesParent,
+          includeDeleted,
+        })
+      : this.scanRequest({ filter: matchesParent, includeDeleted });
+    // Related items are of other types than the ones this repository reads.
+    return { ...request, complete: false };
+  }
+
+  private queryRequest({
+    indexName,
+    keyCondition,
+    filter,
+    projection,
+    descending,
+    includeDeleted,
+  }: QueryCriteria): ReadRequest {
+    return {
+      kind: "query",
+      complete: this.returnsCompleteItems(indexName, projection),
+      input: {
+        TableName: this.tableName,
+        IndexName: indexName,
+        ScanIndexForward: descending ? false : undefined,
+        ...buildExpressions({
+          keyCondition,
+          filter: allOf(filter, includeDeleted ? undefined : this.notDeleted()),
+          projection,
+        }),
+      },
+    };
+  }
+
+  private scanRequest({
+    indexName,
+    filter,
+    projection,
+    includeDeleted,
+  }: ScanCriteria): ReadRequest {
+    return {
+      kind: "scan",
+      complete: this.returnsCompleteItems(indexName, projection),
+      input: {
+        TableName: this.tableName,
+        IndexName: indexName,
+        ...buildExpressions({
+          filter: allOf(filter, includeDeleted ? undefined : this.notDeleted()),
+          projection,
+        }),
+      },
+    };
+  }
+
+  private returnsCompleteItems(
+    indexName: string | undefined,
+    projection: string[] | undefined
+  ): boolean {
+    const index = indexName ? this.index(indexName) : undefined;
+    return !projection && (!index || index.projection.type === "ALL");
+  }
+
+  // Stable identity of a key, with attributes in descriptor order.
+  private keyId(key: DynamoDBKey): string {
+    return JSON.stringify(this.keyAttributes().map(({ name }) => key[name]));
+  }
+
+  // Cache entries are kept apart by table and tenant.
+  private itemCacheKey(key: DynamoDBKey): string {
+    return `${this.tableName}:${this.tenantId ?? ""}:item:${this.keyId(key)}`;
+  }
+
+  private relatedCacheKey(parentKey: KeyValue): string {
+    return `${this.tableName}:${this.tenantId ?? ""}:related:${JSON.stringify(
+      parentKey
+    )}`;
+  }
+
+  /**
+   * Drops the cache entries a write makes stale: those of the written items,
+   * of their related items and of their parents' related items. Parents of
+   * items written by key alone are found through the cached related items
+   * the items belong to.
+   * @param keys Keys of the written items.
+   * @param items The written items before or after the write, where known.
+   */
+  private async invalidate(
+    keys: DynamoDBKey[],
+    items: (T | null | undefined)[] = []
   ): Promise<void> {
+    if (!this.cache) {
+      return;
+    }
+    const entries = keys.map((key) => this.itemCacheKey(key));
+    const relationship = this.table.relationship;
+    if (relationship) {
+      for (const key of keys) {
+        entries.push(
+          this.relatedCacheKey(key[this.table.partitionKey.name] as KeyValue)
+        );
+      }
+      for (const item of items) {
+        if (item?.[relationship.attribute] !== undefined) {
+          entries.push(this.relatedCacheKey(item[relationship.attribute]));
+        }
+      }
+    }
+    await this.cache.invalidate([...new Set(entries)]);
+  }
+
+  private keyAttributes(): KeyAttribute[] {
+    return this.table.sortKey
+      ? [this.table.partitionKey, this.table.sortKey]
+      : [this.table.partitionKey];
+  }
+
+  // Rejects keys that are missing, extra or mistyped attributes for this table.
+  private assertKey(key: DynamoDBKey): DynamoDBKey {
+    const attributes = this.keyAttributes();
+    const extra = Object.keys(key).filter(
+      (name) => !attributes.some((keyAttribute) => keyAttribute.name === name)
+    );
+    const invalid = attributes.filter(
+      ({ name, type }) => !matchesKeyType(key[name], type)
+    );
+    if (extra.length > 0 || invalid.length > 0) {
+      throw new ValidationFailedError(
+        `Invalid key for table ${this.tableName}: expected ${attributes
+          .map(({ name, type }) => `${name} (${type})`)
+          .join(", ")}.`,
+        {
+          issues: [...extra, ...invalid.map(({ name }) => name)].map(
+            (name) => ({ path: [name], message: "Invalid key attribute." })
+          ),
+        }
+      );
+    }
+    return key;
+  }
+
+  private index(name: string): IndexDescriptor {
+    const index = this.table.indexes?.find(
+      (candidate) => candidate.name === name
+    );
+    if (!index) {
+      throw new Error(`Table ${this.tableName} has no index named ${name}.`);
+    }
+    return index;
+  }
+
+  // The repository holding the related items, see RepositoryOptions.relatedItems.
+  private relatives(): Repository<any> {
+    return this.related ?? this;
+  }
+
+  private relationship() {
+    if (!this.table.relationship) {
+      throw new Error(`Table ${this.tableName} declares no relationship.`);
+    }
+    if (this.table.relationship.indexName) {
+      this.index(this.table.relationship.indexName);
+    }
+    return this.table.relationship;
+  }
+
+  private async fetchPage(
+    request: ReadRequest,
+    options: PageOptions
+  ): Promise<Page<T>> {
+    const { items, cursor } = await this.readPage(request, options);
+    return { items, cursor };
+  }
+
+  // Sends one Scan or Query request, resuming from the decoded cursor.
+  private async readPage(
+    request: ReadRequest,
+    { limit, cursor }: PageOptions
+  ): Promise<Page<T> & { scannedCount: number }> {
+    const ExclusiveStartKey = cursor ? decodeCursor(cursor) : undefined;
+
     try {
-      // Ensure there are operations to perform
-      if (operations?.length === 0) {
-        throw new Error("No operations provided for transaction.");
-      }
-
-      const commandInput: TransactWriteCommandInput = {
-        TransactItems: operations?.map((op) => ({
-          ...op,
-          // Specify the table name for each operation if not already specified
-          // This assumes operations provided don't already specify TableName
-          Put: op.Put ? { ...op.Put, TableName: this.tableName } : undefined,
-          Update: op.Update
-            ? { ...op.Update, TableName: this.tableName }
-            : undefined,
-          Delete: op.Delete
-            ? { ...op.Delete, TableName: this.tableName }
-            : undefined,
-        })),
-      };
+      const result =
+        request.kind === "query"
+          ? await this.call(() =>
+              this.send(
+                new QueryCommand({
+                  ...request.input,
+                  Limit: limit,
+                  ExclusiveStartKey,
+                })
+              )
+            )
+          : await this.call(() =>
+              this.send(
+                new ScanCommand({
+                  ...request.input,
+                  Limit: limit,
+                  ExclusiveStartKey,
+                })
+              )
+            );
 
-      await this.db.send(new TransactWriteCommand(commandInput));
+      const items = (result.Items ?? []) as T[];
+      return {
+        items: request.complete
+          ? await this.readItems(items, request.kind)
+          : items,
+        cursor: result.LastEvaluatedKey
+          ? encodeCursor(result.LastEvaluatedKey)
+          : null,
+        scannedCount: result.ScannedCount ?? 0,
+      };
     } catch (error) {
-      this.handleDynamoDBError(error, "mutate", {});
-      throw error; // Rethrow after logging/handling
+      this.handleDynamoDBError(error, request.kind, {
+        tableName: request.input.TableName,
+        indexName: request.input.IndexName,
+      });
+      throw error;
     }
   }
 
-  // In your Repository class
+  // Yields items page by page until the last page or maxItems is reached.
+  private async *iterate(
+    request: ReadRequest,
+    { pageSize, maxItems }: IterateOptions
+  ): AsyncGenerator<T> {
+    let cursor: string | undefined;
+    let yielded = 0;
 
-  async getBookWithRelatedItems(
-    partitionKey: string
-  ): Promise<{ book: T | null; relatedItems: T[] }> {
-    try {
-      // Fetch the book item
-      const book = await this.db.send(
-        new GetCommand({
-          TableName: this.tableName,
-          Key: { partitionKey },
-        })
-      );
+    do {
+      const page = await this.fetchPage(request, { limit: pageSize, cursor });
+      for (const item of page.items) {
+        if (maxItems !== undefined && yielded >= maxItems) {
+          return;
+        }
+        yield item;
+        yielded += 1;
+      }
+      cursor = page.cursor ?? undefined;
+    } while (cursor && (maxItems === undefined || yielded < maxItems));
+  }
 
-      // Fetch related items, assuming 'relatedPartitionKey' is the GSI for related items
-      const relatedItemsResult = await this.db.send(
-        new QueryCommand({
-          TableName: this.tableName,
-          IndexName: "RelatedItemsIndex", // The name of the GSI
-          KeyConditionExpression: "relatedPartitionKey = :partitionKey",
-          ExpressionAttributeValues: {
-            ":partitionKey": partitionKey,
-          },
-        })
+  // Specifies the table name for the single operation an item holds.
+  // This assumes operations provided don't already specify TableName
+  private transactItem(op: TransactItem, index: number): TransactItem {
+    const types = TRANSACTION_OPERATION_TYPES.filter((type) => op[type]);
+    if (types.length !== 1) {
+      throw this.invalidMutation(
+        `Operation ${index} must hold exactly one of ${TRANSACTION_OPERATION_TYPES.join(
+          ", "
+        )}.`
       );
+    }
 
+    if (op.Put) {
+      const put = op.Put.Item
+        ? { ...op.Put, Item: this.stamp(op.Put.Item) }
+        : op.Put;
       return {
-        // @ts-ignore
-        book: book.Item || null,
-        relatedItems: relatedItemsResult.Items as T[],
+        Put: { ...this.versionPutOperation(put), TableName: this.tableName },
       };
-    } catch (error) {
-      console.error("Failed to fetch book and related items:", error);
-      throw new DatabaseOperationError(
-        `Error fetching book and related items`,
-        // @ts-ignore
-        error
+    }
+    if (op.Update) {
+      return {
+        Update: {
+          ...this.versionUpdateOperation(op.Update),
+          TableName: this.tableName,
+        },
+      };
+    }
+    if (op.Delete) {
+      return { Delete: { ...op.Delete, TableName: this.tableName } };
+    }
+    return {
+      ConditionCheck: { ...op.ConditionCheck!, TableName: this.tableName },
+    };
+  }
+
+  // DynamoDB rejects transactions that touch the same item more than once.
+  private assertDistinctItems(transaction: TransactItem[], offset: number) {
+    const seen = new Map<string, number>();
+    transaction.forEach((item, index) => {
+      const key = JSON.stringify(this.transactionKey(item));
+      const previous = seen.get(key);
+      if (previous !== undefined) {
+        throw this.invalidMutation(
+          `Operations ${previous} and ${
+            offset + index
+          } target the same item ${key}.`
+        );
+      }
+      seen.set(key, offset + index);
+    });
+  }
+
+  /**
+   * Writes one item together with its history entry in a transaction. The
+   * item is read first and the write conditioned on it being unchanged, so
+   * the entry records the values it actually replaced; when another writer
+   * got in between, the write is prepared again from a fresh read.
+   * @param prepare Builds the write from the item as read, adding `asRead`
+   * to its condition, and the item after the write; returns null when there
+   * is nothing to write.
+   * @returns The item before and after the write, or null when nothing was
+   * written.
+   * @throws An error like the one of a single-item write, holding the stored
+   * item, when the caller's own condition does not hold.
+   */
+  private async auditedWrite(
+    key: DynamoDBKey,
+    operation: AuditOperation,
+    prepare: (
+      before: T | null,
+      asRead: Condition
+    ) => { write: TransactItem; after: T | null } | null
+  ): Promise<{ before: T | null; after: T | null } | null> {
+    for (let attempt = 1; ; attempt += 1) {
+      const before = await this.fetchItem(key, { consistentRead: true });
+      const prepared = prepare(
+        before,
+        before
+          ? this.unchanged(before)
+          : attribute(this.table.partitionKey.name).notExists()
       );
+      if (!prepared) {
+        return null;
+      }
+
+      try {
+        await this.call(() =>
+          this.send(
+            new TransactWriteCommand({
+              TransactItems: [
+                prepared.write,
+                this.historyOperation(key, operation, before, prepared.after),
+              ],
+            })
+          )
+        );
+        return { before, after: prepared.after };
+      } catch (error) {
+        const reasons = cancellationReasons(error);
+        if (reasons[0]?.Code !== "ConditionalCheckFailed") {
+          throw error;
+        }
+        const current = await this.fetchItem(key, { consistentRead: true });
+        if (isDeepStrictEqual(current, before)) {
+          throw conditionFailure(error, current);
+        }
+        if (attempt >= MAX_AUDITED_WRITE_ATTEMPTS) {
+          throw new ConcurrentModificationError(
+            "Item kept changing while its history was recorded.",
+            { cause: error as Error, operation }
+          );
+        }
+      }
     }
   }
 
-  // Function to replace an item's primary key and optionally query for related items.
-  async replacePrimaryKey(
-    oldPrimaryKey: DynamoDBKey,
-    newPrimaryKey: DynamoDBKey,
-    otherAttributes: Omit<T, "partitionKey" | "sortKey">,
-    config: ReplaceKeyConfig
-  ): Promise<{ newItem: T; relatedItems?: T[] | null }> {
-    const transactItems = await this.prepareCascadeUpdateParams(
-      oldPrimaryKey,
-      newPrimaryKey,
-      config
+  // Writes the requests of a batch one by one, each with its history entry.
+  private async auditedBatchWrite(
+    requests: {
+      key: DynamoDBKey;
+      type: "put" | "delete";
+      request: BatchWriteRequest;
+    }[]
+  ): Promise<BatchWriteResult[]> {
+    const changed: (T | null | undefined)[] = [];
+    for (const { key, type, request } of requests) {
+      try {
+        const written = await this.auditedWrite(
+          key,
+          "batchWrite",
+          (before, asRead) => {
+            if (type === "put") {
+              const item = request.PutRequest!.Item as T;
+              return {
+                write: {
+                  Put: withCondition(
+                    { TableName: this.tableName, Item: item },
+                    asRead
+                  ),
+                },
+                after: item,
+              };
+            }
+            return (
+              before && {
+                write: {
+                  Delete: withCondition(
+                    { TableName: this.tableName, Key: key },
+                    asRead
+                  ),
+                },
+                after: null,
+              }
+            );
+          }
+        );
+        changed.push(written?.before, written?.after);
+      } catch (error) {
+        this.handleDynamoDBError(error, "batchWrite", { key });
+        throw error;
+      }
+    }
+
+    await this.invalidate(
+      requests.map(({ key }) => key),
+      changed
     );
+    return requests.map(({ key, type }) => ({
+      key,
+      type,
+      status: "written",
+    }));
+  }
+
+  // Conditions the Puts, Updates and Deletes of a mutation on the items as
+  // read and adds their history entries.
+  private async recordMutation(
+    items: TransactItem[]
+  ): Promise<{ written: TransactItem[]; records: TransactItem[][] }> {
+    if (!this.historyTableName) {
+      return { written: items, records: items.map(() => []) };
+    }
+
+    const written: TransactItem[] = [];
+    const records: TransactItem[][] = [];
+    for (const [index, item] of items.entries()) {
+      if (item.ConditionCheck) {
+        written.push(item);
+        records.push([]);
+        continue;
+      }
 
-    // Begin a transaction to atomically replace the primary key and optionally update related items.
+      const key = this.keyOf(operationKey(item));
+      const before = await this.fetchItem(key, { consistentRead: true });
+      const asRead = before
+        ? this.unchanged(before)
+        : attribute(this.table.partitionKey.name).notExists();
+      let after: T | null = null;
+      if (item.Put) {
+        written.push({ Put: withCondition(item.Put, asRead) });
+        after = item.Put.Item as T;
+      } else if (item.Update) {
+        written.push({ Update: withCondition(item.Update, asRead) });
+        after = this.updatedItem(item.Update, before ?? (key as T), index);
+      } else {
+        written.push({ Delete: withCondition(item.Delete!, asRead) });
+      }
+      records.push([this.historyOperation(key, "mutate", before, after)]);
+    }
+    return { written, records };
+  }
+
+  // The item an Update of a mutation leaves behind, applied the way DynamoDB
+  // applies it; a missing item is created from its key.
+  private updatedItem(update: UpdateOperation, before: T, index: number): T {
     try {
-      await this.db.send(
-        new TransactWriteCommand({ TransactItems: transactItems })
+      const context = new ExpressionContext(
+        update.ExpressionAttributeNames,
+        update.ExpressionAttributeValues
       );
+      return parseUpdate(update.UpdateExpression ?? "", context).apply(
+        before
+      ) as T;
     } catch (error) {
-      this.handleDynamoDBError(error, "replacePrimaryKey", {
-        oldPrimaryKey,
-        newPrimaryKey,
-      });
+      if (error instanceof ExpressionError) {
+        throw this.invalidMutation(
+          `Operation ${index} has an invalid UpdateExpression: ${error.message}`
+        );
+      }
+      throw error;
     }
+  }
 
-    // Optionally query for related items if specified in the configuration.
-    let relatedItems: T[] | null = null;
-    if (config.queryRelatedItems) {
-      relatedItems = await this.queryRelatedItems(
-        oldPrimaryKey.partitionKey,
-        true,
-        config.tableName
+  // Adds the entry recording a write of an item, which must not exist yet.
+  private historyOperation(
+    key: DynamoDBKey,
+    operation: AuditOperation,
+    before: T | null,
+    after: T | null
+  ): TransactItem {
+    const itemKey = this.keyOf(key);
+    const changedAt = new Date().toISOString();
+    const version = this.versionAttribute
+      ? after?.[this.versionAttribute]
+      : undefined;
+    const { actor, correlationId } = this.auditContext;
+    const entry: HistoryEntry = {
+      itemKey: historyKey(this.tableName, itemKey, this.tenantId),
+      entryId: historyEntryId(changedAt),
+      tableName: this.tableName,
+      key: itemKey,
+      ...(this.tenantId !== undefined && { tenantId: this.tenantId }),
+      operation,
+      actor,
+      ...(correlationId !== undefined && { correlationId }),
+      changedAt,
+      ...(version !== undefined && { version }),
+      changes: diffItems(before, after),
+      item: after,
+    };
+    return {
+      Put: {
+        TableName: this.historyTableName!,
+        Item: entry,
+        ...buildExpressions({ condition: attribute("entryId").notExists() }),
+      },
+    };
+  }
+
+  // Reads the history table, which is only written alongside this table.
+  private historyLog(operation: string): Repository<HistoryEntry> {
+    if (!this.historyTableName) {
+      throw new Error(
+        `Table ${this.tableName} keeps no history, ${operation} is unavailable.`
       );
     }
-
-    // Return the new item and any found related items.
-    // const newItem = { ...otherAttributes, ...newPrimaryKey };
-
-    const newItem: T = { ...otherAttributes, ...newPrimaryKey } as unknown as T;
-
-    return { newItem, relatedItems };
+    return new Repository<HistoryEntry>(
+      { ...historyTable, tableName: this.historyTableName },
+      this.db,
+      {
+        retry: this.retry,
+        rateLimiter: this.rateLimiter,
+        circuitBreaker: this.circuitBreaker,
+      }
+    );
   }
 
-  private async prepareCascadeUpdateParams(
-    oldPrimaryKey: DynamoDBKey,
-    newPrimaryKey: DynamoDBKey,
-    config: ReplaceKeyConfig
-  ): Promise<any[]> {
-    // Assume related items are identified by a 'parentId' attribute that matches the 'partitionKey' of the main item.
-    const relatedItems = await this.queryRelatedItems(
-      oldPrimaryKey.partitionKey,
-      false
-    ); // Using 'false' to indicate a full table scan.
-
-    // Use getDDBUpdateExpression to prepare update expressions for each related item.
-    return relatedItems.map((item) => {
-      // Prepare the new values for the related item's 'parentId' attribute to link to the new primary key.
-      const updateItem = {
-        parentId: newPrimaryKey.partitionKey, // Adjust 'parentId' to your actual attribute name if different.
-      };
-
-      // Generate the update expression using getDDBUpdateExpression.
-      const {
-        UpdateExpression,
-        ExpressionAttributeNames,
-        ExpressionAttributeValues,
-      } = getDDBUpdateExpression(updateItem);
+  // Puts that add domain events to the outbox, failing for reused event ids.
+  private outboxOperations(events: DomainEvent[]): TransactItem[] {
+    if (events.length === 0) {
+      return [];
+    }
+    if (!this.outboxTableName) {
+      throw new Error(
+        `Table ${this.tableName} has no outbox to write domain events to.`
+      );
+    }
 
+    const occurredAt = new Date().toISOString();
+    return events.map((event) => {
+      const item: OutboxItem = {
+        eventId: event.id ?? randomUUID(),
+        type: event.type,
+        payload: event.payload,
+        source: this.tableName,
+        occurredAt,
+        status: "pending",
+        attempts: 0,
+      };
       return {
-        Update: {
-          TableName: config.tableName, // Or the related items' table name if they reside in a different table.
-          Key: {
-            partitionKey: item.partitionKey,
-            sortKey: item.sortKey ?? undefined,
-          }, // Ensure to handle cases where sortKey might not exist.
-          UpdateExpression,
-          ExpressionAttributeNames,
-          ExpressionAttributeValues,
+        Put: {
+          TableName: this.outboxTableName,
+          Item: item,
+          ...buildExpressions({ condition: attribute("eventId").notExists() }),
         },
       };
     });
   }
 
-  // Function to query related items based on the partition key, supporting both GSI queries and full table scans.
-  async queryRelatedItems(
-    partitionKey: string,
-    useGSI: boolean = true,
-    gsiName?: string
-  ): Promise<T[]> {
-    if (useGSI && gsiName) {
-      return this.queryGSI(partitionKey, gsiName);
-    } else {
-      return this.scanTable(partitionKey);
+  private isOutboxOperation(item: TransactItem): boolean {
+    return (
+      this.outboxTableName !== undefined &&
+      item.Put?.TableName === this.outboxTableName
+    );
+  }
+
+  private isHistoryOperation(item: TransactItem): boolean {
+    return (
+      this.historyTableName !== undefined &&
+      item.Put?.TableName === this.historyTableName
+    );
+  }
+
+  // Key of the item an operation targets; outbox events and history entries
+  // are keyed by their own tables' keys.
+  private transactionKey(item: TransactItem): Record<string, any> {
+    if (this.isOutboxOperation(item)) {
+      return { eventId: item.Put!.Item!.eventId };
     }
+    if (this.isHistoryOperation(item)) {
+      const { itemKey, entryId } = item.Put!.Item!;
+      return { itemKey, entryId };
+    }
+    return this.keyOf(operationKey(item));
   }
 
-  private async queryGSI(partitionKey: string, gsiName: string): Promise<T[]> {
-    try {
-      const params = {
-        TableName: this.tableName,
-        IndexName: gsiName,
-        KeyConditionExpression: "#pk = :pkValue",
-        ExpressionAttributeNames: {
-          "#pk": "partitionKeyAttribute", // Replace 'partitionKeyAttribute' with the actual partition key attribute used in the GSI
-        },
-        ExpressionAttributeValues: {
-          ":pkValue": partitionKey,
-        },
-      };
+  private invalidMutation(message: string): ValidationFailedError {
+    return new ValidationFailedError(message, { operation: "mutate" });
+  }
 
-      const result = await this.db.send(new QueryCommand(params));
-      return result.Items as T[];
-    } catch (error) {
-      console.error(
-        `Error querying GSI (${gsiName}) with partition key (${partitionKey}):`,
-        error
+  // Decodes CancellationReasons into per-operation results.
+  private throwTransactionError(
+    error: unknown,
+    transaction: TransactItem[],
+    offset: number
+  ): void {
+    if (
+      !isDynamoDBException(error, "TransactionCanceledException") ||
+      !error.CancellationReasons
+    ) {
+      return;
+    }
+    const reasons = error.CancellationReasons;
+
+    const results: TransactionOperationResult[] = transaction.map(
+      (item, index) => {
+        const reason = reasons[index] ?? {};
+        return {
+          index: offset + index,
+          type: operationType(item),
+          key: this.transactionKey(item),
+          code: reason.Code ?? "None",
+          message: reason.Message,
+          item: reason.Item ? unmarshall(reason.Item) : undefined,
+        };
+      }
+    );
+    const failures = results.filter((result) => result.code !== "None");
+
+    const versionConflict = failures.some(
+      (result) =>
+        result.code === "ConditionalCheckFailed" &&
+        result.type === "Put" &&
+        !this.isOutboxOperation(transaction[result.index - offset]) &&
+        !this.isHistoryOperation(transaction[result.index - offset]) &&
+        this.versionAttribute
+    );
+    if (versionConflict) {
+      throw new ConcurrentModificationError(
+        "Item was modified by another writer.",
+        { cause: error as Error, operation: "mutate", metadata: { results } }
+      );
+    }
+
+    // Cancelled by contention rather than by a condition: worth retrying.
+    if (!failures.some((result) => result.code === "ConditionalCheckFailed")) {
+      const classified = classifyDynamoDBError(error, {
+        operation: "mutate",
+        metadata: { results, attempts: attemptsOf(error) },
+      });
+      if (
+        classified instanceof TransactionConflictError ||
+        classified instanceof ThrottledError
+      ) {
+        throw classified;
+      }
+    }
+
+    throw new TransactionCanceledError(
+      `Transaction cancelled: ${failures
+        .map(
+          (result) =>
+            `${result.type} #${result.index} failed with ${result.code}`
+        )
+        .join(", ")}.`,
+      { cause: error as Error, operation: "mutate", results }
+    );
+  }
+
+  // Matches the stored version, or requires that no version is stored yet.
+  private versionCondition(version: number | undefined): Condition | undefined {
+    if (!this.versionAttribute) {
+      return undefined;
+    }
+    return version === undefined
+      ? attribute(this.versionAttribute).notExists()
+      : attribute(this.versionAttribute).eq(version);
+  }
+
+  private versionPutOperation<P extends PutOperation>(put: P): P {
+    if (!this.versionAttribute) {
+      return put;
+    }
+
+    const version = put.Item?.[this.versionAttribute] as number | undefined;
+    // A dedicated registry keeps these placeholders apart from the caller's.
+    const {
+      ConditionExpression,
+      ExpressionAttributeNames,
+      ExpressionAttributeValues,
+    } = buildExpressions(
+      { condition: this.versionCondition(version) },
+      new AttributeRegistry("#version", ":version")
+    );
+
+    return {
+      ...put,
+      Item: { ...put.Item, [this.versionAttribute]: (version ?? 0) + 1 },
+      ConditionExpression: put.ConditionExpression
+        ? `(${put.ConditionExpression}) AND (${ConditionExpression})`
+        : ConditionExpression,
+      ExpressionAttributeNames: mergeMaps(
+        put.ExpressionAttributeNames,
+        ExpressionAttributeNames
+      ),
+      ExpressionAttributeValues: mergeMaps(
+        put.ExpressionAttributeValues,
+        ExpressionAttributeValues
+      ),
+    };
+  }
+
+  private versionUpdateOperation<U extends UpdateOperation>(update: U): U {
+    if (!this.versionAttribute) {
+      return update;
+    }
+
+    const registry = new AttributeRegistry("#version", ":version");
+    const increment = `${registry.key(this.versionAttribute)} ${registry.value(
+      1
+    )}`;
+    const { ExpressionAttributeNames, ExpressionAttributeValues } =
+      registry.get();
+    // Each clause may only appear once, so join an existing ADD clause.
+    const addClause = /(^|\s)ADD\s/i;
+    const expression = update.UpdateExpression ?? "";
+    const UpdateExpression = addClause.test(expression)
+      ? expression.replace(addClause, `$1ADD ${increment}, `)
+      : `${expression} ADD ${increment}`;
+
+    return {
+      ...update,
+      UpdateExpression,
+      ExpressionAttributeNames: mergeMaps(
+        update.ExpressionAttributeNames,
+        ExpressionAttributeNames
+      ),
+      ExpressionAttributeValues: mergeMaps(
+        update.ExpressionAttributeValues,
+        ExpressionAttributeValues
+      ),
+    };
+  }
+
+  // Raises ConcurrentModificationError when a versioned write lost the race.
+  private throwOnVersionConflict(
+    error: unknown,
+    operation: string,
+    versionChecked: boolean,
+    expectedVersion: number | undefined
+  ): void {
+    if (
+      !this.versionAttribute ||
+      !versionChecked ||
+      !isConditionalCheckFailure(error)
+    ) {
+      return;
+    }
+
+    const stored = error.Item;
+    if (!stored) {
+      // Only a replacement expecting an existing version loses to a delete.
+      if (operation === "putItem" && expectedVersion !== undefined) {
+        throw new ConcurrentModificationError(
+          "Item was deleted by another writer.",
+          { cause: error as Error, operation, expectedVersion }
+        );
+      }
+      return;
+    }
+
+    // The stored item comes back marshalled, e.g. { version: { N: "3" } }.
+    const version = stored[this.versionAttribute];
+    const actualVersion =
+      version === undefined
+        ? undefined
+        : Number(typeof version === "object" ? version.N : version);
+    if (actualVersion !== expectedVersion) {
+      throw new ConcurrentModificationError(
+        `Item was modified by another writer (expected version ${
+          expectedVersion ?? "none"
+        }, found ${actualVersion ?? "none"}).`,
+        { cause: error as Error, operation, expectedVersion, actualVersion }
       );
-      throw error;
     }
   }
 
-  private async scanTable(partitionKey: string): Promise<T[]> {
+  /**
+   * Sends one DynamoDB request through the circuit breaker, the rate limiter
+   * and the retry policy. The number of attempts of a failed call is kept
+   * for the error metadata.
+   */
+  private async call<R>(send: () => Promise<R>): Promise<R> {
+    const breaker = this.circuitBreaker;
+    const startedAt = performance.now();
+    let attempts = 0;
+    this.stats.calls += 1;
     try {
-      const params = {
-        TableName: this.tableName,
-        FilterExpression: "#pk = :pkValue",
-        ExpressionAttributeNames: {
-          "#pk": "partitionKey", // Adjust this to the actual partition key attribute name in your table
-        },
-        ExpressionAttributeValues: {
-          ":pkValue": partitionKey,
-        },
-      };
+      return await withRetry(async () => {
+        attempts += 1;
+        this.stats.attempts += 1;
+        if (attempts > 1) {
+          this.stats.retries += 1;
+          this.log().debug("Retrying DynamoDB request.", { attempt: attempts });
+        }
+        if (breaker && !breaker.allowRequest()) {
+          this.stats.rejected += 1;
+          throw new CircuitOpenError(
+            "DynamoDB is unavailable, try again later.",
+            { retryAfterMs: breaker.retryAfterMs }
+          );
+        }
+        await this.rateLimiter?.take();
 
-      const result = await this.db.send(new ScanCommand(params));
-      return result.Items as T[];
+        try {
+          const result = await send();
+          breaker?.recordSuccess();
+          return result;
+        } catch (error) {
+          if (isServiceFailure(error)) {
+            breaker?.recordFailure();
+          } else {
+            breaker?.recordSuccess();
+          }
+          throw error;
+        }
+      }, this.retry);
     } catch (error) {
-      console.error(
-        "Error scanning table for partition key:",
-        partitionKey,
-        error
+      if ((this.retry.isRetryable ?? isRetryableError)(error)) {
+        this.stats.exhausted += 1;
+      }
+      if (error instanceof Object) {
+        callAttempts.set(error, attempts);
+      }
+      throw error;
+    } finally {
+      this.instrumentation.recordCall(
+        (performance.now() - startedAt) / 1000,
+        attempts
+      );
+    }
+  }
+
+  // Sends one request through the client, logging and recording it.
+  private async send<C extends DocumentCommand>(
+    command: C
+  ): Promise<CommandOutput<C>> {
+    const operation = operationOf(command);
+    try {
+      const { result, record } = await this.instrumentation.send(
+        command,
+        (command) => this.db.send(command),
+        {
+          "app.correlation_id": this.auditContext.correlationId,
+          "app.tenant_id": this.tenantId,
+        }
       );
+      this.log().debug("DynamoDB request succeeded.", record);
+      return result;
+    } catch (error) {
+      this.log().debug("DynamoDB request failed.", { operation, error });
       throw error;
     }
   }
 
-  // Adjusted handleDynamoDBError to include optional action and metadata parameters
+  // The logger of this repository, tagged with the table and the request.
+  private log(): Logger {
+    return this.logger.child({
+      table: this.tableName,
+      tenantId: this.tenantId,
+      correlationId: this.auditContext.correlationId,
+    });
+  }
+
+  // Rethrows a client error as the matching DatabaseOperationError subclass.
   private handleDynamoDBError(
-    error: any,
+    error: unknown,
     action: string = "unknown action",
     metadata: Record<string, any> = {}
-  ): void {
-    console.error(`Error during ${action}:`, error, metadata);
-    throw new DatabaseOperationError(`Error during ${action}`, error);
+  ): never {
+    throw classifyDynamoDBError(error, {
+      operation: action,
+      metadata: { ...metadata, attempts: attemptsOf(error) },
+    });
   }
 }
+
+type BatchWriteRequest = {
+  PutRequest?: { Item: Record<string, any> };
+  DeleteRequest?: { Key: DynamoDBKey };
+};
+
+type TransactItem = NonNullable<
+  TransactWriteCommandInput["TransactItems"]
+>[number];
+type PutOperation = NonNullable<TransactItem["Put"]>;
+type UpdateOperation = NonNullable<TransactItem["Update"]>;
+type DeleteOperation = NonNullable<TransactItem["Delete"]>;
+
+function allOf(
+  ...conditions: (Condition | undefined)[]
+): Condition | undefined {
+  const defined = conditions.filter(
+    (condition): condition is Condition => condition !== undefined
+  );
+  return defined.length > 0 ? and(...defined) : undefined;
+}
+
+function matchesKeyType(value: unknown, type: KeyAttribute["type"]) {
+  switch (type) {
+    case "S":
+      return typeof value === "string" && value.length > 0;
+    case "N":
+      return typeof value === "number" && Number.isFinite(value);
+    case "B":
+      return value instanceof Uint8Array && value.length > 0;
+  }
+}
+
+const TRANSACTION_OPERATION_TYPES: TransactionOperationType[] = [
+  "Put",
+  "Update",
+  "Delete",
+  "ConditionCheck",
+];
+
+function operationType(item: TransactItem): TransactionOperationType {
+  return TRANSACTION_OPERATION_TYPES.find((type) => item[type])!;
+}
+
+function operationKey(item: TransactItem): Record<string, any> {
+  const operation = item.Update ?? item.Delete ?? item.ConditionCheck;
+  return item.Put?.Item ?? operation?.Key ?? {};
+}
+
+// Chunks of one mutation get distinct, but stable, tokens derived from it.
+function chunkToken(token: string, index: number, count: number) {
+  if (count === 1) {
+    return token;
+  }
+  return createHash("sha256")
+    .update(`${token}#${index}`)
+    .digest("hex")
+    .slice(0, 36);
+}
+
+// Merges placeholder maps, leaving out the result when it would be empty.
+function mergeMaps<V>(
+  ...maps: (Record<string, V> | undefined)[]
+): Record<string, V> | undefined {
+  const merged = Object.assign({}, ...maps);
+  return Object.keys(merged).length > 0 ? merged : undefined;
+}
+
+// Position in an in-memory sorted search, see Repository.search.
+function decodeOffset(cursor: string): number {
+  const { offset } = decodeCursor(cursor);
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new InvalidCursorError(cursor);
+  }
+  return offset;
+}
+
+// Orders missing values last, numbers numerically and anything else as text.
+function compareSortValues(a: unknown, b: unknown): number {
+  if (a === undefined || b === undefined) {
+    return a === b ? 0 : a === undefined ? 1 : -1;
+  }
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function attemptsOf(error: unknown): number | undefined {
+  return error instanceof Object ? callAttempts.get(error) : undefined;
+}
+
+function isConditionalCheckFailure(error: unknown): error is DynamoDBException {
+  return isDynamoDBException(error, "ConditionalCheckFailedException");
+}
+
+// The error a single-item write fails with when its condition does not hold.
+function conditionFailure(
+  cause: unknown,
+  item: Record<string, any> | null
+): Error {
+  return Object.assign(new Error("The conditional request failed"), {
+    name: "ConditionalCheckFailedException",
+    cause,
+    Item: item ? marshall(item, { removeUndefinedValues: true }) : undefined,
+  });
+}
+
+// Adds a condition to a Put or Delete that may carry a condition of its own.
+function withCondition<
+  O extends PutOperation | UpdateOperation | DeleteOperation
+>(operation: O, condition: Condition): O {
+  // A dedicated registry keeps these placeholders apart from the caller's.
+  const {
+    ConditionExpression,
+    ExpressionAttributeNames,
+    ExpressionAttributeValues,
+  } = buildExpressions(
+    { condition },
+    new AttributeRegistry("#audit", ":audit")
+  );
+  return {
+    ...operation,
+    ConditionExpression: operation.ConditionExpression
+      ? `(${operation.ConditionExpression}) AND (${ConditionExpression})`
+      : ConditionExpression,
+    ExpressionAttributeNames: mergeMaps(
+      operation.ExpressionAttributeNames,
+      ExpressionAttributeNames
+    ),
+    ExpressionAttributeValues: mergeMaps(
+      operation.ExpressionAttributeValues,
+      ExpressionAttributeValues
+    ),
+  };
+}
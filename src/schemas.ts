@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { TableDescriptor } from "./types";
+
+export const BookSchema = z.object({
+  title: z.string(),
+  author: z.string(),
+  isbn: z.string(),
+  publicationDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format, expected YYYY-MM-DD"),
+  genre: z.string(),
+  price: z.number().positive(),
+});
+
+export type Book = z.infer<typeof BookSchema>;
+
+// Books are stored under their ISBN; the author and genre indexes serve book
+// searches. Their reviews live in the reviews table, see reviewsTable.
+export const booksTable: TableDescriptor = {
+  tableName: "BooksTable",
+  partitionKey: { name: "isbn", type: "S" },
+  indexes: [
+    {
+      name: "AuthorIndex",
+      kind: "global",
+      partitionKey: { name: "author", type: "S" },
+      sortKey: { name: "publicationDate", type: "S" },
+      projection: { type: "ALL" },
+    },
+    {
+      name: "GenreIndex",
+      kind: "global",
+      partitionKey: { name: "genre", type: "S" },
+      sortKey: { name: "price", type: "N" },
+      projection: { type: "ALL" },
+    },
+  ],
+  timeToLiveAttribute: "expiresAt",
+  stream: "NEW_AND_OLD_IMAGES",
+};
+
+export const ReviewSchema = z.object({
+  reviewId: z.string(),
+  isbn: z.string(), // The reviewed book
+  reviewer: z.string(),
+  rating: z.number().int().min(1).max(5),
+  body: z.string(),
+});
+
+export type Review = z.infer<typeof ReviewSchema>;
+
+export const AuthorSchema = z.object({
+  authorId: z.string(),
+  name: z.string(),
+  bio: z.string().optional(),
+});
+
+export type Author = z.infer<typeof AuthorSchema>;
+
+// Reviews are stored under their id; the book index lists those of a book,
+// which makes them the related items of books.
+export const reviewsTable: TableDescriptor = {
+  tableName: "ReviewsTable",
+  partitionKey: { name: "reviewId", type: "S" },
+  indexes: [
+    {
+      name: "BookIndex",
+      kind: "global",
+      partitionKey: { name: "isbn", type: "S" },
+      projection: { type: "ALL" },
+    },
+  ],
+  relationship: { attribute: "isbn", indexName: "BookIndex" },
+  timeToLiveAttribute: "expiresAt",
+};
+
+export const authorsTable: TableDescriptor = {
+  tableName: "AuthorsTable",
+  partitionKey: { name: "authorId", type: "S" },
+};
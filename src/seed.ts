@@ -0,0 +1,54 @@
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import { z } from "zod";
+
+import { Repository } from "./respo";
+import { BookSchema, Book, booksTable } from "./schemas";
+import { validationFailed } from "./http-errors";
+import { createDynamoDBClient } from "./client";
+import { loadConfig } from "./config";
+import { BatchWriteResult } from "./types";
+import bookFixtures from "./fixtures/books.json";
+
+/**
+ * Validates book fixtures against BookSchema and writes them in batches.
+ * Nothing is written when any fixture is invalid.
+ * @param repository Repository of the books table.
+ * @param fixtures Books to load, typically parsed from JSON.
+ * @returns One result per fixture.
+ * @throws ValidationFailedError listing every invalid field by its index.
+ */
+export async function seedBooks(
+  repository: Repository<Book>,
+  fixtures: unknown = bookFixtures
+): Promise<BatchWriteResult[]> {
+  const parsed = z.array(BookSchema).safeParse(fixtures);
+  if (!parsed.success) {
+    throw validationFailed(parsed.error, "Book fixtures are invalid.");
+  }
+  return repository.batchWrite(parsed.data);
+}
+
+if (require.main === module) {
+  const config = loadConfig();
+  const docClient = DynamoDBDocumentClient.from(
+    createDynamoDBClient(config.dynamodb)
+  );
+  const bookRepository = new Repository<Book>(
+    { ...booksTable, tableName: config.tables.books },
+    docClient,
+    { versionAttribute: "version" }
+  );
+
+  seedBooks(bookRepository)
+    .then((results) => {
+      const written = results.filter((result) => result.status === "written");
+      console.log(`Seeded ${written.length} of ${results.length} books.`);
+      if (written.length < results.length) {
+        process.exitCode = 1;
+      }
+    })
+    .catch((error) => {
+      console.error("Seeding failed:", error);
+      process.exitCode = 1;
+    });
+}
@@ -0,0 +1,47 @@
+import request from "supertest";
+import { MemoryDocumentClient } from "./memory-client";
+import { booksTable } from "./schemas";
+import { outboxTable } from "./outbox";
+import { historyTable } from "./audit";
+import { DEFAULT_CONFIG } from "./config";
+import { JsonLogger } from "./observability";
+import { startServer, RunningServer } from "./server";
+
+describe("startServer", () => {
+  let running: RunningServer | undefined;
+
+  afterEach(async () => {
+    await running?.shutdown();
+  });
+
+  it("serves the API with probes and shuts down gracefully", async () => {
+    const logs: Record<string, any>[] = [];
+    running = await startServer(
+      { ...DEFAULT_CONFIG, server: { ...DEFAULT_CONFIG.server, port: 0 } },
+      {
+        client: new MemoryDocumentClient([
+          booksTable,
+          outboxTable,
+          historyTable,
+        ]),
+        logger: new JsonLogger({
+          write: (line) => logs.push(JSON.parse(line)),
+        }),
+      }
+    );
+    const { url, server } = running;
+
+    await request(url).get("/health").expect(200, { status: "ok" });
+    await request(url).get("/ready").expect(200, { status: "ready" });
+    await request(url)
+      .get("/books")
+      .set("X-Tenant-Id", "acme")
+      .expect(200, { items: [], cursor: null });
+
+    await running.shutdown();
+    expect(server.listening).toBe(false);
+    expect(logs.map(({ message }) => message)).toEqual(
+      expect.arrayContaining(["Server running.", "Server stopped."])
+    );
+  });
+});
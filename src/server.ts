@@ -0,0 +1,204 @@
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+
+import { Repository } from "./respo";
+import {
+  AuthorSchema,
+  BookSchema,
+  ReviewSchema,
+  authorsTable,
+  booksTable,
+  reviewsTable,
+} from "./schemas";
+import { ReadCache, LruCacheStore } from "./cache";
+import { CircuitBreaker } from "./util-circuit-breaker";
+import { createDynamoDBClient } from "./client";
+import { Config, loadConfig } from "./config";
+import {
+  createApp,
+  AuthorItem,
+  BookItem,
+  ReviewItem,
+  Repositories,
+} from "./index";
+import {
+  JsonLogger,
+  Logger,
+  MetricsRegistry,
+  defaultLogger,
+} from "./observability";
+import { DocumentClient } from "./types";
+
+export type ServerOptions = {
+  client?: DocumentClient; // Built from config.dynamodb unless given
+  logger?: Logger; // Built from config.logging unless given
+  metrics?: MetricsRegistry;
+};
+
+export type RunningServer = {
+  server: Server;
+  url: string;
+  // Stops accepting requests and resolves once those in flight finished.
+  shutdown(): Promise<void>;
+};
+
+/**
+ * Builds the repositories of the API from the configuration. The circuit
+ * breaker is shared, so readiness can report an unavailable DynamoDB.
+ */
+export function createRepositories(
+  config: Config,
+  client: DocumentClient,
+  { logger, metrics }: { logger: Logger; metrics: MetricsRegistry },
+  circuitBreaker = new CircuitBreaker()
+): Repositories {
+  const cache = (table: string) =>
+    config.cache.enabled
+      ? new ReadCache(new LruCacheStore(config.cache.maxEntries), {
+          ttlMs: config.cache.ttlMs,
+          metrics,
+          table,
+        })
+      : undefined;
+  const reviews = new Repository<ReviewItem>(
+    { ...reviewsTable, tableName: config.tables.reviews },
+    client,
+    {
+      versionAttribute: "version",
+      schema: ReviewSchema,
+      circuitBreaker,
+      softDelete: { retentionDays: 30 },
+      historyTableName: config.tables.history,
+      tenancy: {},
+      cache: cache(config.tables.reviews),
+      observability: { logger, metrics },
+    }
+  );
+  const books = new Repository<BookItem>(
+    { ...booksTable, tableName: config.tables.books },
+    client,
+    {
+      versionAttribute: "version",
+      schema: BookSchema,
+      circuitBreaker,
+      outboxTableName: config.tables.outbox,
+      softDelete: { retentionDays: 30 },
+      historyTableName: config.tables.history,
+      tenancy: {},
+      cache: cache(config.tables.books),
+      relatedItems: reviews,
+      observability: { logger, metrics },
+    }
+  );
+  const authors = new Repository<AuthorItem>(
+    { ...authorsTable, tableName: config.tables.authors },
+    client,
+    {
+      versionAttribute: "version",
+      schema: AuthorSchema,
+      circuitBreaker,
+      tenancy: {},
+      cache: cache(config.tables.authors),
+      observability: { logger, metrics },
+    }
+  );
+  return { books, reviews, authors };
+}
+
+/**
+ * Serves the API on the configured port. Until shutdown, /ready answers
+ * whether DynamoDB is usable, i.e. the circuit breaker is not open; once
+ * shutdown begins it answers 503, new connections are refused, and
+ * connections still open after `shutdownTimeoutMs` are closed.
+ */
+export async function startServer(
+  config: Config,
+  options: ServerOptions = {}
+): Promise<RunningServer> {
+  const logger =
+    options.logger ??
+    new JsonLogger({
+      level: config.logging.level,
+      redact: config.logging.redact,
+    });
+  const metrics = options.metrics ?? new MetricsRegistry();
+  const ownClient = options.client
+    ? undefined
+    : DynamoDBDocumentClient.from(createDynamoDBClient(config.dynamodb));
+  const circuitBreaker = new CircuitBreaker();
+  const repositories = createRepositories(
+    config,
+    options.client ?? ownClient!,
+    { logger, metrics },
+    circuitBreaker
+  );
+
+  let shuttingDown = false;
+  const app = createApp({
+    repositories,
+    config,
+    logger,
+    metrics,
+    ready: () => !shuttingDown && circuitBreaker.state !== "open",
+  });
+  const server = await new Promise<Server>((resolve, reject) => {
+    const listening = app
+      .listen(config.server.port, () => resolve(listening))
+      .once("error", reject);
+  });
+  const { port } = server.address() as AddressInfo;
+  const url = `http://localhost:${port}`;
+  logger.info("Server running.", { url, profile: config.profile });
+
+  let closed: Promise<void> | undefined;
+  const shutdown = () => {
+    closed ??= new Promise<void>((resolve, reject) => {
+      shuttingDown = true;
+      logger.info("Shutting down.");
+      const timeout = setTimeout(() => {
+        logger.warn("Closing connections still open after the timeout.");
+        server.closeAllConnections();
+      }, config.server.shutdownTimeoutMs);
+      server.close((error) => {
+        clearTimeout(timeout);
+        ownClient?.destroy();
+        if (error) {
+          reject(error);
+        } else {
+          logger.info("Server stopped.");
+          resolve();
+        }
+      });
+      server.closeIdleConnections();
+    });
+    return closed;
+  };
+  return { server, url, shutdown };
+}
+
+if (require.main === module) {
+  let config: Config;
+  try {
+    config = loadConfig();
+  } catch (error) {
+    defaultLogger.error("Could not load the configuration.", { error });
+    process.exit(1);
+  }
+
+  startServer(config)
+    .then(({ shutdown }) => {
+      for (const signal of ["SIGTERM", "SIGINT"] as const) {
+        process.once(signal, () => {
+          shutdown().catch((error) => {
+            defaultLogger.error("Shutdown failed.", { error });
+            process.exitCode = 1;
+          });
+        });
+      }
+    })
+    .catch((error) => {
+      defaultLogger.error("Server failed to start.", { error });
+      process.exitCode = 1;
+    });
+}
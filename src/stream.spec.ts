@@ -0,0 +1,155 @@
+import { PutCommand } from "@aws-sdk/lib-dynamodb";
+import { MemoryDocumentClient } from "./memory-client";
+import { MemoryStream } from "./memory-stream";
+import { Repository } from "./respo";
+import { BookSchema, Book, booksTable } from "./schemas";
+import {
+  StreamProcessor,
+  MemoryDeadLetterSink,
+  defineStreamHandler,
+} from "./stream";
+
+const dune: Book = {
+  title: "Dune",
+  author: "Frank Herbert",
+  isbn: "9780441013593",
+  publicationDate: "1965-08-01",
+  genre: "Science Fiction",
+  price: 9.99,
+};
+
+describe("StreamProcessor", () => {
+  let client: MemoryDocumentClient;
+  let books: Repository<Book>;
+  let deadLetters: MemoryDeadLetterSink;
+  let processor: StreamProcessor;
+  let stream: MemoryStream;
+  let bookCounts: Map<string, number>;
+
+  // Keeps the number of books per author, as derived data would be.
+  const countBooks = () =>
+    defineStreamHandler({
+      name: "authorBookCounts",
+      schema: BookSchema,
+      matches: (image) => image.parentId === undefined,
+      insert: ({ newImage }) => adjust(newImage!.author, 1),
+      modify: ({ oldImage, newImage }) => {
+        adjust(oldImage!.author, -1);
+        adjust(newImage!.author, 1);
+      },
+      remove: ({ oldImage }) => adjust(oldImage!.author, -1),
+    });
+
+  function adjust(author: string, delta: number) {
+    bookCounts.set(author, (bookCounts.get(author) ?? 0) + delta);
+  }
+
+  beforeEach(() => {
+    client = new MemoryDocumentClient([booksTable]);
+    books = new Repository<Book>(booksTable, client);
+    deadLetters = new MemoryDeadLetterSink();
+    processor = new StreamProcessor({
+      deadLetters,
+      retry: { maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 1 },
+    });
+    stream = new MemoryStream(client, "BooksTable", processor);
+    bookCounts = new Map();
+  });
+
+  it("dispatches inserts, modifications and removals with typed images", async () => {
+    processor.on(countBooks());
+
+    await books.putItem(dune);
+    await books.putItem({ ...dune, isbn: "2" });
+    await books.updateItem({ isbn: "2" }, { author: "Brian Herbert" });
+    await books.deleteItem({ isbn: dune.isbn });
+
+    await expect(stream.drain()).resolves.toMatchObject({
+      processed: 4,
+      deadLettered: 0,
+    });
+    expect(Object.fromEntries(bookCounts)).toEqual({
+      "Frank Herbert": 0,
+      "Brian Herbert": 1,
+    });
+  });
+
+  it("skips records before the checkpoint when delivered again", async () => {
+    processor.on(countBooks());
+    await books.putItem(dune);
+    await stream.drain();
+
+    await books.putItem({ ...dune, isbn: "2" });
+    stream.rewind();
+    await expect(stream.drain()).resolves.toMatchObject({
+      processed: 1,
+      skipped: 1,
+    });
+    expect(bookCounts.get("Frank Herbert")).toBe(2);
+  });
+
+  it("ignores items the handler does not match", async () => {
+    processor.on(countBooks());
+    await client.send(
+      new PutCommand({
+        TableName: "BooksTable",
+        Item: { isbn: "review-1", parentId: dune.isbn },
+      })
+    );
+
+    await expect(stream.drain()).resolves.toMatchObject({
+      processed: 1,
+      deadLettered: 0,
+    });
+    expect(bookCounts.size).toBe(0);
+  });
+
+  it("dead-letters images the schema rejects", async () => {
+    processor.on(countBooks());
+    await client.send(
+      new PutCommand({
+        TableName: "BooksTable",
+        Item: { ...dune, publicationDate: "1965" },
+      })
+    );
+    await books.putItem({ ...dune, isbn: "2" });
+
+    await expect(stream.drain()).resolves.toMatchObject({
+      processed: 2,
+      deadLettered: 1,
+    });
+    expect(deadLetters.letters).toEqual([
+      expect.objectContaining({
+        handler: "authorBookCounts",
+        reason: "invalid_image",
+      }),
+    ]);
+    expect(bookCounts.get("Frank Herbert")).toBe(1);
+  });
+
+  it("retries failing handlers before dead-lettering the record", async () => {
+    const insert = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("Flaky"))
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValue(new Error("Broken"));
+    processor.on(
+      defineStreamHandler({ name: "flaky", schema: BookSchema, insert })
+    );
+
+    await books.putItem(dune);
+    await books.putItem({ ...dune, isbn: "2" });
+
+    await expect(stream.drain()).resolves.toMatchObject({
+      processed: 2,
+      deadLettered: 1,
+    });
+    expect(insert).toHaveBeenCalledTimes(4);
+    expect(deadLetters.letters).toEqual([
+      expect.objectContaining({
+        reason: "handler_failed",
+        error: new Error("Broken"),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,226 @@
+import { z, ZodTypeAny } from "zod";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import { withRetry, RetryOptions } from "./util-retry";
+import { StreamEventName, StreamRecord } from "./types";
+
+export type ChangeEvent<D> = {
+  type: StreamEventName;
+  keys: Record<string, any>;
+  newImage?: D; // Absent for REMOVE, or when the view type leaves it out
+  oldImage?: D; // Absent for INSERT, or when the view type leaves it out
+  record: StreamRecord;
+};
+
+type ChangeHandler<D> = (event: ChangeEvent<D>) => Promise<void> | void;
+
+/**
+ * Reacts to the changes of one entity type. Images are validated with the
+ * schema before a handler sees them.
+ */
+export type StreamHandler<S extends ZodTypeAny = ZodTypeAny> = {
+  name: string; // Identifies the handler in dead letters
+  schema: S;
+  matches?: (image: Record<string, any>) => boolean; // Every item by default
+  insert?: ChangeHandler<z.infer<S>>;
+  modify?: ChangeHandler<z.infer<S>>;
+  remove?: ChangeHandler<z.infer<S>>;
+};
+
+export function defineStreamHandler<S extends ZodTypeAny>(
+  handler: StreamHandler<S>
+): StreamHandler<S> {
+  return handler;
+}
+
+// A record a handler could not process, set aside so the shard can move on.
+export type DeadLetter = {
+  shardId: string;
+  handler: string;
+  reason: "invalid_image" | "handler_failed";
+  error: unknown;
+  record: StreamRecord;
+};
+
+export type DeadLetterSink = {
+  send(letter: DeadLetter): Promise<void>;
+};
+
+// The sequence number of the last record processed, per shard.
+export type CheckpointStore = {
+  get(shardId: string): Promise<string | undefined>;
+  set(shardId: string, sequenceNumber: string): Promise<void>;
+};
+
+export type StreamProcessorOptions = {
+  checkpoints?: CheckpointStore; // Kept in memory by default
+  deadLetters?: DeadLetterSink; // Kept in memory by default
+  retry?: RetryOptions; // Per handler call; every error is retried by default
+};
+
+export type BatchSummary = {
+  processed: number;
+  skipped: number; // At or before the checkpoint, so processed already
+  deadLettered: number; // Handler calls given up on, not records
+  checkpoint?: string;
+};
+
+export class MemoryCheckpointStore {
+  private sequenceNumbers = new Map<string, string>();
+
+  async get(shardId: string) {
+    return this.sequenceNumbers.get(shardId);
+  }
+
+  async set(shardId: string, sequenceNumber: string) {
+    this.sequenceNumbers.set(shardId, sequenceNumber);
+  }
+}
+
+export class MemoryDeadLetterSink {
+  readonly letters: DeadLetter[] = [];
+
+  async send(letter: DeadLetter) {
+    this.letters.push(letter);
+  }
+}
+
+/**
+ * Dispatches DynamoDB Streams records to the handlers registered for them.
+ * Records are processed in order and checkpointed one by one, so a batch
+ * delivered again after a crash resumes after the last processed record.
+ * A handler that keeps failing, or an image its schema rejects, sends the
+ * record to the dead-letter sink instead of blocking the shard.
+ */
+export class StreamProcessor {
+  readonly checkpoints: CheckpointStore;
+  readonly deadLetters: DeadLetterSink;
+  private retry: RetryOptions;
+  private handlers: StreamHandler<any>[] = [];
+
+  constructor({
+    checkpoints = new MemoryCheckpointStore(),
+    deadLetters = new MemoryDeadLetterSink(),
+    retry = {},
+  }: StreamProcessorOptions = {}) {
+    this.checkpoints = checkpoints;
+    this.deadLetters = deadLetters;
+    this.retry = { isRetryable: () => true, ...retry };
+  }
+
+  on<S extends ZodTypeAny>(handler: StreamHandler<S>): this {
+    this.handlers.push(handler);
+    return this;
+  }
+
+  /**
+   * Processes a batch of records read from one shard.
+   * @param shardId Shard the records were read from, the checkpoint's key.
+   * @param records Records in shard order.
+   */
+  async processBatch(
+    shardId: string,
+    records: StreamRecord[]
+  ): Promise<BatchSummary> {
+    const summary: BatchSummary = {
+      processed: 0,
+      skipped: 0,
+      deadLettered: 0,
+      checkpoint: await this.checkpoints.get(shardId),
+    };
+
+    for (const record of records) {
+      const { SequenceNumber } = record.dynamodb;
+      if (
+        summary.checkpoint !== undefined &&
+        compareSequenceNumbers(SequenceNumber, summary.checkpoint) <= 0
+      ) {
+        summary.skipped += 1;
+        continue;
+      }
+
+      for (const handler of this.handlers) {
+        if (!(await this.dispatch(shardId, handler, record))) {
+          summary.deadLettered += 1;
+        }
+      }
+
+      await this.checkpoints.set(shardId, SequenceNumber);
+      summary.checkpoint = SequenceNumber;
+      summary.processed += 1;
+    }
+
+    return summary;
+  }
+
+  // Runs one handler for a record; false when the record was dead-lettered.
+  private async dispatch(
+    shardId: string,
+    handler: StreamHandler,
+    record: StreamRecord
+  ): Promise<boolean> {
+    const { Keys, NewImage, OldImage } = record.dynamodb;
+    const keys = unmarshall(Keys);
+    const newImage = NewImage && unmarshall(NewImage);
+    const oldImage = OldImage && unmarshall(OldImage);
+    const image = newImage ?? oldImage ?? keys;
+    if (handler.matches && !handler.matches(image)) {
+      return true;
+    }
+
+    const callback = {
+      INSERT: handler.insert,
+      MODIFY: handler.modify,
+      REMOVE: handler.remove,
+    }[record.eventName];
+    if (!callback) {
+      return true;
+    }
+
+    const parsedNew = newImage && handler.schema.safeParse(newImage);
+    const parsedOld = oldImage && handler.schema.safeParse(oldImage);
+    const invalid = [parsedNew, parsedOld].find(
+      (parsed) => parsed && !parsed.success
+    );
+    if (invalid && !invalid.success) {
+      await this.deadLetters.send({
+        shardId,
+        handler: handler.name,
+        reason: "invalid_image",
+        error: invalid.error,
+        record,
+      });
+      return false;
+    }
+
+    const event: ChangeEvent<unknown> = {
+      type: record.eventName,
+      keys,
+      newImage: parsedNew?.success ? parsedNew.data : undefined,
+      oldImage: parsedOld?.success ? parsedOld.data : undefined,
+      record,
+    };
+    try {
+      await withRetry(async () => callback(event), this.retry);
+      return true;
+    } catch (error) {
+      await this.deadLetters.send({
+        shardId,
+        handler: handler.name,
+        reason: "handler_failed",
+        error,
+        record,
+      });
+      return false;
+    }
+  }
+}
+
+// Sequence numbers are decimal strings of varying length.
+function compareSequenceNumbers(a: string, b: string): number {
+  const left = a.replace(/^0+/, "");
+  const right = b.replace(/^0+/, "");
+  if (left.length !== right.length) {
+    return left.length - right.length;
+  }
+  return left < right ? -1 : left > right ? 1 : 0;
+}
@@ -0,0 +1,304 @@
+import { PutCommand } from "@aws-sdk/lib-dynamodb";
+import { MemoryDocumentClient } from "./memory-client";
+import { Repository } from "./respo";
+import { booksTable, reviewsTable } from "./schemas";
+import { historyTable } from "./audit";
+import { attribute } from "./util-condition";
+import { update } from "./util-expression";
+import {
+  ConditionalCheckFailedError,
+  ItemNotFoundError,
+  TableDescriptor,
+  TenantRequiredError,
+  ValidationFailedError,
+} from "./types";
+
+// Keeps reviews in the books table, pointing at their book through parentId.
+const booksWithReviewsTable: TableDescriptor = {
+  ...booksTable,
+  indexes: [
+    ...(booksTable.indexes ?? []),
+    {
+      name: "RelatedItemsIndex",
+      kind: "global",
+      partitionKey: { name: "parentId", type: "S" },
+      projection: { type: "ALL" },
+    },
+  ],
+  relationship: { attribute: "parentId", indexName: "RelatedItemsIndex" },
+};
+
+type Item = Record<string, any>;
+
+const dune = {
+  title: "Dune",
+  author: "Frank Herbert",
+  isbn: "9780441013593",
+  publicationDate: "1965-08-01",
+  genre: "Science Fiction",
+  price: 9.99,
+};
+const review = { isbn: "review-1", parentId: dune.isbn, rating: 5 };
+const duneKey = { isbn: dune.isbn };
+
+async function collect<T>(items: AsyncGenerator<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const item of items) {
+    collected.push(item);
+  }
+  return collected;
+}
+
+describe("tenant-scoped repositories", () => {
+  let client: MemoryDocumentClient;
+  let books: Repository<Item>;
+  let acme: Repository<Item>;
+  let globex: Repository<Item>;
+
+  // Acme's items as stored, which nothing Globex does may change.
+  const acmeItems = () =>
+    client.items("BooksTable").filter((item) => item.tenantId === "acme");
+
+  beforeEach(async () => {
+    client = new MemoryDocumentClient([booksWithReviewsTable, historyTable]);
+    books = new Repository<Item>(booksWithReviewsTable, client, {
+      versionAttribute: "version",
+      softDelete: {},
+      historyTableName: historyTable.tableName,
+      tenancy: {},
+    });
+    acme = books.forTenant("acme");
+    globex = books.forTenant("globex");
+
+    await acme.putItem(dune);
+    await acme.putItem(review);
+    await acme.putItem({ ...dune, isbn: "deleted-1" });
+    await acme.softDelete({ isbn: "deleted-1" });
+  });
+
+  it("stores items under prefixed keys and returns them as written", async () => {
+    expect(client.items("BooksTable")).toContainEqual(
+      expect.objectContaining({ isbn: `acme#${dune.isbn}`, tenantId: "acme" })
+    );
+    expect(await acme.getItem(duneKey)).toEqual({ ...dune, version: 1 });
+    expect(await acme.queryRelatedItems(dune.isbn)).toEqual([
+      { ...review, version: 1 },
+    ]);
+    expect(
+      (await acme.listItems({ includeDeleted: true })).items.map(
+        ({ isbn }) => isbn
+      )
+    ).toEqual(expect.arrayContaining([dune.isbn, review.isbn, "deleted-1"]));
+    // Cursors resume from keys as the tenant sees them.
+    expect(
+      await collect(acme.iterateItems({ pageSize: 1, includeDeleted: true }))
+    ).toHaveLength(3);
+  });
+
+  it("refuses every request without a tenant", async () => {
+    const refused = expect.any(TenantRequiredError);
+    await expect(books.getItem(duneKey)).rejects.toEqual(refused);
+    await expect(books.listItems()).rejects.toEqual(refused);
+    await expect(books.scanPage()).rejects.toEqual(refused);
+    await expect(
+      books.queryPage({ keyCondition: attribute("isbn").eq(dune.isbn) })
+    ).rejects.toEqual(refused);
+    await expect(books.putItem(dune)).rejects.toEqual(refused);
+    await expect(books.updateItem(duneKey, { price: 1 })).rejects.toEqual(
+      refused
+    );
+    await expect(books.deleteItem(duneKey)).rejects.toEqual(refused);
+    await expect(books.batchGet([duneKey])).rejects.toEqual(refused);
+    await expect(books.batchWrite([dune])).rejects.toEqual(refused);
+    await expect(
+      books.mutate([{ Delete: { TableName: "BooksTable", Key: duneKey } }])
+    ).rejects.toEqual(refused);
+    expect(acmeItems()).toHaveLength(3);
+  });
+
+  it("rejects tenant ids that could forge another tenant's prefix", () => {
+    expect(() => books.forTenant("acme#x")).toThrow(ValidationFailedError);
+    expect(() => books.forTenant("")).toThrow(ValidationFailedError);
+    expect(() =>
+      new Repository<Item>(booksWithReviewsTable, client).forTenant("acme")
+    ).toThrow("not scoped to tenants");
+  });
+
+  it("refuses updates that would move an item to another tenant", async () => {
+    await expect(
+      acme.updateItem(duneKey, { tenantId: "globex" })
+    ).rejects.toThrow(ValidationFailedError);
+    await expect(
+      acme.updateItem(duneKey, update<Item>().remove("tenantId"))
+    ).rejects.toThrow(ValidationFailedError);
+    expect(await globex.getItem(duneKey)).toBeNull();
+    expect(await acme.getItem(duneKey)).toEqual({ ...dune, version: 1 });
+
+    // An item under Acme's key that belongs to Globex stays out of reach.
+    await client.send(
+      new PutCommand({
+        TableName: "BooksTable",
+        Item: { ...dune, isbn: "acme#stray", tenantId: "globex" },
+      })
+    );
+    expect(await acme.updateItem({ isbn: "stray" }, { price: 1 })).toBeNull();
+    await expect(acme.deleteItem({ isbn: "stray" })).rejects.toThrow(
+      ConditionalCheckFailedError
+    );
+    expect(client.items("BooksTable")).toContainEqual(
+      expect.objectContaining({ isbn: "acme#stray", price: dune.price })
+    );
+  });
+
+  it("never returns another tenant's items", async () => {
+    const [acmeEntry] = (await acme.history(duneKey)).items;
+
+    expect(
+      await globex.getItem(duneKey, {
+        consistentRead: true,
+        includeDeleted: true,
+      })
+    ).toBeNull();
+    expect((await globex.listItems({ includeDeleted: true })).items).toEqual(
+      []
+    );
+    expect(
+      await collect(globex.iterateItems({ includeDeleted: true }))
+    ).toEqual([]);
+    const byKey = { keyCondition: attribute("isbn").eq(dune.isbn) };
+    expect((await globex.queryPage(byKey)).items).toEqual([]);
+    expect(await collect(globex.iterateQuery(byKey))).toEqual([]);
+    const byAuthor = {
+      indexName: "AuthorIndex",
+      keyCondition: attribute("author").eq(dune.author),
+    };
+    expect((await globex.queryPage(byAuthor)).items).toEqual([]);
+    expect((await globex.scanPage({ includeDeleted: true })).items).toEqual([]);
+    expect(
+      await collect(globex.iterateScan({ indexName: "RelatedItemsIndex" }))
+    ).toEqual([]);
+    for (const filters of [
+      [{ attribute: "isbn", op: "eq" as const, value: dune.isbn }],
+      [{ attribute: "author", op: "eq" as const, value: dune.author }],
+      [{ attribute: "title", op: "beginsWith" as const, prefix: "Du" }],
+    ]) {
+      expect((await globex.search({ filters })).items).toEqual([]);
+    }
+    expect(
+      await globex.batchGet([duneKey, { isbn: review.isbn }], {
+        consistentRead: true,
+      })
+    ).toEqual([
+      { key: duneKey, item: null, status: "not_found" },
+      { key: { isbn: review.isbn }, item: null, status: "not_found" },
+    ]);
+    expect(
+      await globex.getBookWithRelatedItems(duneKey, { includeDeleted: true })
+    ).toEqual({ book: null, relatedItems: [] });
+    expect(await globex.queryRelatedItems(dune.isbn)).toEqual([]);
+    expect((await globex.queryRelatedItemsPage(dune.isbn)).items).toEqual([]);
+    expect(await collect(globex.iterateRelatedItems(dune.isbn))).toEqual([]);
+    expect((await globex.history(duneKey)).items).toEqual([]);
+    expect(await globex.historyEntry(duneKey, acmeEntry.entryId)).toBeNull();
+    await expect(
+      globex.resumeKeyMigration({ isbn: "deleted-1" })
+    ).rejects.toThrow(ItemNotFoundError);
+  });
+
+  it("never modifies another tenant's items", async () => {
+    const before = acmeItems();
+    const [acmeEntry] = (await acme.history(duneKey)).items;
+
+    expect(await globex.updateItem(duneKey, { price: 1 })).toBeNull();
+    expect(await globex.deleteItem(duneKey)).toBeNull();
+    expect(await globex.softDelete(duneKey)).toBeNull();
+    expect(await globex.restore({ isbn: "deleted-1" })).toBeNull();
+    await expect(
+      globex.replacePrimaryKey(duneKey, { isbn: "moved" })
+    ).rejects.toThrow(ItemNotFoundError);
+    await expect(globex.revert(duneKey, acmeEntry.entryId)).rejects.toThrow(
+      ItemNotFoundError
+    );
+    await globex.mutate([
+      { Delete: { TableName: "BooksTable", Key: { isbn: review.isbn } } },
+      {
+        Put: {
+          TableName: "BooksTable",
+          Item: { ...dune, isbn: "deleted-1", title: "Globex" },
+        },
+      },
+    ]);
+    await globex.batchWrite(
+      [{ ...dune, title: "Globex" }],
+      [{ isbn: "deleted-1" }]
+    );
+    await globex.putItem({ ...review, rating: 1 });
+    // Globex's book moves with Globex's review only.
+    await globex.replacePrimaryKey(
+      duneKey,
+      { isbn: "globex-dune" },
+      {},
+      { queryRelatedItems: true }
+    );
+
+    expect(acmeItems()).toEqual(before);
+    expect(await acme.queryRelatedItems(dune.isbn)).toEqual([
+      { ...review, version: 1 },
+    ]);
+    expect(await globex.queryRelatedItems("globex-dune")).toEqual([
+      { ...review, parentId: "globex-dune", rating: 1, version: 1 },
+    ]);
+    expect((await acme.history(duneKey)).items).toHaveLength(1);
+    expect((await globex.history(duneKey)).items).toEqual([
+      expect.objectContaining({ tenantId: "globex", operation: "batchWrite" }),
+      expect.objectContaining({ tenantId: "globex", operation: "replaceKey" }),
+    ]);
+  });
+
+  it("moves and deletes only the tenant's reviews of another table", async () => {
+    client.createTable(reviewsTable);
+    const reviews = new Repository<Item>(reviewsTable, client, {
+      softDelete: {},
+      tenancy: {},
+    });
+    const catalog = new Repository<Item>(booksTable, client, {
+      versionAttribute: "version",
+      softDelete: {},
+      tenancy: {},
+      relatedItems: reviews,
+    });
+    const acmeReview = { reviewId: "r-1", isbn: dune.isbn, rating: 5 };
+    await reviews.forTenant("acme").putItem(acmeReview);
+    await reviews.forTenant("globex").putItem({ ...acmeReview, rating: 1 });
+    await globex.putItem(dune);
+
+    const moved = await catalog
+      .forTenant("acme")
+      .replacePrimaryKey(
+        duneKey,
+        { isbn: "moved" },
+        {},
+        { queryRelatedItems: true }
+      );
+    expect(moved.relatedItems).toEqual([{ ...acmeReview, isbn: "moved" }]);
+    await catalog
+      .forTenant("acme")
+      .softDelete({ isbn: "moved" }, { cascade: true });
+
+    expect(await catalog.forTenant("acme").queryRelatedItems("moved")).toEqual(
+      []
+    );
+    expect(
+      await catalog.forTenant("globex").queryRelatedItems(dune.isbn)
+    ).toEqual([{ ...acmeReview, rating: 1 }]);
+    expect(client.items("ReviewsTable")).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          reviewId: "acme#r-1",
+          isbn: "moved",
+          deletedAt: expect.any(String),
+        }),
+      ])
+    );
+  });
+});
@@ -0,0 +1,516 @@
+import {
+  GetCommand,
+  PutCommand,
+  UpdateCommand,
+  DeleteCommand,
+  QueryCommand,
+  ScanCommand,
+  TransactWriteCommand,
+  BatchGetCommand,
+  BatchWriteCommand,
+  BatchGetCommandInput,
+  BatchWriteCommandInput,
+  QueryCommandInput,
+  ScanCommandInput,
+  TransactWriteCommandInput,
+} from "@aws-sdk/lib-dynamodb";
+import {
+  marshall,
+  unmarshall,
+  NativeAttributeValue,
+} from "@aws-sdk/util-dynamodb";
+import { cancellationReasons, isDynamoDBException } from "./util-errors";
+import {
+  CommandOutput,
+  DocumentClient,
+  DocumentCommand,
+  DynamoDBKey,
+  TableDescriptor,
+  TenantRequiredError,
+  ValidationFailedError,
+} from "./types";
+
+// Tenant ids become part of partition keys, so they may not hold the separator.
+const TENANT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const TENANT_SEPARATOR = "#";
+
+// Placeholders the client adds to requests; AttributeRegistry never uses them.
+const TENANT_NAME = "#tenant";
+const TENANT_VALUE = ":tenant";
+const PARTITION_VALUE = ":tenantPartition";
+const PARTITION_NAME = "#tenantPartition";
+
+type Item = Record<string, NativeAttributeValue>;
+
+type TransactItem = NonNullable<
+  TransactWriteCommandInput["TransactItems"]
+>[number];
+
+// The parts of an Update, Delete or ConditionCheck the tenant scope changes.
+type WriteInput = {
+  Key?: Item;
+  UpdateExpression?: string;
+  ConditionExpression?: string;
+  ExpressionAttributeNames?: Record<string, string>;
+  ExpressionAttributeValues?: Item;
+};
+
+// Rejects tenant ids that are empty, too long or could forge another prefix.
+export function assertTenantId(tenantId: string): string {
+  if (!TENANT_ID_PATTERN.test(tenantId)) {
+    throw new ValidationFailedError("Invalid tenant id.", {
+      issues: [
+        {
+          path: ["tenantId"],
+          message: "Expected 1 to 64 letters, digits, underscores or hyphens.",
+        },
+      ],
+    });
+  }
+  return tenantId;
+}
+
+/**
+ * A document client that confines the requests for one table to the items
+ * of one tenant. Partition key values are stored prefixed with the tenant
+ * id, so keys of other tenants cannot be addressed, and items carry the
+ * tenant id in an attribute every Query and Scan is filtered on, which also
+ * covers indexes whose keys are not prefixed. Indexes must project that
+ * attribute, or their reads come back empty. Items are returned as the
+ * tenant wrote them, without prefix or attribute. Updates may not touch
+ * that attribute, and Updates, Deletes and ConditionChecks are conditioned
+ * on it, so an item that strayed into another tenant's key stays out of
+ * reach. Requests for other tables pass through unchanged. Without a tenant, every request for the table is
+ * refused with a TenantRequiredError.
+ */
+export class TenantScopedClient {
+  private prefix?: string;
+
+  constructor(
+    private client: DocumentClient,
+    private table: TableDescriptor,
+    private attribute: string,
+    readonly tenantId?: string
+  ) {
+    if (table.partitionKey.type !== "S") {
+      throw new Error(
+        `Table ${table.tableName} needs a string partition key to be scoped to tenants.`
+      );
+    }
+    this.prefix =
+      tenantId === undefined
+        ? undefined
+        : `${assertTenantId(tenantId)}${TENANT_SEPARATOR}`;
+  }
+
+  // A client for the same table and underlying client, scoped to a tenant.
+  forTenant(tenantId: string): TenantScopedClient {
+    return new TenantScopedClient(
+      this.client,
+      this.table,
+      this.attribute,
+      tenantId
+    );
+  }
+
+  send<C extends DocumentCommand>(command: C): Promise<CommandOutput<C>> {
+    return this.dispatch(command) as Promise<CommandOutput<C>>;
+  }
+
+  // Scopes a request for the table, and unscopes what it returns.
+  private async dispatch(command: DocumentCommand): Promise<object> {
+    if (command instanceof TransactWriteCommand) {
+      return this.transactWrite(command.input);
+    }
+    if (command instanceof BatchGetCommand) {
+      return this.batchGet(command.input);
+    }
+    if (command instanceof BatchWriteCommand) {
+      return this.batchWrite(command.input);
+    }
+    if (
+      !("TableName" in command.input) ||
+      command.input.TableName !== this.table.tableName
+    ) {
+      return this.client.send(command as Parameters<DocumentClient["send"]>[0]);
+    }
+
+    if (command instanceof GetCommand) {
+      const { input } = command;
+      const result = await this.client.send(
+        new GetCommand({ ...input, Key: this.scopeKey(input.Key!) })
+      );
+      return { ...result, Item: this.unscope(result.Item) };
+    }
+    if (command instanceof PutCommand) {
+      const { input } = command;
+      return this.write(
+        this.client.send(
+          new PutCommand({ ...input, Item: this.scopeItem(input.Item!) })
+        )
+      );
+    }
+    if (command instanceof UpdateCommand) {
+      return this.write(
+        this.client.send(
+          new UpdateCommand(this.scopeWrite("Update", command.input))
+        )
+      );
+    }
+    if (command instanceof DeleteCommand) {
+      return this.write(
+        this.client.send(
+          new DeleteCommand(this.scopeWrite("Delete", command.input))
+        )
+      );
+    }
+    if (command instanceof QueryCommand) {
+      return this.read(
+        this.client.send(new QueryCommand(this.scopeQuery(command.input)))
+      );
+    }
+    if (command instanceof ScanCommand) {
+      return this.read(
+        this.client.send(new ScanCommand(this.scopeRead(command.input)))
+      );
+    }
+    throw new Error(
+      `${command.constructor.name} is not supported for tenant-scoped tables.`
+    );
+  }
+
+  // Awaits a single-item write, returning old or new values as unscoped items.
+  private async write<R extends { Attributes?: Item }>(
+    sent: Promise<R>
+  ): Promise<R> {
+    try {
+      const result = await sent;
+      return { ...result, Attributes: this.unscope(result.Attributes) };
+    } catch (error) {
+      throw this.unscopeFailure(error);
+    }
+  }
+
+  private async read<R extends { Items?: Item[]; LastEvaluatedKey?: Item }>(
+    sent: Promise<R>
+  ): Promise<R> {
+    const result = await sent;
+    return {
+      ...result,
+      Items: result.Items?.map((item) => this.unscope(item)),
+      LastEvaluatedKey: this.unscope(result.LastEvaluatedKey),
+    };
+  }
+
+  private async transactWrite(input: TransactWriteCommandInput) {
+    const items = input.TransactItems ?? [];
+    const scoped = items.map((item): TransactItem => {
+      if (this.tableOf(item) !== this.table.tableName) {
+        return item;
+      }
+      if (item.Put) {
+        return { Put: { ...item.Put, Item: this.scopeItem(item.Put.Item!) } };
+      }
+      if (item.Update) {
+        return { Update: this.scopeWrite("Update", item.Update) };
+      }
+      if (item.Delete) {
+        return { Delete: this.scopeWrite("Delete", item.Delete) };
+      }
+      return {
+        ConditionCheck: this.scopeWrite("ConditionCheck", item.ConditionCheck!),
+      };
+    });
+    try {
+      return await this.client.send(
+        new TransactWriteCommand({ ...input, TransactItems: scoped })
+      );
+    } catch (error) {
+      cancellationReasons(error).forEach((reason, index) => {
+        const item = items[index];
+        if (
+          reason.Item &&
+          item &&
+          this.tableOf(item) === this.table.tableName
+        ) {
+          reason.Item = marshall(this.unscope(unmarshall(reason.Item)));
+        }
+      });
+      throw error;
+    }
+  }
+
+  // The table a transaction item writes to or checks.
+  private tableOf(item: TransactItem): string | undefined {
+    return (item.Put ?? item.Update ?? item.Delete ?? item.ConditionCheck)
+      ?.TableName;
+  }
+
+  private async batchGet(input: BatchGetCommandInput) {
+    const request = input.RequestItems?.[this.table.tableName];
+    if (!request) {
+      return this.client.send(new BatchGetCommand(input));
+    }
+    const result = await this.client.send(
+      new BatchGetCommand({
+        ...input,
+        RequestItems: {
+          ...input.RequestItems,
+          [this.table.tableName]: {
+            ...request,
+            Keys: request.Keys?.map((key) => this.scopeKey(key)),
+          },
+        },
+      })
+    );
+    const responses = result.Responses?.[this.table.tableName];
+    const unprocessed = result.UnprocessedKeys?.[this.table.tableName];
+    return {
+      ...result,
+      Responses: responses && {
+        ...result.Responses,
+        [this.table.tableName]: responses.map((item) => this.unscope(item)),
+      },
+      UnprocessedKeys: unprocessed && {
+        ...result.UnprocessedKeys,
+        [this.table.tableName]: {
+          ...unprocessed,
+          Keys: unprocessed.Keys?.map((key) => this.unscope(key)),
+        },
+      },
+    };
+  }
+
+  private async batchWrite(input: BatchWriteCommandInput) {
+    const requests = input.RequestItems?.[this.table.tableName];
+    if (!requests) {
+      return this.client.send(new BatchWriteCommand(input));
+    }
+    const result = await this.client.send(
+      new BatchWriteCommand({
+        ...input,
+        RequestItems: {
+          ...input.RequestItems,
+          [this.table.tableName]: requests.map((request) =>
+            request.PutRequest
+              ? {
+                  PutRequest: {
+                    Item: this.scopeItem(request.PutRequest.Item!),
+                  },
+                }
+              : {
+                  DeleteRequest: {
+                    Key: this.scopeKey(request.DeleteRequest!.Key!),
+                  },
+                }
+          ),
+        },
+      })
+    );
+    const unprocessed = result.UnprocessedItems?.[this.table.tableName];
+    return {
+      ...result,
+      UnprocessedItems: unprocessed && {
+        ...result.UnprocessedItems,
+        [this.table.tableName]: unprocessed.map((request) =>
+          request.PutRequest
+            ? { PutRequest: { Item: this.unscope(request.PutRequest.Item) } }
+            : {
+                DeleteRequest: {
+                  Key: this.unscope(request.DeleteRequest!.Key),
+                },
+              }
+        ),
+      },
+    };
+  }
+
+  // Prefixes the partition key value of the key condition, then filters.
+  private scopeQuery(input: QueryCommandInput): QueryCommandInput {
+    const scoped = this.scopeRead(input);
+    const index = this.table.indexes?.find(
+      (candidate) => candidate.name === input.IndexName
+    );
+    const partitionKey = (index ?? this.table).partitionKey.name;
+    if (partitionKey !== this.table.partitionKey.name) {
+      return scoped;
+    }
+
+    const names = scoped.ExpressionAttributeNames!;
+    const placeholder = Object.keys(names).find(
+      (name) => names[name] === partitionKey
+    );
+    const match =
+      placeholder &&
+      new RegExp(`(^|[^\\w#])${placeholder} = (:\\w+)`).exec(
+        input.KeyConditionExpression ?? ""
+      );
+    if (!match) {
+      throw new ValidationFailedError(
+        `Queries of table ${this.table.tableName} must compare ${partitionKey} for equality.`
+      );
+    }
+
+    const [, before, valuePlaceholder] = match;
+    const values: Item = {
+      ...scoped.ExpressionAttributeValues,
+      [PARTITION_VALUE]: this.scopeValue(
+        scoped.ExpressionAttributeValues![valuePlaceholder]
+      ),
+    };
+    const KeyConditionExpression = match.input.replace(
+      match[0],
+      `${before}${placeholder} = ${PARTITION_VALUE}`
+    );
+    // DynamoDB rejects placeholders no expression uses.
+    const stillUsed = [
+      KeyConditionExpression,
+      scoped.FilterExpression,
+      scoped.ProjectionExpression,
+    ].some((expression) =>
+      new RegExp(`${valuePlaceholder}(?!\\w)`).test(expression ?? "")
+    );
+    if (!stillUsed) {
+      delete values[valuePlaceholder];
+    }
+    return {
+      ...scoped,
+      KeyConditionExpression,
+      ExpressionAttributeValues: values,
+    };
+  }
+
+  // Adds the tenant filter to a Query or Scan, and resumes at a scoped key.
+  private scopeRead<I extends QueryCommandInput | ScanCommandInput>(
+    input: I
+  ): I {
+    const tenantId = this.assertTenant();
+    return {
+      ...input,
+      FilterExpression: input.FilterExpression
+        ? `(${input.FilterExpression}) AND ${TENANT_NAME} = ${TENANT_VALUE}`
+        : `${TENANT_NAME} = ${TENANT_VALUE}`,
+      ExpressionAttributeNames: {
+        ...input.ExpressionAttributeNames,
+        [TENANT_NAME]: this.attribute,
+      },
+      ExpressionAttributeValues: {
+        ...input.ExpressionAttributeValues,
+        [TENANT_VALUE]: tenantId,
+      },
+      ExclusiveStartKey:
+        input.ExclusiveStartKey && this.scopeKey(input.ExclusiveStartKey),
+    };
+  }
+
+  /**
+   * Scopes the key of an Update, Delete or ConditionCheck and conditions it
+   * on the item belonging to the tenant. Deletes and ConditionChecks still
+   * hold for missing items, so deleting or checking for an absent item works
+   * as before; Updates only apply to the tenant's existing items.
+   * @throws ValidationFailedError when an Update touches the tenant attribute.
+   */
+  private scopeWrite<I extends WriteInput>(
+    type: "Update" | "Delete" | "ConditionCheck",
+    input: I
+  ): I {
+    const tenantId = this.assertTenant();
+    const names: Record<string, string> = input.ExpressionAttributeNames ?? {};
+    if (
+      type === "Update" &&
+      this.mentionsTenant(input.UpdateExpression ?? "", names)
+    ) {
+      throw new ValidationFailedError(
+        `Updates of table ${this.table.tableName} may not change ${this.attribute}.`,
+        { issues: [{ path: [this.attribute], message: "Cannot be updated." }] }
+      );
+    }
+
+    const owned = `${TENANT_NAME} = ${TENANT_VALUE}`;
+    const guard =
+      type === "Update"
+        ? owned
+        : `(attribute_not_exists(${PARTITION_NAME}) OR ${owned})`;
+    return {
+      ...input,
+      Key: this.scopeKey(input.Key!),
+      ConditionExpression: input.ConditionExpression
+        ? `(${input.ConditionExpression}) AND ${guard}`
+        : guard,
+      ExpressionAttributeNames: {
+        ...names,
+        [TENANT_NAME]: this.attribute,
+        ...(type !== "Update" && {
+          [PARTITION_NAME]: this.table.partitionKey.name,
+        }),
+      },
+      ExpressionAttributeValues: {
+        ...input.ExpressionAttributeValues,
+        [TENANT_VALUE]: tenantId,
+      },
+    };
+  }
+
+  // Whether an expression refers to the tenant attribute, by name or placeholder.
+  private mentionsTenant(
+    expression: string,
+    names: Record<string, string>
+  ): boolean {
+    // Value placeholders such as :tenantId are tokens too, but never match.
+    const tokens = expression.match(/[#:]?\w+/g) ?? [];
+    return tokens.some(
+      (token) =>
+        token === this.attribute ||
+        (token.startsWith("#") && names[token] === this.attribute)
+    );
+  }
+
+  private scopeKey(key: DynamoDBKey): DynamoDBKey {
+    const name = this.table.partitionKey.name;
+    return { ...key, [name]: this.scopeValue(key[name]) };
+  }
+
+  private scopeItem(item: Item): Item {
+    return { ...this.scopeKey(item), [this.attribute]: this.assertTenant() };
+  }
+
+  private scopeValue(value: unknown): string {
+    this.assertTenant();
+    return `${this.prefix}${value}`;
+  }
+
+  // Turns a stored item or key back into the one the tenant wrote.
+  private unscope<I extends Item | undefined>(item: I): I {
+    if (!item) {
+      return item;
+    }
+    const rest: Item = { ...item };
+    delete rest[this.attribute];
+    const name = this.table.partitionKey.name;
+    const value = rest[name];
+    if (typeof value === "string" && value.startsWith(this.prefix!)) {
+      rest[name] = value.slice(this.prefix!.length);
+    }
+    return rest as I;
+  }
+
+  // The stored item of a failed condition is left marshalled by the client.
+  private unscopeFailure(error: unknown): unknown {
+    if (
+      isDynamoDBException(error, "ConditionalCheckFailedException") &&
+      error.Item
+    ) {
+      error.Item = marshall(this.unscope(unmarshall(error.Item)));
+    }
+    return error;
+  }
+
+  private assertTenant(): string {
+    if (this.tenantId === undefined) {
+      throw new TenantRequiredError(
+        `Table ${this.table.tableName} is scoped to tenants; no tenant was given.`
+      );
+    }
+    return this.tenantId;
+  }
+}
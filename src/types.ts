@@ -1,6 +1,125 @@
+import type { Condition } from "./util-condition";
+import type { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import type { AttributeValue } from "@aws-sdk/client-dynamodb";
+import type { RetryOptions } from "./util-retry";
+import type { TokenBucket } from "./util-rate-limit";
+import type { CircuitBreaker } from "./util-circuit-breaker";
+import type { ReadCache } from "./cache";
+import type { Observability } from "./observability";
+import type { Repository } from "./respo";
+import type { ZodTypeAny } from "zod";
+
 export type ReplaceKeyConfig = {
   queryRelatedItems?: boolean; // Whether to query for related items
-  tableName: string; // The name of the DynamoDB table to operate on
+  events?: DomainEvent[]; // Written to the outbox along with the key swap
+};
+
+export type ReplaceKeyResult<T> = {
+  newItem: T; // The item as persisted under the new key
+  relatedItems?: T[] | null;
+  migratedRelatedItems: number;
+  chunked: boolean; // Related items were re-pointed outside the key swap transaction
+};
+
+export type MutateOptions = {
+  clientRequestToken?: string; // Makes retries of the same mutation idempotent (1-36 characters)
+  chunk?: boolean; // Split more than 100 operations into several, individually atomic transactions
+  events?: DomainEvent[]; // Written to the outbox in the same transaction
+};
+
+// Something that happened, for downstream services, e.g. BookCreated.
+export type DomainEvent = {
+  type: string;
+  payload: Record<string, any>;
+  id?: string; // Dedupe id, generated when missing; pass one for idempotent retries
+};
+
+export type OutboxStatus = "pending" | "delivered" | "failed";
+
+// A domain event as stored in the outbox table, keyed by its id.
+export type OutboxItem = {
+  eventId: string;
+  type: string;
+  payload: Record<string, any>;
+  source: string; // Table whose mutation emitted the event
+  occurredAt: string; // ISO 8601
+  status: OutboxStatus;
+  attempts: number; // Delivery attempts so far
+  lastError?: string;
+  deliveredAt?: string;
+};
+
+// Who made the writes of a repository, and in which request.
+export type AuditContext = {
+  actor: string;
+  correlationId?: string;
+};
+
+export type AuditOperation =
+  | "put"
+  | "update"
+  | "delete"
+  | "softDelete"
+  | "restore"
+  | "mutate"
+  | "batchWrite"
+  | "replaceKey"
+  | "revert"
+  | "upgrade"; // A schema upgrade written back on read
+
+export type AttributeChange = {
+  old?: unknown; // Absent when the attribute did not exist before
+  new?: unknown; // Absent when the write removed the attribute
+};
+
+// An immutable record of one write to an item, see src/audit.ts.
+export type HistoryEntry = {
+  itemKey: string; // Table name, tenant and item key
+  entryId: string; // Time of the write and a random suffix, so entries sort by time
+  tableName: string;
+  key: DynamoDBKey;
+  tenantId?: string; // Set for tables scoped to tenants
+  operation: AuditOperation;
+  actor: string;
+  correlationId?: string;
+  changedAt: string; // ISO 8601
+  version?: number; // Item version after the write, when versioning is enabled
+  changes: Record<string, AttributeChange>; // Top-level attributes that changed
+  item: Record<string, any> | null; // The item after the write, null once deleted
+};
+
+export type BatchOptions = {
+  maxAttempts?: number; // Requests per chunk, including retries of unprocessed items
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+};
+
+export type BatchGetOptions = BatchOptions & ReadOptions;
+
+export type BatchGetResult<T> = {
+  key: DynamoDBKey;
+  status: "found" | "not_found" | "unprocessed";
+  item: T | null;
+};
+
+export type BatchWriteResult = {
+  key: DynamoDBKey;
+  type: "put" | "delete";
+  status: "written" | "unprocessed" | "not_found"; // not_found for soft deletes of missing or deleted items
+};
+
+export type ReadOptions = DeletedItemsFilter & {
+  consistentRead?: boolean;
+};
+
+// Soft-deleted items are left out of every read unless asked for.
+export type DeletedItemsFilter = {
+  includeDeleted?: boolean;
+};
+
+export type SoftDeleteOptions = {
+  expectedVersion?: number; // Version the caller last read, when versioning is enabled
+  cascade?: boolean; // Also delete or restore the related items
 };
 
 export class DatabaseOperationError extends Error {
@@ -35,9 +154,460 @@ export class DatabaseOperationError extends Error {
   }
 }
 
+export class ItemNotFoundError extends DatabaseOperationError {
+  public key?: Record<string, unknown>;
+
+  constructor(
+    message: string,
+    {
+      key,
+      ...options
+    }: {
+      cause?: Error;
+      operation?: string;
+      metadata?: Record<string, unknown>;
+      key?: Record<string, unknown>;
+    } = {}
+  ) {
+    super(message, options);
+    this.name = "ItemNotFoundError";
+    this.key = key;
+  }
+}
+
+export class ConditionalCheckFailedError extends DatabaseOperationError {
+  public item?: Record<string, unknown>;
+
+  constructor(
+    message: string,
+    {
+      item,
+      ...options
+    }: {
+      cause?: Error;
+      operation?: string;
+      metadata?: Record<string, unknown>;
+      item?: Record<string, unknown>; // The stored item the condition was checked against
+    } = {}
+  ) {
+    super(message, options);
+    this.name = "ConditionalCheckFailedError";
+    this.item = item;
+  }
+}
+
+// A conditional write that failed because another writer changed the item first.
+export class ConcurrentModificationError extends ConditionalCheckFailedError {
+  public expectedVersion?: number;
+  public actualVersion?: number;
+
+  constructor(
+    message: string,
+    {
+      expectedVersion,
+      actualVersion,
+      ...options
+    }: {
+      cause?: Error;
+      operation?: string;
+      metadata?: Record<string, unknown>;
+      expectedVersion?: number;
+      actualVersion?: number;
+    } = {}
+  ) {
+    super(message, options);
+    this.name = "ConcurrentModificationError";
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+  }
+}
+
+// DynamoDB rejected the request for exceeding throughput; safe to retry later.
+export class ThrottledError extends DatabaseOperationError {
+  constructor(
+    message: string,
+    options: {
+      cause?: Error;
+      operation?: string;
+      metadata?: Record<string, unknown>;
+    } = {}
+  ) {
+    super(message, options);
+    this.name = "ThrottledError";
+  }
+}
+
+// A transaction collided with another transaction on the same item; safe to retry.
+export class TransactionConflictError extends DatabaseOperationError {
+  constructor(
+    message: string,
+    options: {
+      cause?: Error;
+      operation?: string;
+      metadata?: Record<string, unknown>;
+    } = {}
+  ) {
+    super(message, options);
+    this.name = "TransactionConflictError";
+  }
+}
+
+// Requests are refused without reaching DynamoDB while it is failing.
+export class CircuitOpenError extends DatabaseOperationError {
+  public retryAfterMs: number;
+
+  constructor(
+    message: string,
+    {
+      retryAfterMs,
+      ...options
+    }: {
+      cause?: Error;
+      operation?: string;
+      metadata?: Record<string, unknown>;
+      retryAfterMs: number;
+    }
+  ) {
+    super(message, options);
+    this.name = "CircuitOpenError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// A table scoped to tenants was accessed without saying for which tenant.
+export class TenantRequiredError extends DatabaseOperationError {
+  constructor(
+    message: string,
+    options: {
+      cause?: Error;
+      operation?: string;
+      metadata?: Record<string, unknown>;
+    } = {}
+  ) {
+    super(message, options);
+    this.name = "TenantRequiredError";
+  }
+}
+
+// A request wrote fields its caller may not write, see createResourceRouter.
+export class FieldPermissionError extends DatabaseOperationError {
+  public fields: string[];
+
+  constructor(
+    message: string,
+    {
+      fields,
+      ...options
+    }: {
+      cause?: Error;
+      operation?: string;
+      metadata?: Record<string, unknown>;
+      fields: string[];
+    }
+  ) {
+    super(message, options);
+    this.name = "FieldPermissionError";
+    this.fields = fields;
+  }
+}
+
+// A request for a route the resource does not serve as configured, see
+// createResourceRouter.
+export class MethodNotAllowedError extends DatabaseOperationError {
+  constructor(
+    message: string,
+    options: {
+      cause?: Error;
+      operation?: string;
+      metadata?: Record<string, unknown>;
+    } = {}
+  ) {
+    super(message, options);
+    this.name = "MethodNotAllowedError";
+  }
+}
+
+export type ValidationIssue = {
+  path: (string | number)[]; // Location of the offending field, empty for the whole input
+  message: string;
+  code?: string;
+};
+
+export class ValidationFailedError extends DatabaseOperationError {
+  public issues: ValidationIssue[];
+
+  constructor(
+    message: string,
+    {
+      issues = [],
+      ...options
+    }: {
+      cause?: Error;
+      operation?: string;
+      metadata?: Record<string, unknown>;
+      issues?: ValidationIssue[];
+    } = {}
+  ) {
+    super(message, options);
+    this.name = "ValidationFailedError";
+    this.issues = issues;
+  }
+}
+
+// An item read from the table does not match the repository's schema.
+export class InvalidStoredItemError extends DatabaseOperationError {
+  public key?: Record<string, unknown>;
+  public issues: ValidationIssue[];
+
+  constructor(
+    message: string,
+    {
+      key,
+      issues = [],
+      ...options
+    }: {
+      cause?: Error;
+      operation?: string;
+      metadata?: Record<string, unknown>;
+      key?: Record<string, unknown>;
+      issues?: ValidationIssue[];
+    } = {}
+  ) {
+    super(message, options);
+    this.name = "InvalidStoredItemError";
+    this.key = key;
+    this.issues = issues;
+  }
+}
+
+export type TransactionOperationType =
+  | "Put"
+  | "Update"
+  | "Delete"
+  | "ConditionCheck";
+
+export type TransactionOperationResult = {
+  index: number; // Position of the operation in the list passed to mutate
+  type: TransactionOperationType;
+  key: Record<string, unknown>;
+  code: string; // Cancellation code, "None" for operations that did not fail
+  message?: string;
+  item?: Record<string, unknown>; // Returned for ReturnValuesOnConditionCheckFailure
+};
+
+export class TransactionCanceledError extends DatabaseOperationError {
+  public results: TransactionOperationResult[];
+
+  constructor(
+    message: string,
+    {
+      results,
+      ...options
+    }: {
+      cause?: Error;
+      operation?: string;
+      metadata?: Record<string, unknown>;
+      results: TransactionOperationResult[];
+    }
+  ) {
+    super(message, options);
+    this.name = "TransactionCanceledError";
+    this.results = results;
+  }
+
+  // Only the operations that caused the cancellation.
+  get failures(): TransactionOperationResult[] {
+    return this.results.filter((result) => result.code !== "None");
+  }
+}
+
 // types.ts
 
-export type DynamoDBKey = {
-  partitionKey: string;
-  sortKey?: string;
+export type KeyValue = string | number | Uint8Array;
+
+// Primary key attribute values, named as declared by the table descriptor.
+export type DynamoDBKey = Record<string, KeyValue>;
+
+export type KeyAttributeType = "S" | "N" | "B";
+
+export type KeyAttribute = {
+  name: string;
+  type: KeyAttributeType;
+};
+
+export type IndexProjection =
+  | { type: "ALL" }
+  | { type: "KEYS_ONLY" }
+  | { type: "INCLUDE"; attributes: string[] };
+
+export type IndexDescriptor = {
+  name: string;
+  kind: "global" | "local"; // Local indexes share the table's partition key
+  partitionKey: KeyAttribute;
+  sortKey?: KeyAttribute;
+  projection: IndexProjection;
+};
+
+export type RelationshipDescriptor = {
+  attribute: string; // Attribute on related items holding the parent's partition key
+  indexName?: string; // Index keyed on that attribute; related items are scanned without one
+};
+
+export type StreamViewType =
+  | "KEYS_ONLY"
+  | "NEW_IMAGE"
+  | "OLD_IMAGE"
+  | "NEW_AND_OLD_IMAGES";
+
+export type StreamEventName = "INSERT" | "MODIFY" | "REMOVE";
+
+// A DynamoDB Streams record, with keys and images left marshalled.
+export type StreamRecord = {
+  eventID: string;
+  eventName: StreamEventName;
+  eventSource?: string;
+  dynamodb: {
+    Keys: Record<string, AttributeValue>;
+    NewImage?: Record<string, AttributeValue>; // Absent for REMOVE and per view type
+    OldImage?: Record<string, AttributeValue>; // Absent for INSERT and per view type
+    SequenceNumber: string;
+    StreamViewType?: StreamViewType;
+    ApproximateCreationDateTime?: number; // Epoch seconds
+  };
+};
+
+export type TableDescriptor = {
+  tableName: string;
+  partitionKey: KeyAttribute;
+  sortKey?: KeyAttribute;
+  indexes?: IndexDescriptor[];
+  relationship?: RelationshipDescriptor;
+  timeToLiveAttribute?: string; // Epoch seconds after which DynamoDB deletes the item
+  stream?: StreamViewType; // Item images written to the table's stream, none when unset
+};
+
+export class InvalidCursorError extends Error {
+  public cursor: string;
+
+  constructor(cursor: string) {
+    super("Invalid pagination cursor.");
+    this.name = "InvalidCursorError";
+    this.cursor = cursor;
+  }
+}
+
+export type PageOptions = {
+  limit?: number; // Maximum number of items DynamoDB evaluates for the page
+  cursor?: string; // Opaque cursor returned by the previous page
+};
+
+export type Page<T> = {
+  items: T[];
+  cursor: string | null; // Null once the last page has been read
+};
+
+export type IterateOptions = {
+  pageSize?: number; // Maximum number of items requested per page
+  maxItems?: number; // Stop after yielding this many items in total
+};
+
+export type ScanCriteria = DeletedItemsFilter & {
+  indexName?: string; // Scan a secondary index instead of the base table
+  filter?: Condition; // Applied by DynamoDB after items are read
+  projection?: string[]; // Attribute paths to return
+};
+
+export type QueryCriteria = ScanCriteria & {
+  keyCondition: Condition; // Must target the partition key of the table or index
+  descending?: boolean; // Read in descending sort key order
+};
+
+export type SearchFilter =
+  | { attribute: string; op: "eq"; value: unknown }
+  | { attribute: string; op: "in"; values: unknown[] }
+  | { attribute: string; op: "between"; low: unknown; high: unknown }
+  | { attribute: string; op: "gte" | "lte"; value: unknown }
+  | { attribute: string; op: "beginsWith"; prefix: string };
+
+export type SearchCriteria = DeletedItemsFilter & {
+  filters?: SearchFilter[]; // All of them must hold
+  sort?: { attribute: string; descending?: boolean };
+  limit?: number; // Maximum number of items returned
+  cursor?: string; // Opaque cursor returned by the previous search
+};
+
+export type SearchPage<T> = Page<T> & {
+  indexName: string | null; // Index that was queried, null for the base table
+  operation: "query" | "scan";
+  scannedCount: number; // Items DynamoDB evaluated for this page
+  count: number; // Items returned
+};
+
+export type WriteOptions = {
+  condition?: Condition; // The write only succeeds when this holds for the stored item
+  expectedVersion?: number; // Version the caller last read, when versioning is enabled
+};
+
+// The part of the document client a Repository needs; lets tests inject a fake.
+export type DocumentClient = Pick<DynamoDBDocumentClient, "send">;
+
+// What the commands of @aws-sdk/lib-dynamodb, e.g. a GetCommand, share.
+export type DocumentCommand = {
+  input: object;
+  resolveMiddleware(
+    ...args: never[]
+  ): (...args: never[]) => Promise<{ output: object }>;
+};
+
+// What a command resolves to, e.g. GetCommandOutput for a GetCommand.
+export type CommandOutput<C extends DocumentCommand> = Awaited<
+  ReturnType<ReturnType<C["resolveMiddleware"]>>
+>["output"];
+
+// What happens to items read from the table that the schema rejects:
+// "strict" throws, "lenient" logs and returns them, "drop" leaves them out.
+export type ReadValidation = "strict" | "lenient" | "drop";
+
+export type SchemaUpgrade = (item: Record<string, any>) => Record<string, any>;
+
+export type SchemaEvolution = {
+  attribute: string; // Numeric attribute holding the schema version, 0 when missing
+  currentVersion: number; // Stamped on every item written
+  upgrades: Record<number, SchemaUpgrade>; // Keyed by the version they upgrade from
+  writeBack?: boolean; // Persist upgraded items unless they changed since the read
+};
+
+export type SoftDelete = {
+  attribute?: string; // Holds when the item was deleted, "deletedAt" by default
+  retentionDays?: number; // Until the table's TTL removes the item, 30 by default
+};
+
+export type Tenancy = {
+  attribute?: string; // Holds the tenant id of every item, "tenantId" by default
+};
+
+export type RepositoryOptions = {
+  versionAttribute?: string; // Enables optimistic locking on this numeric attribute
+  schema?: ZodTypeAny; // Validates every complete item read from the table
+  validation?: ReadValidation; // Defaults to "strict"
+  schemaEvolution?: SchemaEvolution;
+  outboxTableName?: string; // Table domain events are written to, see OutboxRelay
+  softDelete?: SoftDelete; // Makes softDelete and restore available
+  historyTableName?: string; // Records a HistoryEntry with every write, see src/audit.ts
+  tenancy?: Tenancy; // Requires a tenant for every request, see Repository.forTenant
+  retry?: RetryOptions; // Applied to every DynamoDB call
+  rateLimiter?: TokenBucket; // Can be shared by repositories of the same table
+  circuitBreaker?: CircuitBreaker; // Can be shared by repositories of the same table
+  cache?: ReadCache; // Serves getItem and queryRelatedItems, see Repository.getItem
+  relatedItems?: Repository<any>; // Holds the related items in its own table, found through its relationship
+  observability?: Observability; // Logs, metrics and spans of the DynamoDB requests
+};
+
+// Counters of the DynamoDB calls a repository made since it was created.
+export type RetryStats = {
+  calls: number;
+  attempts: number; // Including retries
+  retries: number;
+  exhausted: number; // Calls that failed after a retryable error
+  rejected: number; // Calls refused by an open circuit
 };
@@ -0,0 +1,21 @@
+export type BackoffOptions = {
+  baseDelayMs?: number; // Delay cap of the first retry
+  maxDelayMs?: number; // Upper bound of any single delay
+};
+
+/**
+ * Exponential backoff with full jitter: a random delay between zero and
+ * `baseDelayMs * 2^attempt`, capped at `maxDelayMs`.
+ * @param attempt Zero-based number of the retry about to be made.
+ */
+export function backoffDelay(
+  attempt: number,
+  { baseDelayMs = 50, maxDelayMs = 5000 }: BackoffOptions = {}
+): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
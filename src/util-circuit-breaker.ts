@@ -0,0 +1,81 @@
+export type CircuitBreakerOptions = {
+  failureThreshold?: number; // Consecutive failures that open the circuit
+  resetTimeoutMs?: number; // How long the circuit stays open before a trial request
+  now?: () => number;
+};
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Fails fast while a dependency is unhealthy. After `failureThreshold`
+ * consecutive failures the circuit opens and rejects requests; once
+ * `resetTimeoutMs` has passed a single trial request is let through, whose
+ * outcome closes the circuit again or reopens it.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+  private now: () => number;
+
+  constructor({
+    failureThreshold = 5,
+    resetTimeoutMs = 10000,
+    now = Date.now,
+  }: CircuitBreakerOptions = {}) {
+    this.failureThreshold = failureThreshold;
+    this.resetTimeoutMs = resetTimeoutMs;
+    this.now = now;
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === undefined) {
+      return "closed";
+    }
+    return this.now() - this.openedAt >= this.resetTimeoutMs
+      ? "half-open"
+      : "open";
+  }
+
+  // Milliseconds until the open circuit lets a trial request through.
+  get retryAfterMs(): number {
+    return this.openedAt === undefined
+      ? 0
+      : Math.max(0, this.openedAt + this.resetTimeoutMs - this.now());
+  }
+
+  /**
+   * Whether a request may be sent now. A true answer in the half-open state
+   * claims the trial, so the caller must report its outcome.
+   */
+  allowRequest(): boolean {
+    switch (this.state) {
+      case "closed":
+        return true;
+      case "open":
+        return false;
+      case "half-open":
+        if (this.trialInFlight) {
+          return false;
+        }
+        this.trialInFlight = true;
+        return true;
+    }
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  recordFailure() {
+    this.failures += 1;
+    if (this.trialInFlight || this.failures >= this.failureThreshold) {
+      this.openedAt = this.now();
+    }
+    this.trialInFlight = false;
+  }
+}
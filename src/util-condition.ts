@@ -0,0 +1,251 @@
+import { AttributeRegistry } from "./util-registry";
+
+export type AttributeType =
+  | "S"
+  | "SS"
+  | "N"
+  | "NS"
+  | "B"
+  | "BS"
+  | "BOOL"
+  | "NULL"
+  | "L"
+  | "M";
+
+// Top-level attribute names of T, or any document path for untyped items.
+export type AttributePath<T> = string extends keyof T
+  ? string
+  : Extract<keyof T, string> | `${Extract<keyof T, string>}.${string}`;
+
+type Render = (registry: AttributeRegistry) => string;
+
+/**
+ * A condition that renders into a DynamoDB condition expression. Conditions
+ * are immutable and only receive placeholders when rendered, so the same
+ * condition can be reused across requests.
+ */
+export class Condition {
+  constructor(private readonly renderWith: Render) {}
+
+  render(registry: AttributeRegistry): string {
+    return this.renderWith(registry);
+  }
+
+  and(...conditions: Condition[]): Condition {
+    return and(this, ...conditions);
+  }
+
+  or(...conditions: Condition[]): Condition {
+    return or(this, ...conditions);
+  }
+
+  not(): Condition {
+    return not(this);
+  }
+}
+
+/**
+ * The left-hand side of a comparison: either an attribute path or the size of one.
+ */
+export class Operand {
+  constructor(protected readonly renderWith: Render) {}
+
+  render(registry: AttributeRegistry): string {
+    return this.renderWith(registry);
+  }
+
+  eq(value: unknown): Condition {
+    return this.compare("=", value);
+  }
+
+  ne(value: unknown): Condition {
+    return this.compare("<>", value);
+  }
+
+  lt(value: unknown): Condition {
+    return this.compare("<", value);
+  }
+
+  lte(value: unknown): Condition {
+    return this.compare("<=", value);
+  }
+
+  gt(value: unknown): Condition {
+    return this.compare(">", value);
+  }
+
+  gte(value: unknown): Condition {
+    return this.compare(">=", value);
+  }
+
+  between(low: unknown, high: unknown): Condition {
+    return new Condition(
+      (registry) =>
+        `${this.render(registry)} BETWEEN ${renderValue(
+          registry,
+          low
+        )} AND ${renderValue(registry, high)}`
+    );
+  }
+
+  in(values: unknown[]): Condition {
+    if (values.length === 0 || values.length > 100) {
+      throw new Error("IN requires between 1 and 100 values.");
+    }
+    return new Condition(
+      (registry) =>
+        `${this.render(registry)} IN (${values
+          .map((value) => renderValue(registry, value))
+          .join(", ")})`
+    );
+  }
+
+  private compare(operator: string, value: unknown): Condition {
+    return new Condition(
+      (registry) =>
+        `${this.render(registry)} ${operator} ${renderValue(registry, value)}`
+    );
+  }
+}
+
+/**
+ * An attribute path, which additionally supports the DynamoDB condition functions.
+ */
+export class Attribute extends Operand {
+  constructor(readonly path: string) {
+    super((registry) => registry.path(path));
+  }
+
+  exists(): Condition {
+    return this.call("attribute_exists");
+  }
+
+  notExists(): Condition {
+    return this.call("attribute_not_exists");
+  }
+
+  type(type: AttributeType): Condition {
+    return this.call("attribute_type", type);
+  }
+
+  beginsWith(prefix: string): Condition {
+    return this.call("begins_with", prefix);
+  }
+
+  contains(value: unknown): Condition {
+    return this.call("contains", value);
+  }
+
+  size(): Operand {
+    return new Operand((registry) => `size(${this.render(registry)})`);
+  }
+
+  private call(fn: string, ...args: unknown[]): Condition {
+    return new Condition(
+      (registry) =>
+        `${fn}(${[
+          this.render(registry),
+          ...args.map((arg) => renderValue(registry, arg)),
+        ].join(", ")})`
+    );
+  }
+}
+
+// Values are registered as placeholders, attributes compare path to path.
+function renderValue(registry: AttributeRegistry, value: unknown) {
+  return value instanceof Operand
+    ? value.render(registry)
+    : (registry.value(value) as string);
+}
+
+function group(operator: "AND" | "OR", conditions: Condition[]): Condition {
+  if (conditions.length === 0) {
+    throw new Error(`${operator} requires at least one condition.`);
+  }
+  if (conditions.length === 1) {
+    return conditions[0];
+  }
+  return new Condition((registry) =>
+    conditions
+      .map((condition) => `(${condition.render(registry)})`)
+      .join(` ${operator} `)
+  );
+}
+
+export function attribute<T = any>(path: AttributePath<T>): Attribute {
+  return new Attribute(path);
+}
+
+export function size<T = any>(path: AttributePath<T>): Operand {
+  return attribute<T>(path).size();
+}
+
+export function and(...conditions: Condition[]): Condition {
+  return group("AND", conditions);
+}
+
+export function or(...conditions: Condition[]): Condition {
+  return group("OR", conditions);
+}
+
+export function not(condition: Condition): Condition {
+  return new Condition((registry) => `NOT (${condition.render(registry)})`);
+}
+
+export type ExpressionParts = {
+  keyCondition?: Condition;
+  filter?: Condition;
+  condition?: Condition;
+  projection?: string[];
+};
+
+export type CompiledExpressions = {
+  KeyConditionExpression?: string;
+  FilterExpression?: string;
+  ConditionExpression?: string;
+  ProjectionExpression?: string;
+  ExpressionAttributeNames?: Record<string, string>;
+  ExpressionAttributeValues?: Record<string, any>;
+};
+
+/**
+ * Renders every expression of a request against one registry so they share a
+ * single, collision-free set of ExpressionAttributeNames and -Values.
+ */
+export function buildExpressions(
+  { keyCondition, filter, condition, projection }: ExpressionParts,
+  registry: AttributeRegistry = new AttributeRegistry()
+): CompiledExpressions {
+  const expressions: CompiledExpressions = {
+    KeyConditionExpression: keyCondition?.render(registry),
+    FilterExpression: filter?.render(registry),
+    ConditionExpression: condition?.render(registry),
+    ProjectionExpression: projection
+      ?.map((path) => registry.path(path))
+      .join(", "),
+  };
+
+  const { ExpressionAttributeNames, ExpressionAttributeValues } =
+    registry.get();
+
+  // DynamoDB rejects empty maps, so only include the ones that were used.
+  return withoutUndefined({
+    ...expressions,
+    ExpressionAttributeNames: isEmpty(ExpressionAttributeNames)
+      ? undefined
+      : ExpressionAttributeNames,
+    ExpressionAttributeValues: isEmpty(ExpressionAttributeValues)
+      ? undefined
+      : ExpressionAttributeValues,
+  });
+}
+
+function isEmpty(obj: Record<string, unknown>) {
+  return Object.keys(obj).length === 0;
+}
+
+function withoutUndefined<T extends Record<string, unknown>>(obj: T): T {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, value]) => value !== undefined)
+  ) as T;
+}
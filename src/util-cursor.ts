@@ -0,0 +1,27 @@
+import { InvalidCursorError } from "./types";
+
+/**
+ * Encodes a DynamoDB LastEvaluatedKey into an opaque, URL-safe cursor.
+ */
+export function encodeCursor(key: Record<string, any>): string {
+  return Buffer.from(JSON.stringify(key), "utf8").toString("base64url");
+}
+
+/**
+ * Decodes a cursor produced by encodeCursor back into an ExclusiveStartKey.
+ * Throws InvalidCursorError when the cursor was tampered with or truncated.
+ */
+export function decodeCursor(cursor: string): Record<string, any> {
+  let key: unknown;
+  try {
+    key = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch (error) {
+    throw new InvalidCursorError(cursor);
+  }
+
+  if (typeof key !== "object" || key === null || Array.isArray(key)) {
+    throw new InvalidCursorError(cursor);
+  }
+
+  return key as Record<string, any>;
+}
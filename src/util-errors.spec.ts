@@ -0,0 +1,97 @@
+import { classifyDynamoDBError, isServiceFailure } from "./util-errors";
+import {
+  DatabaseOperationError,
+  ConditionalCheckFailedError,
+  ThrottledError,
+  TransactionConflictError,
+  ValidationFailedError,
+} from "./types";
+
+function serviceError(name: string, fields: Record<string, unknown> = {}) {
+  return Object.assign(new Error(`${name} from the service`), {
+    name,
+    ...fields,
+  });
+}
+
+describe("classifyDynamoDBError", () => {
+  it.each([
+    ["ConditionalCheckFailedException", ConditionalCheckFailedError],
+    ["ProvisionedThroughputExceededException", ThrottledError],
+    ["ThrottlingException", ThrottledError],
+    ["TransactionConflictException", TransactionConflictError],
+    ["ValidationException", ValidationFailedError],
+    ["InternalServerError", DatabaseOperationError],
+  ])("classifies %s", (name, errorClass) => {
+    const cause = serviceError(name);
+    const error = classifyDynamoDBError(cause, {
+      operation: "putItem",
+      metadata: { key: { isbn: "1" } },
+    });
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error).toMatchObject({
+      cause,
+      operation: "putItem",
+      metadata: { key: { isbn: "1" } },
+    });
+    // The service message stays on the cause.
+    expect(error.message).not.toContain("from the service");
+  });
+
+  it("unmarshalls the item returned with a failed condition", () => {
+    const error = classifyDynamoDBError(
+      serviceError("ConditionalCheckFailedException", {
+        Item: { isbn: { S: "1" }, version: { N: "3" } },
+      })
+    );
+    expect(error).toMatchObject({ item: { isbn: "1", version: 3 } });
+  });
+
+  it("classifies cancelled transactions by their reasons", () => {
+    expect(
+      classifyDynamoDBError(
+        serviceError("TransactionCanceledException", {
+          CancellationReasons: [{ Code: "None" }, { Code: "ThrottlingError" }],
+        })
+      )
+    ).toBeInstanceOf(ThrottledError);
+  });
+
+  it("leaves errors that are already classified alone", () => {
+    const error = new ValidationFailedError("Bad key.");
+    expect(classifyDynamoDBError(error)).toBe(error);
+  });
+});
+
+describe("isServiceFailure", () => {
+  it.each([
+    ["InternalServerError", {}],
+    ["ThrottlingException", {}],
+    ["TimeoutError", {}],
+    ["Error", { code: "ECONNRESET" }],
+    ["UnknownError", { $metadata: { httpStatusCode: 503 } }],
+    [
+      "TransactionCanceledException",
+      { CancellationReasons: [{ Code: "ThrottlingError" }] },
+    ],
+  ])("counts %s as a failure of the service", (name, fields) => {
+    expect(isServiceFailure(serviceError(name, fields))).toBe(true);
+  });
+
+  it.each([
+    ["ConditionalCheckFailedException", {}],
+    ["ValidationException", { $metadata: { httpStatusCode: 400 } }],
+    ["TransactionConflictException", {}],
+    [
+      "TransactionCanceledException",
+      {
+        CancellationReasons: [
+          { Code: "None" },
+          { Code: "ConditionalCheckFailed" },
+        ],
+      },
+    ],
+  ])("counts %s as the request's own fault", (name, fields) => {
+    expect(isServiceFailure(serviceError(name, fields))).toBe(false);
+  });
+});
@@ -0,0 +1,184 @@
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import type {
+  AttributeValue,
+  CancellationReason,
+} from "@aws-sdk/client-dynamodb";
+import {
+  DatabaseOperationError,
+  ConditionalCheckFailedError,
+  ThrottledError,
+  TransactionConflictError,
+  ValidationFailedError,
+} from "./types";
+
+// Exception names DynamoDB and the SDK use when a request exceeds capacity.
+const THROTTLING_ERRORS = new Set([
+  "ProvisionedThroughputExceededException",
+  "ThrottlingException",
+  "RequestLimitExceeded",
+  "LimitExceededException",
+]);
+
+const TRANSACTION_CONFLICT_ERRORS = new Set([
+  "TransactionConflictException",
+  "TransactionInProgressException",
+]);
+
+// Exception names of DynamoDB failing on its side, and of requests that
+// never got an answer.
+const SERVICE_FAILURE_ERRORS = new Set([
+  "InternalServerError",
+  "ServiceUnavailable",
+  "ServiceUnavailableException",
+  "TimeoutError",
+  "RequestTimeout",
+  "RequestTimeoutException",
+  "NetworkingError",
+]);
+
+// Node's codes for connections that failed or broke off.
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+  "ETIMEDOUT",
+]);
+
+// Cancellation reason codes of TransactWriteItems.
+const THROTTLING_REASONS = new Set([
+  "ThrottlingError",
+  "ProvisionedThroughputExceeded",
+]);
+
+/**
+ * An error the DynamoDB client throws, with the details DynamoDB adds to
+ * some of them. The SDK's exceptions, and those of the in-memory client,
+ * are Errors named after the exception.
+ */
+export type DynamoDBException = Error & {
+  code?: string; // Node's code of a network failure
+  $metadata?: { httpStatusCode?: number };
+  Item?: Record<string, AttributeValue>; // The stored item of a failed condition, marshalled
+  CancellationReasons?: CancellationReason[]; // One per operation of a cancelled transaction
+};
+
+// Whether an error comes from the DynamoDB client, and has the given name.
+export function isDynamoDBException(
+  error: unknown,
+  name?: string
+): error is DynamoDBException {
+  return error instanceof Error && (name === undefined || error.name === name);
+}
+
+// Why each operation of a cancelled transaction failed; empty for other errors.
+export function cancellationReasons(error: unknown): CancellationReason[] {
+  return isDynamoDBException(error, "TransactionCanceledException")
+    ? error.CancellationReasons ?? []
+    : [];
+}
+
+type ClassifyOptions = {
+  operation?: string;
+  metadata?: Record<string, unknown>;
+};
+
+/**
+ * Turns an error thrown by the DynamoDB client into the matching
+ * DatabaseOperationError subclass, keeping the original as `cause`.
+ * Messages are our own, so they can be shown to API clients; the service
+ * message stays on the cause.
+ */
+export function classifyDynamoDBError(
+  error: unknown,
+  { operation, metadata }: ClassifyOptions = {}
+): DatabaseOperationError {
+  if (error instanceof DatabaseOperationError) {
+    return error;
+  }
+
+  const cause = error instanceof Error ? error : new Error(String(error));
+  const options = { cause, operation, metadata };
+  const name = (error as { name?: string })?.name ?? "";
+
+  if (name === "ConditionalCheckFailedException") {
+    const item = (error as { Item?: Record<string, any> }).Item;
+    return new ConditionalCheckFailedError("The conditional request failed.", {
+      ...options,
+      // The document client leaves this item marshalled.
+      item: item ? unmarshall(item) : undefined,
+    });
+  }
+  if (THROTTLING_ERRORS.has(name)) {
+    return new ThrottledError(
+      "The request rate is too high, try again later.",
+      options
+    );
+  }
+  if (TRANSACTION_CONFLICT_ERRORS.has(name)) {
+    return new TransactionConflictError(
+      "The transaction conflicted with another request, try again.",
+      options
+    );
+  }
+  if (name === "TransactionCanceledException") {
+    const codes: string[] = (
+      (error as { CancellationReasons?: { Code?: string }[] })
+        .CancellationReasons ?? []
+    ).map((reason) => reason.Code ?? "None");
+    if (codes.includes("TransactionConflict")) {
+      return new TransactionConflictError(
+        "The transaction conflicted with another request, try again.",
+        options
+      );
+    }
+    if (codes.some((code) => THROTTLING_REASONS.has(code))) {
+      return new ThrottledError(
+        "The request rate is too high, try again later.",
+        options
+      );
+    }
+  }
+  if (name === "ValidationException") {
+    return new ValidationFailedError(
+      "The request was rejected as invalid.",
+      options
+    );
+  }
+  return new DatabaseOperationError(
+    `Error during ${operation ?? "unknown action"}.`,
+    options
+  );
+}
+
+// Whether repeating the same request later may succeed.
+export function isRetryableError(error: unknown): boolean {
+  const classified = classifyDynamoDBError(error);
+  return (
+    classified instanceof ThrottledError ||
+    classified instanceof TransactionConflictError
+  );
+}
+
+/**
+ * Whether an error says DynamoDB itself is struggling, as opposed to
+ * rejecting this particular request, e.g. for a failed condition: throttling,
+ * including transactions cancelled for it, 5xx answers, timeouts and
+ * network failures. Anything else is the request's own fault.
+ */
+export function isServiceFailure(error: unknown): boolean {
+  if (classifyDynamoDBError(error) instanceof ThrottledError) {
+    return true;
+  }
+  const failure = error as {
+    name?: string;
+    code?: string;
+    $metadata?: { httpStatusCode?: number };
+  } | null;
+  return (
+    SERVICE_FAILURE_ERRORS.has(failure?.name ?? "") ||
+    NETWORK_ERROR_CODES.has(failure?.code ?? "") ||
+    (failure?.$metadata?.httpStatusCode ?? 0) >= 500
+  );
+}
@@ -1,13 +1,253 @@
 import { AttributeRegistry } from "./util-registry";
+import { AttributePath } from "./util-condition";
 
-export function getDDBUpdateExpression<T>(item: T) {
-  const registry = new AttributeRegistry();
+type Render = (registry: AttributeRegistry) => string;
 
-  const UpdateExpression = `set ${Object.entries(item as any)
-    .map(([key, value]) => {
-      return `${registry.key(key)} = ${registry.value(value)}`;
-    })
-    .join(", ")}`;
+// Performs an action on a local copy of an item.
+type Apply = (item: Record<string, any>) => void;
+
+type Clause = "SET" | "REMOVE" | "ADD" | "DELETE";
+
+/**
+ * Builds an UpdateExpression with SET, REMOVE, ADD and DELETE clauses. Paths
+ * may address nested maps and list elements (`metadata.tags[2]`) and are
+ * escaped through the registry when rendered.
+ */
+export class UpdateExpressionBuilder<T = any> {
+  private actions: Record<Clause, Render[]> = {
+    SET: [],
+    REMOVE: [],
+    ADD: [],
+    DELETE: [],
+  };
+  private applies: Apply[] = [];
+  private paths: string[] = [];
+
+  set(path: AttributePath<T>, value: unknown): this {
+    return this.action(
+      "SET",
+      path,
+      (registry) => `${registry.path(path)} = ${registry.value(value)}`,
+      (item) => setPath(item, path, value)
+    );
+  }
+
+  setIfNotExists(path: AttributePath<T>, value: unknown): this {
+    return this.action(
+      "SET",
+      path,
+      (registry) => {
+        const target = registry.path(path);
+        return `${target} = if_not_exists(${target}, ${registry.value(value)})`;
+      },
+      (item) => setPath(item, path, getPath(item, path) ?? value)
+    );
+  }
+
+  appendToList(path: AttributePath<T>, values: unknown[]): this {
+    return this.action(
+      "SET",
+      path,
+      (registry) => {
+        const target = registry.path(path);
+        return `${target} = list_append(if_not_exists(${target}, ${registry.value(
+          []
+        )}), ${registry.value(values)})`;
+      },
+      (item) => setPath(item, path, [...(getPath(item, path) ?? []), ...values])
+    );
+  }
+
+  prependToList(path: AttributePath<T>, values: unknown[]): this {
+    return this.action(
+      "SET",
+      path,
+      (registry) => {
+        const target = registry.path(path);
+        return `${target} = list_append(${registry.value(
+          values
+        )}, if_not_exists(${target}, ${registry.value([])}))`;
+      },
+      (item) => setPath(item, path, [...values, ...(getPath(item, path) ?? [])])
+    );
+  }
+
+  remove(path: AttributePath<T>): this {
+    return this.action(
+      "REMOVE",
+      path,
+      (registry) => registry.path(path),
+      (item) => removePath(item, path)
+    );
+  }
+
+  /**
+   * Atomically adds to a number (creating it at 0) or adds members to a set.
+   */
+  add(path: AttributePath<T>, value: number | Set<string> | Set<number>): this {
+    return this.action(
+      "ADD",
+      path,
+      (registry) => `${registry.path(path)} ${registry.value(value)}`,
+      (item) => {
+        const current = getPath(item, path);
+        setPath(
+          item,
+          path,
+          typeof value === "number"
+            ? (current ?? 0) + value
+            : new Set([...(current ?? []), ...value])
+        );
+      }
+    );
+  }
+
+  /**
+   * Removes members from a string or number set.
+   */
+  delete(path: AttributePath<T>, values: Set<string> | Set<number>): this {
+    return this.action(
+      "DELETE",
+      path,
+      (registry) => `${registry.path(path)} ${registry.value(values)}`,
+      (item) => {
+        const current: Set<unknown> | undefined = getPath(item, path);
+        if (!current) {
+          return;
+        }
+        const rest = [...current].filter(
+          (member) => !values.has(member as never)
+        );
+        // DynamoDB has no empty sets, so removing the last member removes the set.
+        if (rest.length > 0) {
+          setPath(item, path, new Set(rest));
+        } else {
+          removePath(item, path);
+        }
+      }
+    );
+  }
+
+  clone(): UpdateExpressionBuilder<T> {
+    const copy = new UpdateExpressionBuilder<T>();
+    (Object.keys(this.actions) as Clause[]).forEach((clause) => {
+      copy.actions[clause] = [...this.actions[clause]];
+    });
+    copy.applies = [...this.applies];
+    copy.paths = [...this.paths];
+    return copy;
+  }
+
+  /**
+   * Returns a copy of the item with this update applied the way DynamoDB
+   * applies it, for callers that need the written item before the write.
+   */
+  applyTo<I extends Record<string, any>>(item: I): I {
+    const copy = structuredClone(item);
+    this.applies.forEach((apply) => apply(copy));
+    return copy;
+  }
+
+  isEmpty(): boolean {
+    return this.paths.length === 0;
+  }
+
+  render(registry: AttributeRegistry): string {
+    return (Object.keys(this.actions) as Clause[])
+      .filter((clause) => this.actions[clause].length > 0)
+      .map(
+        (clause) =>
+          `${clause} ${this.actions[clause]
+            .map((render) => render(registry))
+            .join(", ")}`
+      )
+      .join(" ");
+  }
+
+  private action(
+    clause: Clause,
+    path: string,
+    render: Render,
+    apply: Apply
+  ): this {
+    // DynamoDB rejects an UpdateExpression whose document paths overlap.
+    const overlapping = this.paths.find((existing) =>
+      pathsOverlap(existing, path)
+    );
+    if (overlapping !== undefined) {
+      throw new Error(
+        `Attribute path "${path}" overlaps "${overlapping}" already used in this update.`
+      );
+    }
+
+    this.paths.push(path);
+    this.actions[clause].push(render);
+    this.applies.push(apply);
+    return this;
+  }
+}
+
+// A document path such as `metadata.tags[2]` as ["metadata", "tags", 2].
+function segments(path: string): (string | number)[] {
+  return path.split(".").flatMap((segment) => {
+    const [name, ...indexes] = segment.split("[");
+    return [name, ...indexes.map((index) => Number(index.slice(0, -1)))];
+  });
+}
+
+function getPath(item: Record<string, any>, path: string): any {
+  return segments(path).reduce<any>(
+    (value, segment) => (value == null ? undefined : value[segment]),
+    item
+  );
+}
+
+// Sets a value, creating the maps leading to it when they are missing.
+function setPath(item: Record<string, any>, path: string, value: unknown) {
+  const parts = segments(path);
+  const last = parts.pop()!;
+  let parent: any = item;
+  for (const part of parts) {
+    parent[part] ??= {};
+    parent = parent[part];
+  }
+  parent[last] = value;
+}
+
+function removePath(item: Record<string, any>, path: string) {
+  const parts = segments(path);
+  const last = parts.pop()!;
+  const parent = parts.reduce<any>((value, part) => value?.[part], item);
+  if (Array.isArray(parent) && typeof last === "number") {
+    parent.splice(last, 1);
+  } else if (parent != null) {
+    delete parent[last];
+  }
+}
+
+// Two paths overlap when they are equal or one is a parent of the other.
+function pathsOverlap(a: string, b: string) {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return (
+    longer === shorter ||
+    (longer.startsWith(shorter) && /^[.[]/.test(longer.slice(shorter.length)))
+  );
+}
+
+export function update<T = any>(): UpdateExpressionBuilder<T> {
+  return new UpdateExpressionBuilder<T>();
+}
+
+export function getDDBUpdateExpression<T>(
+  item: T,
+  registry: AttributeRegistry = new AttributeRegistry()
+) {
+  const builder = new UpdateExpressionBuilder();
+  Object.entries(item as any).forEach(([key, value]) => {
+    builder.set(key, value);
+  });
+
+  const UpdateExpression = builder.render(registry);
 
   return {
     ...registry.get(),
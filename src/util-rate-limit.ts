@@ -0,0 +1,54 @@
+import { sleep } from "./util-backoff";
+
+/**
+ * A token bucket: holds up to `capacity` tokens and regains
+ * `refillPerSecond` of them every second. Each request takes one token and
+ * waits while the bucket is empty, which smooths bursts before DynamoDB has
+ * to throttle them.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private refilledAt: number;
+
+  constructor(
+    private capacity: number,
+    private refillPerSecond: number,
+    private now: () => number = Date.now
+  ) {
+    if (capacity < 1 || refillPerSecond <= 0) {
+      throw new Error(
+        "A token bucket needs a capacity of at least 1 and a positive refill rate."
+      );
+    }
+    this.tokens = capacity;
+    this.refilledAt = now();
+  }
+
+  /**
+   * Takes a token if one is available.
+   * @returns 0 when a token was taken, otherwise the milliseconds until one is.
+   */
+  tryTake(): number {
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+  }
+
+  async take(): Promise<void> {
+    for (let wait = this.tryTake(); wait > 0; wait = this.tryTake()) {
+      await sleep(wait);
+    }
+  }
+
+  private refill() {
+    const now = this.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.refilledAt) / 1000) * this.refillPerSecond
+    );
+    this.refilledAt = now;
+  }
+}
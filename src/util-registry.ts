@@ -5,9 +5,12 @@ export class AttributeRegistry {
   namesMap: Map<string, string> = new Map();
   valuesMap: Map<any, string> = new Map();
 
+  // Distinct prefixes let expressions from separate registries be combined.
+  constructor(private namePrefix = "#attr", private valuePrefix = ":value") {}
+
   key(key: string) {
     if (!this.namesMap.has(key)) {
-      const name = `#attr${this.attributeI}`;
+      const name = `${this.namePrefix}${this.attributeI}`;
       this.namesMap.set(key, name);
       this.attributeI += 1;
     }
@@ -15,9 +18,27 @@ export class AttributeRegistry {
     return this.namesMap.get(key);
   }
 
+  /**
+   * Escapes a document path such as `metadata.tags[2]`, registering every
+   * map segment as its own attribute name and keeping list indexes inline.
+   */
+  path(path: string) {
+    return path
+      .split(".")
+      .map((segment) => {
+        const match = /^([^[\]]+)((?:\[\d+\])*)$/.exec(segment);
+        if (!match) {
+          throw new Error(`Invalid attribute path: ${path}`);
+        }
+        const [, name, indexes] = match;
+        return `${this.key(name)}${indexes}`;
+      })
+      .join(".");
+  }
+
   value(value: any) {
     if (!this.valuesMap.has(value)) {
-      const name = `:value${this.valueI}`;
+      const name = `${this.valuePrefix}${this.valueI}`;
       this.valuesMap.set(value, name);
       this.valueI += 1;
     }
@@ -0,0 +1,117 @@
+import { withRetry } from "./util-retry";
+import { TokenBucket } from "./util-rate-limit";
+import { CircuitBreaker } from "./util-circuit-breaker";
+
+const throttled = () =>
+  Object.assign(new Error("Rate exceeded"), {
+    name: "ProvisionedThroughputExceededException",
+  });
+
+describe("withRetry", () => {
+  const backoff = { baseDelayMs: 1, maxDelayMs: 1 };
+
+  it("retries retryable errors until an attempt succeeds", async () => {
+    const attempt = jest
+      .fn()
+      .mockRejectedValueOnce(throttled())
+      .mockResolvedValueOnce("done");
+    await expect(withRetry(attempt, backoff)).resolves.toBe("done");
+    expect(attempt.mock.calls).toEqual([[1], [2]]);
+  });
+
+  it("rethrows the last error after maxAttempts", async () => {
+    const attempt = jest.fn().mockRejectedValue(throttled());
+    await expect(
+      withRetry(attempt, { ...backoff, maxAttempts: 4 })
+    ).rejects.toMatchObject({ name: "ProvisionedThroughputExceededException" });
+    expect(attempt).toHaveBeenCalledTimes(4);
+  });
+
+  it("does not retry other errors", async () => {
+    const attempt = jest.fn().mockRejectedValue(new Error("Bad request"));
+    await expect(withRetry(attempt, backoff)).rejects.toThrow("Bad request");
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops retrying at the deadline", async () => {
+    const attempt = jest.fn().mockRejectedValue(throttled());
+    await expect(
+      withRetry(attempt, {
+        maxAttempts: 10,
+        baseDelayMs: 1000,
+        maxDelayMs: 1000,
+        deadlineMs: 0,
+      })
+    ).rejects.toBeDefined();
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it("uses a custom classifier", async () => {
+    const attempt = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("flaky"))
+      .mockResolvedValueOnce("done");
+    await expect(
+      withRetry(attempt, { ...backoff, isRetryable: () => true })
+    ).resolves.toBe("done");
+  });
+});
+
+describe("TokenBucket", () => {
+  it("refills at the configured rate up to its capacity", () => {
+    let now = 0;
+    const bucket = new TokenBucket(2, 10, () => now);
+    expect([bucket.tryTake(), bucket.tryTake()]).toEqual([0, 0]);
+    expect(bucket.tryTake()).toBe(100);
+
+    now = 50;
+    expect(bucket.tryTake()).toBe(50);
+    now = 1000;
+    expect([bucket.tryTake(), bucket.tryTake(), bucket.tryTake()]).toEqual([
+      0, 0, 100,
+    ]);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker({
+      failureThreshold: 2,
+      resetTimeoutMs: 1000,
+      now: () => now,
+    });
+  });
+
+  it("opens after consecutive failures", () => {
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.state).toBe("closed");
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe("open");
+    expect(breaker.allowRequest()).toBe(false);
+    expect(breaker.retryAfterMs).toBe(1000);
+  });
+
+  it("lets one trial request through once the reset timeout passes", () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    now = 1000;
+    expect(breaker.state).toBe("half-open");
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe("open");
+
+    now = 2000;
+    expect(breaker.allowRequest()).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.state).toBe("closed");
+  });
+});
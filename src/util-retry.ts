@@ -0,0 +1,44 @@
+import { BackoffOptions, backoffDelay, sleep } from "./util-backoff";
+import { isRetryableError } from "./util-errors";
+
+export type RetryOptions = BackoffOptions & {
+  maxAttempts?: number; // Attempts per call, including the first
+  deadlineMs?: number; // No retry starts later than this after the first attempt
+  isRetryable?: (error: unknown) => boolean; // Defaults to throttling and transaction conflicts
+};
+
+/**
+ * Calls `attempt` until it succeeds, fails with an error that is not
+ * retryable, runs out of attempts or would retry past the deadline. Waits
+ * with exponential backoff and full jitter between attempts, and rethrows
+ * the last error unchanged.
+ * @param attempt Makes one attempt; receives its one-based number.
+ */
+export async function withRetry<R>(
+  attempt: (attemptNumber: number) => Promise<R>,
+  {
+    maxAttempts = 3,
+    deadlineMs,
+    isRetryable = isRetryableError,
+    ...backoff
+  }: RetryOptions = {}
+): Promise<R> {
+  const startedAt = Date.now();
+  for (let attemptNumber = 1; ; attemptNumber += 1) {
+    try {
+      return await attempt(attemptNumber);
+    } catch (error) {
+      if (attemptNumber >= maxAttempts || !isRetryable(error)) {
+        throw error;
+      }
+      const delay = backoffDelay(attemptNumber - 1, backoff);
+      if (
+        deadlineMs !== undefined &&
+        Date.now() - startedAt + delay > deadlineMs
+      ) {
+        throw error;
+      }
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { attribute, and, Condition } from "./util-condition";
+import {
+  KeyAttribute,
+  SearchCriteria,
+  SearchFilter,
+  TableDescriptor,
+} from "./types";
+
+// Operators DynamoDB accepts on a sort key in a key condition.
+const SORT_KEY_OPERATORS = new Set<SearchFilter["op"]>([
+  "eq",
+  "between",
+  "gte",
+  "lte",
+  "beginsWith",
+]);
+
+/**
+ * How a search is executed: a Query against the table or an index when a
+ * filter pins its partition key, a Scan otherwise.
+ */
+export type SearchPlan = {
+  operation: "query" | "scan";
+  indexName?: string; // Undefined for the base table
+  keyCondition?: Condition;
+  filter?: Condition;
+  descending?: boolean;
+  // Set when the requested order is not the order of the key read through.
+  sortInMemory?: { attribute: string; descending: boolean };
+};
+
+type Candidate = {
+  indexName?: string;
+  partitionKey: KeyAttribute;
+  sortKey?: KeyAttribute;
+};
+
+/**
+ * Picks the table or index that serves a search best. Only keys with an
+ * equality filter on their partition key qualify; among those, a key whose
+ * sort key is filtered as well wins, then one whose sort key matches the
+ * requested order. Indexes that do not project every attribute are skipped,
+ * as they would return incomplete items.
+ * @param table The table searched.
+ * @param criteria Filters and the requested order.
+ */
+export function planSearch(
+  table: TableDescriptor,
+  { filters = [], sort }: SearchCriteria
+): SearchPlan {
+  const candidates: Candidate[] = [
+    { partitionKey: table.partitionKey, sortKey: table.sortKey },
+    ...(table.indexes ?? [])
+      .filter((index) => index.projection.type === "ALL")
+      .map((index) => ({
+        indexName: index.name,
+        partitionKey: index.partitionKey,
+        sortKey: index.sortKey,
+      })),
+  ];
+
+  let best: { candidate: Candidate; score: number } | undefined;
+  for (const candidate of candidates) {
+    if (!filters.some((f) => isEquality(f, candidate.partitionKey.name))) {
+      continue;
+    }
+    const sortKeyFiltered = filters.some((f) => isSortKeyFilter(f, candidate));
+    const sortServed =
+      sort !== undefined && candidate.sortKey?.name === sort.attribute;
+    const score = (sortKeyFiltered ? 2 : 0) + (sortServed ? 1 : 0);
+    if (!best || score > best.score) {
+      best = { candidate, score };
+    }
+  }
+
+  if (!best) {
+    return {
+      operation: "scan",
+      filter: allOf(filters.map(toCondition)),
+      sortInMemory: sort && {
+        attribute: sort.attribute,
+        descending: sort.descending ?? false,
+      },
+    };
+  }
+
+  const { candidate } = best;
+  const partitionFilter = filters.find((f) =>
+    isEquality(f, candidate.partitionKey.name)
+  )!;
+  const sortKeyFilter = filters.find((f) => isSortKeyFilter(f, candidate));
+  const keyFilters = [
+    partitionFilter,
+    ...(sortKeyFilter ? [sortKeyFilter] : []),
+  ];
+  const sortServed =
+    sort === undefined || candidate.sortKey?.name === sort.attribute;
+
+  return {
+    operation: "query",
+    indexName: candidate.indexName,
+    keyCondition: and(...keyFilters.map(toCondition)),
+    filter: allOf(
+      filters.filter((f) => !keyFilters.includes(f)).map(toCondition)
+    ),
+    descending: sortServed ? sort?.descending : undefined,
+    sortInMemory: sortServed
+      ? undefined
+      : { attribute: sort!.attribute, descending: sort!.descending ?? false },
+  };
+}
+
+function isEquality(filter: SearchFilter, name: string): boolean {
+  return filter.op === "eq" && filter.attribute === name;
+}
+
+function isSortKeyFilter(filter: SearchFilter, candidate: Candidate): boolean {
+  return (
+    candidate.sortKey?.name === filter.attribute &&
+    SORT_KEY_OPERATORS.has(filter.op) &&
+    // begins_with is not defined for numbers.
+    !(filter.op === "beginsWith" && candidate.sortKey.type === "N")
+  );
+}
+
+function toCondition(filter: SearchFilter): Condition {
+  const path = attribute(filter.attribute);
+  switch (filter.op) {
+    case "eq":
+      return path.eq(filter.value);
+    case "in":
+      return path.in(filter.values);
+    case "between":
+      return path.between(filter.low, filter.high);
+    case "gte":
+      return path.gte(filter.value);
+    case "lte":
+      return path.lte(filter.value);
+    case "beginsWith":
+      return path.beginsWith(filter.prefix);
+  }
+}
+
+function allOf(conditions: Condition[]): Condition | undefined {
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}